@@ -0,0 +1,58 @@
+/**
+ * `aure check` — validate the data directory without starting the server.
+ *
+ * Runs the same loading and validation as startup and hot reload,
+ * prints every problem found, and exits non-zero if there are any.
+ * Handy before pushing a data repo, or in its CI.
+ *
+ * Usage: npm run check [-- path/to/data]
+ */
+
+import 'dotenv/config';
+import { existsSync } from 'node:fs';
+import { join, resolve } from 'node:path';
+
+import { loadData } from './core/data-loader.js';
+import { ConfigValidationError } from './core/schema.js';
+
+const DATA_DIR = process.argv[2]
+  ? resolve(process.argv[2])
+  : process.env.AURE_DATA_DIR ?? resolve(process.cwd(), 'data');
+
+function main(): number {
+  console.log('');
+  console.log(`  aure check — ${DATA_DIR}`);
+  console.log('');
+
+  let data;
+  try {
+    data = loadData(DATA_DIR);
+  } catch (error) {
+    const errors = error instanceof ConfigValidationError
+      ? error.errors
+      : [error instanceof Error ? error.message : String(error)];
+    for (const e of errors) console.log(`  ✗ ${e}`);
+    console.log('');
+    console.log(`  ${errors.length} problem${errors.length === 1 ? '' : 's'} found.`);
+    console.log('');
+    return 1;
+  }
+
+  for (const warning of data.warnings) console.log(`  ⚠  ${warning}`);
+
+  // Missing sources are skipped at load time — worth a warning here
+  for (const source of data.config.sources ?? []) {
+    if (!existsSync(join(DATA_DIR, source.path))) {
+      console.log(`  ⚠  source "${source.name}": ${source.path} not found`);
+    }
+  }
+
+  console.log(`  ✓ persona: ${data.persona.name}`);
+  console.log(`  ✓ rules: ${data.rules.length} rules, ${data.spamRules.length} spam filters`);
+  console.log(`  ✓ data sources: ${data.chunks.length} chunks`);
+  console.log(`  ✓ memories: ${data.memories.length}`);
+  console.log('');
+  return 0;
+}
+
+process.exit(main());
@@ -0,0 +1,64 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { mkdtempSync, mkdirSync, writeFileSync, rmSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { loadData } from './data-loader.js';
+import { ConfigValidationError } from './schema.js';
+
+let dir: string;
+
+const config = `
+provider:
+  type: ollama
+sources:
+  - name: notes
+    path: notes/
+    format: markdown
+    description: Notes
+  - name: cv
+    path: cv.json
+    format: json
+    description: CV
+admin:
+  token: secret
+`;
+
+beforeEach(() => {
+  dir = mkdtempSync(join(tmpdir(), 'aure-data-'));
+  writeFileSync(join(dir, 'config.yaml'), config);
+  mkdirSync(join(dir, 'notes', 'travel', 'asia'), { recursive: true });
+  mkdirSync(join(dir, 'notes', '.drafts'));
+  writeFileSync(join(dir, 'notes', 'ai.md'), '# AI\n\nThoughts.');
+  writeFileSync(join(dir, 'notes', 'travel', 'asia', 'japan.md'), '# Japan\n\nTrains.\n\n## Food\n\nRamen.');
+  writeFileSync(join(dir, 'notes', '.drafts', 'secret.md'), '# Draft');
+  writeFileSync(join(dir, 'cv.json'), JSON.stringify({ name: 'Ada', skills: ['Go'] }));
+});
+
+afterEach(() => {
+  rmSync(dir, { recursive: true, force: true });
+});
+
+describe('loadData sources', () => {
+  it('reads nested folders and skips hidden ones', () => {
+    const { chunks } = loadData(dir);
+    const notes = chunks.filter(c => c.source === 'notes');
+
+    expect(notes.map(c => [c.metadata?.file, c.metadata?.section])).toEqual([
+      ['ai.md', 'AI'],
+      [join('travel', 'asia', 'japan.md'), 'Japan'],
+      [join('travel', 'asia', 'japan.md'), 'Food'],
+    ]);
+  });
+
+  it('flattens JSON into sections', () => {
+    const cv = loadData(dir).chunks.filter(c => c.source === 'cv');
+    expect(cv.map(c => c.content)).toEqual(['Name: Ada', 'Skills: Go']);
+    expect(cv[0].metadata).toMatchObject({ file: 'cv.json', format: 'json', section: 'Profile' });
+  });
+
+  it('reports invalid JSON with its path', () => {
+    writeFileSync(join(dir, 'cv.json'), '{ "name": ');
+    expect(() => loadData(dir)).toThrow(ConfigValidationError);
+    expect(() => loadData(dir)).toThrow(/cv\.json: /);
+  });
+});
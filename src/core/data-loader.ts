@@ -7,8 +7,10 @@
  */
 
 import { readFileSync, readdirSync, existsSync, statSync } from 'node:fs';
-import { join, extname } from 'node:path';
-import { parse as parseYaml } from './yaml.js';
+import { join } from 'node:path';
+import { parse as parseYaml, interpolateEnv } from './yaml.js';
+import { validateData, ConfigValidationError } from './schema.js';
+import { detectFormat, parseSource } from './formats.js';
 import type { AureConfig, Persona, Rule, SpamRule, DataChunk, DataSource, MemoryPair } from '../types/index.js';
 
 export interface LoadedData {
@@ -18,10 +20,14 @@ export interface LoadedData {
   spamRules: SpamRule[];
   chunks: DataChunk[];
   memories: MemoryPair[];
+  /** Likely typos that don't stop loading — `npm run check` lists them */
+  warnings: string[];
 }
 
 /**
  * Load all data from the data directory.
+ * ${VAR} and ${VAR:-default} in any YAML value are taken from the environment.
+ * Throws ConfigValidationError if any file fails to parse or validate.
  */
 export function loadData(dataDir: string): LoadedData {
   const configPath = join(dataDir, 'config.yaml');
@@ -35,71 +41,91 @@ export function loadData(dataDir: string): LoadedData {
     );
   }
 
-  const config = parseYaml(readFileSync(configPath, 'utf-8')) as AureConfig;
-  const persona = existsSync(personaPath)
-    ? parseYaml(readFileSync(personaPath, 'utf-8')) as Persona
-    : defaultPersona();
+  // Parse every file first so one run reports all broken files
+  const errors: string[] = [];
+  const read = (path: string, file: string): unknown => {
+    if (!existsSync(path)) return undefined;
+    let parsed: unknown;
+    try {
+      parsed = parseYaml(readFileSync(path, 'utf-8'));
+    } catch (error) {
+      // First line only — the rest is a source excerpt that may hold secrets
+      errors.push(`${file}: ${error instanceof Error ? error.message.split('\n')[0] : error}`);
+      return undefined;
+    }
+
+    const { value, missing } = interpolateEnv(parsed);
+    errors.push(...missing.map(m => `${file}: ${m}`));
+    return value;
+  };
 
-  const rulesData = existsSync(rulesPath)
-    ? parseYaml(readFileSync(rulesPath, 'utf-8')) as any
-    : { rules: [], spam: [] };
+  const raw = {
+    config: read(configPath, 'config.yaml'),
+    persona: read(personaPath, 'persona.yaml'),
+    rules: read(rulesPath, 'rules.yaml'),
+    memories: read(join(dataDir, 'memories.yaml'), 'memories.yaml'),
+  };
+
+  if (errors.length > 0) {
+    throw new ConfigValidationError(errors);
+  }
 
-  const chunks = loadSources(dataDir, config.sources ?? []);
+  const { config, persona, rules, spamRules, memories, warnings } = validateData(raw);
 
-  const memoriesPath = join(dataDir, 'memories.yaml');
-  const memories: MemoryPair[] = existsSync(memoriesPath)
-    ? (parseYaml(readFileSync(memoriesPath, 'utf-8')) as MemoryPair[]) ?? []
-    : [];
+  const chunks = loadSources(dataDir, config.sources ?? [], errors);
+  if (errors.length > 0) {
+    throw new ConfigValidationError(errors);
+  }
 
   return {
     config,
-    persona,
-    rules: rulesData.rules ?? [],
-    spamRules: rulesData.spam ?? [],
+    persona: persona ?? defaultPersona(),
+    rules,
+    spamRules,
     chunks,
     memories,
+    warnings,
   };
 }
 
 /**
- * Load all data sources into chunks.
+ * Load all data sources into chunks — one per markdown heading or
+ * JSON section. Directories are read recursively; hidden files and
+ * folders are skipped. Unparseable files are reported in `errors`.
  */
-function loadSources(dataDir: string, sources: DataSource[]): DataChunk[] {
+function loadSources(dataDir: string, sources: DataSource[], errors: string[]): DataChunk[] {
   const chunks: DataChunk[] = [];
 
   for (const source of sources) {
     const sourcePath = join(dataDir, source.path);
     if (!existsSync(sourcePath)) continue;
 
-    const stat = statSync(sourcePath);
-
-    if (stat.isDirectory()) {
-      const files = readdirSync(sourcePath).filter(f => !f.startsWith('.'));
-      for (const file of files) {
-        const filePath = join(sourcePath, file);
-        const content = readFileSync(filePath, 'utf-8').trim();
-        if (!content) continue;
+    const files = statSync(sourcePath).isDirectory()
+      ? listFiles(sourcePath).map(file => ({ path: join(sourcePath, file), file }))
+      : [{ path: sourcePath, file: source.path }];
+
+    for (const { path, file } of files) {
+      const content = readFileSync(path, 'utf-8').trim();
+      if (!content) continue;
+
+      const format = detectFormat(file, source.format);
+      let sections;
+      try {
+        sections = parseSource(content, format);
+      } catch (error) {
+        errors.push(`${file === source.path ? file : join(source.path, file)}: ${error instanceof Error ? error.message : error}`);
+        continue;
+      }
 
+      for (const { content, section } of sections) {
         chunks.push({
           source: source.name,
           content,
           metadata: {
             file,
-            format: source.format,
-            description: source.description,
-          },
-        });
-      }
-    } else {
-      const content = readFileSync(sourcePath, 'utf-8').trim();
-      if (content) {
-        chunks.push({
-          source: source.name,
-          content,
-          metadata: {
-            file: source.path,
-            format: source.format,
+            format,
             description: source.description,
+            ...(section && { section }),
           },
         });
       }
@@ -109,6 +135,21 @@ function loadSources(dataDir: string, sources: DataSource[]): DataChunk[] {
   return chunks;
 }
 
+/** Files under dir, as paths relative to it, skipping hidden entries */
+function listFiles(dir: string, prefix = ''): string[] {
+  const files: string[] = [];
+
+  for (const entry of readdirSync(join(dir, prefix), { withFileTypes: true })) {
+    if (entry.name.startsWith('.')) continue;
+    const rel = prefix ? join(prefix, entry.name) : entry.name;
+
+    if (entry.isDirectory()) files.push(...listFiles(dir, rel));
+    else if (entry.isFile()) files.push(rel);
+  }
+
+  return files.sort();
+}
+
 function defaultPersona(): Persona {
   return {
     name: 'aure',
@@ -0,0 +1,101 @@
+import { describe, it, expect } from 'vitest';
+import { detectFormat, parseSource, splitMarkdown, flattenJson } from './formats.js';
+
+describe('detectFormat', () => {
+  it('prefers the file extension', () => {
+    expect(detectFormat('cv.json', 'markdown')).toBe('json');
+    expect(detectFormat('notes/a.MD', 'json')).toBe('markdown');
+    expect(detectFormat('todo.txt', 'markdown')).toBe('text');
+  });
+
+  it('falls back to the source format', () => {
+    expect(detectFormat('notes', 'markdown')).toBe('markdown');
+    expect(detectFormat('data.yaml', 'text')).toBe('text');
+  });
+});
+
+describe('splitMarkdown', () => {
+  it('splits by headings and keeps the heading line', () => {
+    const sections = splitMarkdown('# Travel\n\nI like trains.\n\n## Japan\n\nWent in 2019.\n');
+    expect(sections).toEqual([
+      { content: '# Travel\n\nI like trains.', section: 'Travel' },
+      { content: '## Japan\n\nWent in 2019.', section: 'Japan' },
+    ]);
+  });
+
+  it('keeps text before the first heading', () => {
+    expect(splitMarkdown('Intro text\n# Later\nMore')).toEqual([
+      { content: 'Intro text' },
+      { content: '# Later\nMore', section: 'Later' },
+    ]);
+  });
+
+  it('skips headings without text', () => {
+    const sections = splitMarkdown('# Title\n\n## Part\n\nBody');
+    expect(sections).toEqual([{ content: '## Part\n\nBody', section: 'Part' }]);
+  });
+
+  it('ignores headings inside code fences', () => {
+    const sections = splitMarkdown('# Shell\n\n```sh\n# not a heading\nls\n```\n');
+    expect(sections).toHaveLength(1);
+    expect(sections[0].content).toContain('# not a heading');
+  });
+
+  it('drops HTML comments', () => {
+    expect(splitMarkdown('# A\n\nText <!-- hidden -->\n<!--\nnote\n-->')).toEqual([{ content: '# A\n\nText', section: 'A' }]);
+  });
+});
+
+describe('flattenJson', () => {
+  it('turns arrays of objects into labelled lines', () => {
+    const sections = flattenJson({
+      name: 'Ada',
+      experience: [{ company: 'Acme', role: 'Engineer', start: '2020', end: '2023', description: 'Built things' }],
+    });
+    expect(sections).toEqual([
+      { content: 'Name: Ada', section: 'Profile' },
+      { content: 'Experience — Acme, Engineer, 2020–2023: Built things', section: 'Experience' },
+    ]);
+  });
+
+  it('joins string lists and skips empty sections', () => {
+    const sections = flattenJson({ skills: ['TypeScript', 'Go'], education: [], hobbies: [''] });
+    expect(sections).toEqual([{ content: 'Skills: TypeScript; Go', section: 'Skills' }]);
+  });
+
+  it('marks ongoing entries as present and keeps extra fields', () => {
+    const [section] = flattenJson({ jobs: [{ company: 'Now', startDate: '2023', stack: ['TS', 'SQL'] }] });
+    expect(section.content).toBe('Jobs — Now, 2023–present. Stack: TS; SQL');
+  });
+
+  it('supports JSON Resume', () => {
+    const sections = flattenJson({
+      $schema: 'https://raw.githubusercontent.com/jsonresume/resume-schema/v1.0.0/schema.json',
+      basics: {
+        name: 'Ada',
+        label: 'Engineer',
+        location: { city: 'Tallinn', countryCode: 'EE' },
+        profiles: [{ network: 'GitHub', username: 'ada' }],
+      },
+      work: [{ name: 'Acme', position: 'Engineer', startDate: '2020-01', endDate: '2023-06', highlights: ['Shipped v2'] }],
+      education: [{ institution: 'TalTech', area: 'CS', studyType: 'BSc', endDate: '2019' }],
+      languages: [{ language: 'Estonian', fluency: 'Native' }],
+    });
+
+    expect(sections.map(s => s.section)).toEqual(['Profile', 'Experience', 'Education', 'Languages']);
+    expect(sections[0].content).toBe('Name: Ada\nTitle: Engineer\nLocation: Tallinn, EE\nProfiles: GitHub: ada');
+    expect(sections[1].content).toBe('Experience — Acme, Engineer, 2020-01–2023-06. Highlights: Shipped v2');
+    expect(sections[2].content).toBe('Education — TalTech, BSc, CS, 2019');
+    expect(sections[3].content).toBe('Languages — Estonian, Native');
+  });
+});
+
+describe('parseSource', () => {
+  it('throws on invalid JSON', () => {
+    expect(() => parseSource('{ "name": ', 'json')).toThrow(SyntaxError);
+  });
+
+  it('keeps text as one section', () => {
+    expect(parseSource('  hello\n', 'text')).toEqual([{ content: 'hello' }]);
+  });
+});
@@ -0,0 +1,255 @@
+/**
+ * Format-aware source parsing — turns a file into prompt-ready sections.
+ *
+ * Small models read prose far better than raw JSON, so:
+ *   - markdown is split by headings, one section per heading
+ *   - JSON is flattened into labelled lines, one section per top-level key
+ *     ("Experience — Acme, Engineer, 2020–2023: Built things")
+ *   - JSON Resume (https://jsonresume.org) gets friendly section names
+ *   - anything else is one section of plain text
+ */
+
+import { extname } from 'node:path';
+import type { DataSource } from '../types/index.js';
+
+export interface Section {
+  content: string;
+  /** Heading (markdown) or section name (JSON) */
+  section?: string;
+}
+
+/** Which parser to use — a known extension wins over the source's format */
+export function detectFormat(file: string, fallback: DataSource['format']): DataSource['format'] {
+  switch (extname(file).toLowerCase()) {
+    case '.json': return 'json';
+    case '.md':
+    case '.markdown': return 'markdown';
+    case '.txt': return 'text';
+    default: return fallback;
+  }
+}
+
+/**
+ * Parse a file's content into sections. Throws on invalid JSON.
+ */
+export function parseSource(content: string, format: DataSource['format']): Section[] {
+  switch (format) {
+    case 'markdown': return splitMarkdown(content);
+    case 'json': return flattenJson(JSON.parse(content));
+    default: return content.trim() ? [{ content: content.trim() }] : [];
+  }
+}
+
+// ── Markdown ─────────────────────────────────────────────
+
+const HEADING = /^(#{1,6})\s+(.+?)\s*#*\s*$/;
+const FENCE = /^\s*(```|~~~)/;
+
+/**
+ * One section per heading; the heading line stays in the content.
+ * Text before the first heading is its own section. Headings inside
+ * code fences don't count, HTML comments are dropped (they don't render).
+ */
+export function splitMarkdown(markdown: string): Section[] {
+  const text = markdown.replace(/<!--[\s\S]*?-->/g, '');
+  const sections: Section[] = [];
+
+  let heading: string | undefined;
+  let lines: string[] = [];
+  let inFence = false;
+
+  const flush = () => {
+    const body = lines.join('\n').trim();
+    const hasText = body.split('\n').some(line => !HEADING.test(line) && line.trim());
+    if (hasText) sections.push({ content: body, ...(heading && { section: heading }) });
+    lines = [];
+  };
+
+  for (const line of text.split('\n')) {
+    if (FENCE.test(line)) inFence = !inFence;
+
+    const match = !inFence && HEADING.exec(line);
+    if (match) {
+      flush();
+      heading = match[2];
+    }
+    lines.push(line);
+  }
+  flush();
+
+  return sections;
+}
+
+// ── JSON ─────────────────────────────────────────────────
+
+/** JSON Resume section names */
+const RESUME_SECTIONS: Record<string, string> = {
+  basics: 'Profile',
+  work: 'Experience',
+  volunteer: 'Volunteering',
+  education: 'Education',
+  awards: 'Awards',
+  certificates: 'Certificates',
+  publications: 'Publications',
+  skills: 'Skills',
+  languages: 'Languages',
+  interests: 'Interests',
+  references: 'References',
+  projects: 'Projects',
+};
+
+/** Fields that name an entry, in display order */
+const TITLE_KEYS = [
+  'name', 'company', 'organization', 'organisation', 'employer', 'institution', 'school',
+  'network', 'language', 'title', 'position', 'role', 'label', 'degree', 'studyType', 'area',
+  'issuer', 'awarder', 'publisher', 'username', 'fluency', 'level',
+];
+const START_KEYS = ['startDate', 'start', 'from'];
+const END_KEYS = ['endDate', 'end', 'to'];
+const DATE_KEYS = ['date', 'releaseDate', 'year', 'years', 'period', 'dates'];
+const TEXT_KEYS = ['summary', 'description', 'details'];
+
+/** Keys that carry no meaning for the model */
+const SKIP_KEYS = new Set(['$schema', 'meta', 'image', 'picture']);
+
+/**
+ * Flatten parsed JSON into labelled text, one section per top-level
+ * array/object. Top-level scalars are collected into a "Profile" section.
+ */
+export function flattenJson(data: unknown): Section[] {
+  if (Array.isArray(data)) {
+    const content = formatList('Entries', data);
+    return content ? [{ content }] : [];
+  }
+  if (!isObject(data)) {
+    return data === null || data === '' ? [] : [{ content: String(data) }];
+  }
+
+  const isResume = isObject(data.basics);
+  const sections: Section[] = [];
+  const profile: string[] = [];
+
+  for (const [key, value] of Object.entries(data)) {
+    if (SKIP_KEYS.has(key) || isEmpty(value)) continue;
+
+    const label = (isResume && RESUME_SECTIONS[key]) || humanize(key);
+
+    if (isResume && key === 'basics') {
+      sections.unshift({ content: formatBasics(value as Record<string, unknown>), section: label });
+    } else if (Array.isArray(value)) {
+      const content = formatList(label, value);
+      if (content) sections.push({ content, section: label });
+    } else if (isObject(value)) {
+      sections.push({ content: formatFields(value).map(f => `${label} — ${f}`).join('\n'), section: label });
+    } else {
+      profile.push(`${label}: ${value}`);
+    }
+  }
+
+  if (profile.length > 0) {
+    sections.unshift({ content: profile.join('\n'), section: 'Profile' });
+  }
+
+  return sections;
+}
+
+/** JSON Resume basics — name, title, contact and location on separate lines */
+function formatBasics(basics: Record<string, unknown>): string {
+  const lines: string[] = [];
+
+  for (const [key, value] of Object.entries(basics)) {
+    if (SKIP_KEYS.has(key) || isEmpty(value)) continue;
+
+    if (key === 'label') {
+      lines.push(`Title: ${value}`);
+    } else if (key === 'location' && isObject(value)) {
+      const { address, postalCode, city, region, countryCode } = value;
+      lines.push(`Location: ${[address, postalCode, city, region, countryCode].filter(v => !isEmpty(v)).join(', ')}`);
+    } else if (key === 'profiles' && Array.isArray(value)) {
+      const profiles = value.filter(isObject).map(p => [p.network, p.username ?? p.url].filter(Boolean).join(': '));
+      lines.push(`Profiles: ${profiles.join('; ')}`);
+    } else {
+      lines.push(`${humanize(key)}: ${formatValue(value)}`);
+    }
+  }
+
+  return lines.join('\n');
+}
+
+/** Strings become one line; objects become one line each */
+function formatList(label: string, items: unknown[]): string {
+  const present = items.filter(item => !isEmpty(item));
+  if (present.length === 0) return '';
+
+  if (present.every(item => !isObject(item))) {
+    return `${label}: ${present.map(formatValue).join('; ')}`;
+  }
+
+  return present
+    .map(item => isObject(item) ? `${label} — ${formatEntry(item)}` : `${label} — ${formatValue(item)}`)
+    .join('\n');
+}
+
+/** "Acme, Engineer, 2020–2023: Built things. Highlights: a; b" */
+function formatEntry(entry: Record<string, unknown>): string {
+  const used = new Set<string>();
+  const take = (keys: string[]) => {
+    const key = keys.find(k => !used.has(k) && !isEmpty(entry[k]) && !isObject(entry[k]) && !Array.isArray(entry[k]));
+    if (key) used.add(key);
+    return key ? String(entry[key]) : undefined;
+  };
+
+  const titles: string[] = [];
+  for (const key of TITLE_KEYS) {
+    const value = take([key]);
+    if (value) titles.push(value);
+  }
+
+  const start = take(START_KEYS);
+  const end = take(END_KEYS);
+  const date = start ? `${start}–${end ?? 'present'}` : end ?? take(DATE_KEYS);
+  if (date) titles.push(date);
+
+  const text = take(TEXT_KEYS);
+  const rest = Object.entries(entry)
+    .filter(([key, value]) => !used.has(key) && !SKIP_KEYS.has(key) && !isEmpty(value))
+    .map(([key, value]) => `${humanize(key)}: ${formatValue(value)}`);
+
+  let line = titles.join(', ');
+  if (text) line += line ? `: ${text}` : text;
+  if (rest.length > 0) line += (line ? '. ' : '') + rest.join('. ');
+  return line;
+}
+
+function formatFields(obj: Record<string, unknown>): string[] {
+  return Object.entries(obj)
+    .filter(([key, value]) => !SKIP_KEYS.has(key) && !isEmpty(value))
+    .map(([key, value]) => `${humanize(key)}: ${formatValue(value)}`);
+}
+
+function formatValue(value: unknown): string {
+  if (Array.isArray(value)) return value.filter(v => !isEmpty(v)).map(formatValue).join('; ');
+  if (isObject(value)) return formatFields(value).join(', ');
+  return String(value);
+}
+
+/** "studyType" / "study_type" → "Study type" */
+function humanize(key: string): string {
+  const words = key
+    .replace(/([a-z0-9])([A-Z])/g, '$1 $2')
+    .replace(/[_-]+/g, ' ')
+    .trim()
+    .toLowerCase();
+  return words.charAt(0).toUpperCase() + words.slice(1);
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function isEmpty(value: unknown): boolean {
+  if (value === null || value === undefined || value === '') return true;
+  if (Array.isArray(value)) return value.every(isEmpty);
+  if (isObject(value)) return Object.values(value).every(isEmpty);
+  return false;
+}
@@ -0,0 +1,45 @@
+/**
+ * Language detection for rule conditions — no model, just common words.
+ *
+ * Good enough to tell "Hallo, sind Sie verfügbar?" from "Hi, are you
+ * available?" in a chat message. Returns null when a message has no
+ * telling words or two languages tie; the LLM path doesn't need this.
+ * Cyrillic text without telling words counts as Russian.
+ */
+
+const COMMON_WORDS: Record<string, string[]> = {
+  en: ['the', 'and', 'is', 'are', 'you', 'your', 'what', 'how', 'hello', 'hi', 'thanks', 'with', 'have', 'this', 'for', 'can', 'do', 'my', 'would', 'it'],
+  de: ['der', 'die', 'das', 'und', 'ist', 'sind', 'sie', 'du', 'ich', 'nicht', 'wie', 'was', 'hallo', 'danke', 'mit', 'haben', 'ein', 'eine', 'für', 'bitte'],
+  fr: ['le', 'la', 'les', 'et', 'est', 'vous', 'tu', 'je', 'pas', 'comment', 'quoi', 'bonjour', 'merci', 'avec', 'avez', 'un', 'une', 'pour', 'salut', 'ça'],
+  es: ['el', 'los', 'las', 'es', 'usted', 'tú', 'yo', 'no', 'cómo', 'qué', 'hola', 'gracias', 'con', 'tiene', 'una', 'para', 'por', 'favor', 'está', 'pero'],
+  it: ['il', 'gli', 'è', 'sono', 'lei', 'io', 'non', 'come', 'cosa', 'ciao', 'grazie', 'con', 'hai', 'una', 'per', 'buongiorno', 'che', 'della', 'mi', 'sei'],
+  nl: ['de', 'het', 'en', 'is', 'zijn', 'jij', 'je', 'ik', 'niet', 'hoe', 'wat', 'hallo', 'bedankt', 'met', 'hebben', 'een', 'voor', 'alsjeblieft', 'dank', 'u'],
+  et: ['ja', 'on', 'ei', 'kas', 'mis', 'see', 'tere', 'aitäh', 'palun', 'ma', 'sa', 'te', 'teie', 'mina', 'kuidas', 'miks', 'jah', 'olen', 'oled', 'kus'],
+  ru: ['и', 'в', 'не', 'что', 'как', 'привет', 'спасибо', 'вы', 'я', 'это', 'на', 'с', 'пожалуйста', 'здравствуйте', 'есть', 'у', 'мне', 'можно', 'ты', 'да'],
+  pt: ['os', 'as', 'é', 'são', 'você', 'eu', 'não', 'como', 'olá', 'obrigado', 'obrigada', 'com', 'tem', 'uma', 'para', 'por', 'favor', 'está', 'mas', 'oi'],
+};
+
+const WORD_SETS = Object.entries(COMMON_WORDS).map(([language, words]) => [language, new Set(words)] as const);
+
+/** ISO 639-1 code of the most likely language, or null if unclear */
+export function detectLanguage(text: string): string | null {
+  const words = text.toLowerCase().match(/\p{L}+/gu) ?? [];
+
+  let best: string | null = null;
+  let bestScore = 0;
+  let tied = false;
+
+  for (const [language, set] of WORD_SETS) {
+    const score = words.filter(w => set.has(w)).length;
+    if (score > bestScore) {
+      best = language;
+      bestScore = score;
+      tied = false;
+    } else if (score === bestScore && score > 0) {
+      tied = true;
+    }
+  }
+
+  if (bestScore === 0 && words.length > 0 && words.every(w => /\p{Script=Cyrillic}/u.test(w))) return 'ru';
+  return tied ? null : best;
+}
@@ -0,0 +1,95 @@
+import { describe, it, expect } from 'vitest';
+import { buildPrompt, estimateTokens, type PromptInput } from './prompt.js';
+import type { LLMMessage } from '../llm/provider.js';
+
+const persona = {
+  name: 'aure', description: '', systemPrompt: 'You are aure.', greeting: 'Hi',
+  fallback: 'No idea', languages: [], blockedTopics: [],
+};
+
+const words = (n: number, word = 'word') => Array.from({ length: n }, () => word).join(' ');
+
+function turns(n: number): LLMMessage[] {
+  return Array.from({ length: n }, (_, i) => ({
+    role: i % 2 === 0 ? 'user' as const : 'assistant' as const,
+    content: `turn${i} ${words(20)}`,
+  }));
+}
+
+function input(overrides: Partial<PromptInput> = {}): PromptInput {
+  return {
+    persona,
+    chunks: [
+      { source: 'cv', content: words(50, 'cv'), metadata: { file: 'cv.json' } },
+      { source: 'notes', content: words(50, 'rust'), metadata: { file: 'rust.md', score: 0.9 } },
+      { source: 'notes', content: words(50, 'garden'), metadata: { file: 'garden.md', score: 0.4 } },
+    ],
+    memories: [
+      { user: words(10, 'q1'), assistant: words(10, 'a1') },
+      { user: words(10, 'q2'), assistant: words(10, 'a2') },
+    ],
+    history: turns(4),
+    message: 'Tell me about rust',
+    ...overrides,
+  };
+}
+
+describe('estimateTokens', () => {
+  it('approximates 1.3 tokens per word', () => {
+    expect(estimateTokens('')).toBe(0);
+    expect(estimateTokens('one two three four five six seven eight nine ten')).toBe(13);
+  });
+});
+
+describe('buildPrompt', () => {
+  it('orders system, memories, history, message', () => {
+    const { messages, report } = buildPrompt(input());
+
+    expect(messages[0].role).toBe('system');
+    expect(messages[0].content).toContain('--- Available information ---');
+    expect(messages[1].content).toContain('q1');
+    expect(messages[5].content).toContain('turn0');
+    expect(messages.at(-1)).toEqual({ role: 'user', content: 'Tell me about rust' });
+    expect(report.budget).toBeNull();
+    expect(report.estimatedTokens).toBeGreaterThan(0);
+  });
+
+  it('keeps the last 10 history turns by default', () => {
+    const { messages, report } = buildPrompt(input({ history: turns(14) }));
+    const history = messages.filter(m => m.content.startsWith('turn'));
+    expect(history).toHaveLength(10);
+    expect(history[0].content).toMatch(/^turn4 /);
+    expect(report.dropped.history).toBe(0);
+  });
+
+  it('drops oldest history first', () => {
+    const full = buildPrompt(input());
+    const { messages, report } = buildPrompt(input(), { budget: full.report.estimatedTokens - 10 });
+
+    expect(report.dropped.history).toBe(1);
+    expect(report.dropped.chunks).toEqual([]);
+    expect(messages.some(m => m.content.startsWith('turn0'))).toBe(false);
+    expect(messages.some(m => m.content.startsWith('turn1'))).toBe(true);
+    expect(report.estimatedTokens).toBeLessThanOrEqual(report.budget!);
+  });
+
+  it('then drops the lowest-scored chunks, keeping unscored ones longest', () => {
+    const noHistory = buildPrompt(input({ history: [] }));
+    const { chunks, report } = buildPrompt(input(), { budget: noHistory.report.estimatedTokens - 10 });
+
+    expect(report.dropped.history).toBe(4);
+    expect(report.dropped.chunks).toEqual([{ source: 'notes', file: 'garden.md', score: 0.4 }]);
+    expect(chunks.map(c => c.metadata?.file)).toEqual(['cv.json', 'rust.md']);
+  });
+
+  it('drops memories last and flags when the core alone is over budget', () => {
+    const { messages, report } = buildPrompt(input(), { budget: 5 });
+
+    expect(report.dropped.history).toBe(4);
+    expect(report.dropped.chunks).toHaveLength(3);
+    expect(report.dropped.memories).toBe(2);
+    expect(report.overBudget).toBe(true);
+    expect(messages).toHaveLength(2);
+    expect(messages[0].content).not.toContain('Available information');
+  });
+});
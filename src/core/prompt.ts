@@ -0,0 +1,198 @@
+/**
+ * Prompt builder — assembles the LLM message list within a token budget.
+ *
+ * The prompt is: system prompt (persona + data chunks), memories,
+ * recent history, and the visitor's message. Small models have small
+ * context windows, and Ollama silently truncates whatever doesn't fit.
+ *
+ * When over budget, parts are dropped in priority order:
+ *   1. oldest history turns
+ *   2. lowest-relevance chunks (unscored/pinned chunks go last)
+ *   3. memories, last first
+ *
+ * The persona and the visitor's message are never dropped. If they
+ * alone exceed the budget, the prompt is sent anyway and flagged.
+ *
+ * Token counts are estimates (same word-based heuristic as α) —
+ * good enough to stay clear of the limit, not exact.
+ */
+
+import type { Persona, DataChunk, MemoryPair } from '../types/index.js';
+import type { LLMMessage } from '../llm/provider.js';
+import { toContextSources, type ContextSource } from './retrieval.js';
+
+/** History turns kept even without a budget */
+const DEFAULT_MAX_HISTORY = 10;
+
+/** Rough per-message cost of role markers and separators */
+const MESSAGE_OVERHEAD = 4;
+
+export interface PromptInput {
+  persona: Persona;
+  /** Context chunks, best first */
+  chunks: DataChunk[];
+  memories: MemoryPair[];
+  /** Full conversation history, oldest first */
+  history: LLMMessage[];
+  message: string;
+}
+
+export interface PromptOptions {
+  /** Max prompt tokens, or undefined for no budget */
+  budget?: number;
+  /** Most recent history turns to consider. Default: 10 */
+  maxHistory?: number;
+}
+
+/** What went into the prompt — stored in message metadata */
+export interface PromptReport {
+  estimatedTokens: number;
+  budget: number | null;
+  /** The persona + message alone exceed the budget */
+  overBudget: boolean;
+  dropped: {
+    history: number;
+    chunks: ContextSource[];
+    memories: number;
+  };
+}
+
+export interface BuiltPrompt {
+  messages: LLMMessage[];
+  /** Chunks that made it into the prompt */
+  chunks: DataChunk[];
+  report: PromptReport;
+}
+
+/**
+ * Word-based token estimate — no tokenizer dependency.
+ */
+export function estimateTokens(text: string): number {
+  const words = text.split(/\s+/).filter(Boolean).length;
+  return Math.ceil(words * 1.3);
+}
+
+export function buildPrompt(input: PromptInput, options: PromptOptions = {}): BuiltPrompt {
+  const budget = options.budget;
+  const maxHistory = options.maxHistory ?? DEFAULT_MAX_HISTORY;
+
+  let history = input.history.slice(-maxHistory);
+  const chunks = [...input.chunks];
+  const memories = [...input.memories];
+
+  const dropped: PromptReport['dropped'] = { history: 0, chunks: [], memories: 0 };
+
+  const assemble = (): LLMMessage[] => [
+    { role: 'system', content: buildSystemPrompt(input.persona, buildContext(chunks)) },
+    // Memories go between system prompt and real history —
+    // the model treats them as its own past answers and stays consistent.
+    ...memories.flatMap(m => [
+      { role: 'user' as const, content: m.user },
+      { role: 'assistant' as const, content: m.assistant },
+    ]),
+    ...history,
+    { role: 'user', content: input.message },
+  ];
+
+  let messages = assemble();
+  let tokens = countTokens(messages);
+
+  if (budget !== undefined) {
+    while (tokens > budget && history.length > 0) {
+      history = history.slice(1);
+      dropped.history++;
+      messages = assemble();
+      tokens = countTokens(messages);
+    }
+
+    while (tokens > budget && chunks.length > 0) {
+      const [chunk] = chunks.splice(leastRelevant(chunks), 1);
+      dropped.chunks.push(...toContextSources([chunk]));
+      messages = assemble();
+      tokens = countTokens(messages);
+    }
+
+    while (tokens > budget && memories.length > 0) {
+      memories.pop();
+      dropped.memories++;
+      messages = assemble();
+      tokens = countTokens(messages);
+    }
+  }
+
+  return {
+    messages,
+    chunks,
+    report: {
+      estimatedTokens: tokens,
+      budget: budget ?? null,
+      overBudget: budget !== undefined && tokens > budget,
+      dropped,
+    },
+  };
+}
+
+function countTokens(messages: LLMMessage[]): number {
+  return messages.reduce((sum, m) => sum + estimateTokens(m.content) + MESSAGE_OVERHEAD, 0);
+}
+
+/**
+ * Index of the chunk to drop next: lowest score, later wins ties.
+ * Chunks without a score (pinned, or all-chunks mode) rank above
+ * any scored chunk and are dropped from the end.
+ */
+function leastRelevant(chunks: DataChunk[]): number {
+  let index = chunks.length - 1;
+  let lowest = Infinity;
+
+  for (let i = chunks.length - 1; i >= 0; i--) {
+    const score = chunks[i].metadata?.score;
+    if (typeof score === 'number' && score < lowest) {
+      lowest = score;
+      index = i;
+    }
+  }
+
+  return index;
+}
+
+/**
+ * Build the system prompt with persona + relevant data context.
+ */
+function buildSystemPrompt(persona: Persona, context: string): string {
+  let prompt = persona.systemPrompt;
+
+  if (persona.blockedTopics.length > 0) {
+    prompt += `\n\nDo NOT discuss the following topics: ${persona.blockedTopics.join(', ')}.`;
+    prompt += ' Politely decline if asked.';
+  }
+
+  if (persona.languages.length > 0) {
+    prompt += `\n\nYou can communicate in: ${persona.languages.join(', ')}.`;
+    prompt += ' Try to match the visitor\'s language.';
+  }
+
+  if (context) {
+    prompt += '\n\n--- Available information ---\n' + context;
+    prompt += '\n--- End of available information ---';
+    prompt += '\n\nUse ONLY the information above to answer questions.';
+    prompt += ' If the information doesn\'t cover the question, say so honestly.';
+  }
+
+  return prompt;
+}
+
+/**
+ * Render chunks as the "available information" block.
+ */
+function buildContext(chunks: DataChunk[]): string {
+  if (chunks.length === 0) return '';
+
+  return chunks
+    .map(chunk => {
+      const { description, section } = chunk.metadata ?? {};
+      const label = [description ?? chunk.source, section].filter(Boolean).join(' — ');
+      return `[${label}]\n${chunk.content}`;
+    })
+    .join('\n\n');
+}
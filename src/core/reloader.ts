@@ -0,0 +1,246 @@
+/**
+ * Hot reload — watches the data directory and swaps the
+ * responder's data without restarting aure.
+ *
+ * Watched: config.yaml, persona.yaml, rules.yaml, memories.yaml
+ * and every source directory. Changes are debounced, then the
+ * whole data directory is loaded again. Only if that succeeds
+ * is the responder updated — a broken YAML file keeps the old
+ * state running and the error is logged and reported.
+ *
+ * Server, provider and admin settings are read once at startup;
+ * changing them is reported as "restart required".
+ */
+
+import { watch, existsSync, readdirSync, statSync, type FSWatcher } from 'node:fs';
+import { join, relative, sep } from 'node:path';
+import type { AureConfig } from '../types/index.js';
+import { loadData } from './data-loader.js';
+import { createSourceRetriever, type SourceRetriever } from './retrieval.js';
+import type { createResponder } from './responder.js';
+
+type Responder = ReturnType<typeof createResponder>;
+
+const DATA_FILES = new Set(['config.yaml', 'persona.yaml', 'rules.yaml', 'memories.yaml']);
+
+/** Config sections that only take effect on restart */
+const STARTUP_SECTIONS = ['server', 'provider', 'fallback', 'digest', 'queue', 'rateLimit', 'antibot', 'spamClassifier', 'session', 'notifications', 'admin'] as const;
+
+const DEBOUNCE_MS = 500;
+
+/** Retrieval runs at the start of a response — give in-flight ones time to finish */
+const RETRIEVER_CLOSE_DELAY_MS = 30_000;
+
+export interface ReloadStatus {
+  ok: boolean;
+  at: string;
+  /** What triggered it — a changed file, or 'admin' */
+  trigger: string;
+  error?: string;
+  /** Config sections that changed but need a restart */
+  restartRequired?: string[];
+  loaded?: {
+    rules: number;
+    spamRules: number;
+    chunks: number;
+    memories: number;
+  };
+}
+
+interface ReloadContext {
+  dataDir: string;
+  responder: Responder;
+  /** Config as loaded at startup */
+  startupConfig: AureConfig;
+  /** Config as of the last successful reload */
+  config: AureConfig;
+  retriever?: SourceRetriever;
+}
+
+let context: ReloadContext | null = null;
+let lastReload: ReloadStatus | null = null;
+let running: Promise<ReloadStatus> | null = null;
+let queued: string | null = null;
+
+/** Result of the most recent reload, or null if nothing reloaded yet */
+export function getReloadStatus(): ReloadStatus | null {
+  return lastReload;
+}
+
+/** Config as of the last successful load — startup or reload */
+export function getConfig(): AureConfig | null {
+  return context?.config ?? null;
+}
+
+/**
+ * Reload the data directory now and swap it into the responder.
+ * Concurrent calls are coalesced: one more reload runs after the current one.
+ */
+export async function reloadData(trigger: string): Promise<ReloadStatus> {
+  if (!context) throw new Error('Hot reload not initialized. Call watchData() first.');
+
+  if (running) {
+    queued = trigger;
+    return running;
+  }
+
+  running = doReload(context, trigger);
+  try {
+    return await running;
+  } finally {
+    running = null;
+    if (queued) {
+      const next = queued;
+      queued = null;
+      void reloadData(next);
+    }
+  }
+}
+
+async function doReload(ctx: ReloadContext, trigger: string): Promise<ReloadStatus> {
+  const at = new Date().toISOString();
+
+  try {
+    const data = loadData(ctx.dataDir);
+    const retriever = data.config.retrieval?.enabled
+      ? await createSourceRetriever(ctx.dataDir, data.config.sources ?? [], data.config.retrieval)
+      : undefined;
+
+    ctx.responder.update({
+      persona: data.persona,
+      rules: data.rules,
+      spamRules: data.spamRules,
+      chunks: data.chunks,
+      memories: data.memories,
+      retriever,
+    });
+    ctx.config = data.config;
+
+    const previous = ctx.retriever;
+    ctx.retriever = retriever;
+    if (previous) {
+      setTimeout(() => void previous.close().catch(() => {}), RETRIEVER_CLOSE_DELAY_MS).unref();
+    }
+
+    const restartRequired = STARTUP_SECTIONS.filter(key =>
+      JSON.stringify(data.config[key]) !== JSON.stringify(ctx.startupConfig[key])
+    );
+
+    lastReload = {
+      ok: true,
+      at,
+      trigger,
+      ...(restartRequired.length > 0 && { restartRequired: [...restartRequired] }),
+      loaded: {
+        rules: data.rules.length,
+        spamRules: data.spamRules.length,
+        chunks: data.chunks.length,
+        memories: data.memories.length,
+      },
+    };
+
+    console.log(
+      `[aure] Reloaded data (${trigger}): ${data.rules.length} rules, ` +
+      `${data.spamRules.length} spam filters, ${data.chunks.length} chunks, ${data.memories.length} memories`
+    );
+    if (restartRequired.length > 0) {
+      console.warn(`[aure] Changed ${restartRequired.join(', ')} — restart aure to apply`);
+    }
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    lastReload = { ok: false, at, trigger, error: message };
+    console.error(`[aure] Reload failed (${trigger}), keeping previous data: ${message}`);
+  }
+
+  return lastReload;
+}
+
+/**
+ * Start watching the data directory. Returns a function that stops watching.
+ *
+ * Directories are watched one by one (not `recursive: true`): editors save
+ * by writing a temp file and renaming it over the original, and a
+ * directory watch keeps seeing those renames where a file watch loses track.
+ */
+export function watchData(
+  dataDir: string,
+  responder: Responder,
+  config: AureConfig,
+  retriever?: SourceRetriever
+): () => void {
+  context = { dataDir, responder, startupConfig: config, config, retriever };
+
+  let timer: ReturnType<typeof setTimeout> | null = null;
+  let watchers: FSWatcher[] = [];
+  let stopped = false;
+
+  const schedule = (file: string) => {
+    if (timer) clearTimeout(timer);
+    timer = setTimeout(() => {
+      timer = null;
+      void reloadData(file).then(() => {
+        // Sources or subdirectories may have changed — watch the new set
+        if (!stopped) arm();
+      });
+    }, DEBOUNCE_MS);
+  };
+
+  const watchDir = (dir: string, onChange: (name: string) => void) => {
+    try {
+      const watcher = watch(dir, (_event, filename) => {
+        if (!filename) return;
+        const name = filename.toString();
+        if (name.startsWith('.')) return;
+        onChange(name);
+      });
+      watcher.on('error', (error) => {
+        console.warn(`[aure] Watcher error on ${dir}:`, error.message);
+      });
+      watchers.push(watcher);
+    } catch (error) {
+      console.warn(`  ⚠  Cannot watch ${dir}:`, error instanceof Error ? error.message : error);
+    }
+  };
+
+  const arm = () => {
+    for (const w of watchers) w.close();
+    watchers = [];
+
+    const sources = context?.config.sources ?? [];
+    const sourceNames = new Set(sources.map(source => relative(dataDir, join(dataDir, source.path)).split(sep)[0]));
+
+    // Top level: the YAML files, plus sources appearing or being replaced
+    watchDir(dataDir, (name) => {
+      if (DATA_FILES.has(name) || sourceNames.has(name)) schedule(name);
+    });
+
+    // Every source directory, including nested folders
+    for (const source of sources) {
+      for (const dir of listDirs(join(dataDir, source.path))) {
+        watchDir(dir, (name) => schedule(relative(dataDir, join(dir, name))));
+      }
+    }
+  };
+
+  arm();
+
+  return () => {
+    stopped = true;
+    if (timer) clearTimeout(timer);
+    for (const w of watchers) w.close();
+    watchers = [];
+  };
+}
+
+/** A directory and all its non-hidden subdirectories (empty if not a directory) */
+function listDirs(dir: string): string[] {
+  if (!existsSync(dir) || !statSync(dir).isDirectory()) return [];
+
+  const dirs = [dir];
+  for (const entry of readdirSync(dir, { withFileTypes: true })) {
+    if (entry.isDirectory() && !entry.name.startsWith('.')) {
+      dirs.push(...listDirs(join(dir, entry.name)));
+    }
+  }
+  return dirs;
+}
@@ -0,0 +1,125 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { createResponder, type ResponderConfig } from './responder.js';
+import type { LLMAdapter, LLMMessage } from '../llm/provider.js';
+import type { SourceRetriever } from './retrieval.js';
+import type { DataChunk } from '../types/index.js';
+
+function fakeLLM(): LLMAdapter & { calls: LLMMessage[][] } {
+  const calls: LLMMessage[][] = [];
+  return {
+    name: 'fake/model',
+    calls,
+    async chat(messages) {
+      calls.push(messages);
+      return { content: 'answer' };
+    },
+    async *chatStream(messages) {
+      calls.push(messages);
+      yield { type: 'token', content: 'ans' };
+      yield { type: 'token', content: 'wer' };
+      yield { type: 'done', response: { content: 'answer' } };
+    },
+    async health() { return true; },
+  };
+}
+
+const chunks: DataChunk[] = [
+  { source: 'cv', content: 'Worked at Acme', metadata: { file: 'cv.json', description: 'CV' } },
+  { source: 'notes', content: 'Thoughts on Rust', metadata: { file: 'rust.md', description: 'Notes' } },
+  { source: 'notes', content: 'Thoughts on gardening', metadata: { file: 'garden.md', description: 'Notes' } },
+];
+
+function responder(overrides: Partial<ResponderConfig> = {}) {
+  const llm = fakeLLM();
+  const r = createResponder({
+    persona: {
+      name: 'aure', description: '', systemPrompt: 'You are aure.', greeting: 'Hi',
+      fallback: 'No idea', languages: [], blockedTopics: [],
+    },
+    rules: [],
+    spamRules: [],
+    chunks,
+    memories: [],
+    llm,
+    ...overrides,
+  });
+  return { r, llm };
+}
+
+afterEach(() => {
+  vi.restoreAllMocks();
+});
+
+describe('responder context', () => {
+  it('includes every chunk without a retriever', async () => {
+    const { r, llm } = responder();
+    const result = await r.respond('rust?');
+
+    const system = llm.calls[0][0].content;
+    expect(system).toContain('Worked at Acme');
+    expect(system).toContain('Thoughts on gardening');
+    expect(result.sources).toHaveLength(3);
+    expect(result.provider).toBe('fake/model');
+  });
+
+  it('uses pinned sources plus retrieved chunks in retrieval mode', async () => {
+    const retriever: SourceRetriever = {
+      pinned: new Set(['cv']),
+      retrieve: vi.fn(async () => [
+        { source: 'notes', content: 'Thoughts on Rust', metadata: { file: 'rust.md', section: 'Why', score: 0.82 } },
+      ]),
+      close: async () => {},
+    };
+
+    const { r, llm } = responder({ retriever });
+    const result = await r.respond('what about rust?');
+
+    const system = llm.calls[0][0].content;
+    expect(retriever.retrieve).toHaveBeenCalledWith('what about rust?');
+    expect(system).toContain('Worked at Acme');
+    expect(system).toContain('Thoughts on Rust');
+    expect(system).not.toContain('gardening');
+    expect(result.sources).toEqual([
+      { source: 'cv', file: 'cv.json' },
+      { source: 'notes', file: 'rust.md', section: 'Why', score: 0.82 },
+    ]);
+  });
+
+  it('falls back to all chunks when retrieval fails', async () => {
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    const retriever: SourceRetriever = {
+      pinned: new Set(),
+      retrieve: async () => { throw new Error('embedding model not found'); },
+      close: async () => {},
+    };
+
+    const { r, llm } = responder({ retriever });
+    await r.respond('rust?');
+    expect(llm.calls[0][0].content).toContain('gardening');
+  });
+
+  it('streams tokens through onToken and returns the final content', async () => {
+    const { r } = responder();
+    const tokens: string[] = [];
+    const result = await r.respond('hi', [], undefined, t => { tokens.push(t); });
+
+    expect(tokens).toEqual(['ans', 'wer']);
+    expect(result.content).toBe('answer');
+  });
+
+  it('uses swapped-in data after update()', async () => {
+    const { r, llm } = responder();
+    r.update({
+      persona: { ...r.persona, systemPrompt: 'You are the new aure.' },
+      rules: [],
+      spamRules: [],
+      chunks: [{ source: 'notes', content: 'Fresh note' }],
+      memories: [],
+    });
+
+    await r.respond('hi');
+    expect(llm.calls[0][0].content).toContain('You are the new aure.');
+    expect(llm.calls[0][0].content).toContain('Fresh note');
+    expect(llm.calls[0][0].content).not.toContain('Acme');
+  });
+});
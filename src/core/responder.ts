@@ -7,22 +7,34 @@
  * Flow:
  *   1. Check spam rules → if match, flag/drop
  *   2. Check keyword rules → if match, return canned response
- *   3. Build context from data chunks (notes, CV, etc.)
- *   4. Build conversation history
+ *   3. Build context from data chunks (notes, CV, etc.) —
+ *      all of them, or only the relevant ones in retrieval mode
+ *   4. Assemble the prompt within the provider's token budget
  *   5. Call LLM
  *   6. Return response
  */
 
 import type { Persona, Rule, SpamRule, DataChunk, MemoryPair } from '../types/index.js';
 import type { LLMAdapter, LLMMessage } from '../llm/provider.js';
-import { matchRule, matchSpam } from './rules-engine.js';
-
-export interface ResponderConfig {
+import { collectStream } from '../llm/stream.js';
+import { matchRule, matchSpam, type MatchContext } from './rules-engine.js';
+import { detectLanguage } from './language.js';
+import { localize, renderTemplate } from './template.js';
+import { toContextSources, type ContextSource, type SourceRetriever } from './retrieval.js';
+import { buildPrompt, type PromptReport } from './prompt.js';
+
+/** Everything the responder knows — swapped as a whole on hot reload */
+export interface ResponderData {
   persona: Persona;
   rules: Rule[];
   spamRules: SpamRule[];
   chunks: DataChunk[];
   memories: MemoryPair[];
+  /** Retrieval mode — without it, every chunk goes into the prompt */
+  retriever?: SourceRetriever;
+}
+
+export interface ResponderConfig extends ResponderData {
   llm: LLMAdapter;
 }
 
@@ -35,39 +47,79 @@ export interface RespondResult {
   spam: boolean;
   /** Should the message be silently dropped? */
   drop: boolean;
+  /** Which rule answered (rule source, not spam) */
+  rule?: string;
+  /** What the rule asks to do after its response */
+  action?: Rule['action'];
+  /** Which LLM provider answered (llm source only) */
+  provider?: string;
+  /** Which chunks were in the prompt (llm source only) */
+  sources?: ContextSource[];
+  /** Token estimate and what was dropped to fit the budget (llm source only) */
+  prompt?: PromptReport;
 }
 
 export function createResponder(config: ResponderConfig) {
-  const { persona, rules, spamRules, chunks, memories, llm } = config;
+  const { llm } = config;
+
+  // Replaced in one assignment by update(), so a request never
+  // sees persona from one reload and rules from another.
+  let data: ResponderData = {
+    persona: config.persona,
+    rules: config.rules,
+    spamRules: config.spamRules,
+    chunks: config.chunks,
+    memories: config.memories,
+    retriever: config.retriever,
+  };
 
   return {
-    /** Get the greeting message for a new conversation */
-    greeting(): string {
-      return persona.greeting;
+    /** Get the greeting message for a new conversation.
+     *  `language` comes from the browser — the visitor hasn't written yet. */
+    greeting(visitor: { name?: string | null; language?: string | null } = {}): string {
+      const { persona } = data;
+      const text = localize(persona.greeting, visitor.language ?? null, persona.languages);
+      return renderTemplate(text, { visitorName: visitor.name, personaName: persona.name, now: new Date() });
+    },
+
+    /** The fallback text, in the message's language */
+    fallback(message: string, visitorName?: string | null): string {
+      return renderFallback(data.persona, message, visitorName);
     },
 
     /** Access persona config (for fallback text, etc.) */
     get persona() {
-      return persona;
+      return data.persona;
+    },
+
+    /** Swap in freshly loaded data (hot reload). In-flight responses keep the old data. */
+    update(next: ResponderData): void {
+      data = next;
     },
 
     /** Fast spam check — no LLM call */
     checkSpam(message: string) {
-      return matchSpam(message, spamRules);
+      return matchSpam(message, data.spamRules);
     },
 
     /** Fast keyword rules check — no LLM call */
-    checkRules(message: string) {
-      return matchRule(message, rules);
+    checkRules(message: string, context?: Partial<MatchContext>) {
+      return matchRule(message, data.rules, { ...context, persona: data.persona });
     },
 
     /** Process a visitor's message and generate a response.
-     *  Pass signal to allow cancellation (e.g. visitor pressed cancel). */
+     *  Pass signal to allow cancellation (e.g. visitor pressed cancel).
+     *  Pass onToken to stream LLM tokens as they are generated.
+     *  Pass context for rule conditions on the conversation (turn, email, ...). */
     async respond(
       message: string,
       history: LLMMessage[] = [],
-      signal?: AbortSignal
+      signal?: AbortSignal,
+      onToken?: (token: string) => void | Promise<void>,
+      context?: Partial<MatchContext>
     ): Promise<RespondResult> {
+      const { persona, rules, spamRules, chunks, memories, retriever } = data;
+
       // 1. Spam check
       const spam = matchSpam(message, spamRules);
       if (spam) {
@@ -76,7 +128,7 @@ export function createResponder(config: ResponderConfig) {
         }
         // Flagged but not dropped — still respond, but mark
         return {
-          content: persona.fallback,
+          content: renderFallback(persona, message, context?.visitorName),
           source: 'rule',
           spam: true,
           drop: false,
@@ -84,89 +136,71 @@ export function createResponder(config: ResponderConfig) {
       }
 
       // 2. Keyword rules
-      const rule = matchRule(message, rules);
+      const rule = matchRule(message, rules, { ...context, persona });
       if (rule) {
         return {
           content: rule.response,
           source: 'rule',
+          rule: rule.rule.id,
+          action: rule.rule.action,
           spam: false,
           drop: false,
         };
       }
 
-      // 3. Build context for LLM
-      const context = buildContext(message, chunks);
-      const systemPrompt = buildSystemPrompt(persona, context);
-
-      // 4. Build messages array
-      //    Memories go between system prompt and real history —
-      //    the model treats them as its own past answers and stays consistent.
-      const memoryMessages: LLMMessage[] = memories.flatMap(m => [
-        { role: 'user' as const, content: m.user },
-        { role: 'assistant' as const, content: m.assistant },
-      ]);
-
-      const messages: LLMMessage[] = [
-        { role: 'system', content: systemPrompt },
-        ...memoryMessages,
-        ...history,
-        { role: 'user', content: message },
-      ];
+      // 3. Pick context chunks for LLM
+      const contextChunks = await selectChunks(message, chunks, retriever);
+
+      // 4. Assemble messages within the provider's prompt budget
+      const prompt = buildPrompt(
+        { persona, chunks: contextChunks, memories, history, message },
+        { budget: llm.promptBudget }
+      );
+      const messages = prompt.messages;
 
       // 5. Call LLM — let errors propagate to the caller.
       // Background jobs (jobs.ts) handle errors with proper DB + SSE notification.
-      const response = await llm.chat(messages, signal);
+      const response = onToken
+        ? await collectStream(llm.chatStream(messages, signal), onToken)
+        : await llm.chat(messages, signal);
       return {
         content: response.content,
         source: 'llm',
         spam: false,
         drop: false,
+        provider: response.provider ?? llm.name,
+        sources: toContextSources(prompt.chunks),
+        prompt: prompt.report,
       };
     },
   };
 }
 
-/**
- * Build the system prompt with persona + relevant data context.
- */
-function buildSystemPrompt(persona: Persona, context: string): string {
-  let prompt = persona.systemPrompt;
-
-  if (persona.blockedTopics.length > 0) {
-    prompt += `\n\nDo NOT discuss the following topics: ${persona.blockedTopics.join(', ')}.`;
-    prompt += ' Politely decline if asked.';
-  }
-
-  if (persona.languages.length > 0) {
-    prompt += `\n\nYou can communicate in: ${persona.languages.join(', ')}.`;
-    prompt += ' Try to match the visitor\'s language.';
-  }
-
-  if (context) {
-    prompt += '\n\n--- Available information ---\n' + context;
-    prompt += '\n--- End of available information ---';
-    prompt += '\n\nUse ONLY the information above to answer questions.';
-    prompt += ' If the information doesn\'t cover the question, say so honestly.';
-  }
-
-  return prompt;
+function renderFallback(persona: Persona, message: string, visitorName?: string | null): string {
+  const text = localize(persona.fallback, detectLanguage(message), persona.languages);
+  return renderTemplate(text, { visitorName, personaName: persona.name, now: new Date() });
 }
 
 /**
  * Find relevant data chunks for the visitor's message.
  *
- * For MVP: include ALL chunks (they're small — notes + CV).
- * Future: use embeddings / RAG for large datasets.
+ * Without a retriever: include ALL chunks (they're small — notes + CV).
+ * With one: pinned sources in full, plus the top-k retrieved chunks.
+ * If retrieval fails (e.g. embedding model not pulled), fall back to all.
  */
-function buildContext(message: string, chunks: DataChunk[]): string {
-  if (chunks.length === 0) return '';
-
-  // For now, include everything. On Raspberry Pi with small data,
-  // this is fine. The model context window is the limit.
-  return chunks
-    .map(chunk => {
-      const label = chunk.metadata?.description ?? chunk.source;
-      return `[${label}]\n${chunk.content}`;
-    })
-    .join('\n\n');
+async function selectChunks(
+  message: string,
+  chunks: DataChunk[],
+  retriever?: SourceRetriever
+): Promise<DataChunk[]> {
+  if (!retriever) return chunks;
+
+  try {
+    const pinned = chunks.filter(c => retriever.pinned.has(c.source));
+    const retrieved = await retriever.retrieve(message);
+    return [...pinned, ...retrieved];
+  } catch (error) {
+    console.warn('[aure] Retrieval failed, using all chunks:', error instanceof Error ? error.message : error);
+    return chunks;
+  }
 }
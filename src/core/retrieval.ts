@@ -0,0 +1,160 @@
+/**
+ * Retrieval — index data sources with α and fetch only what's relevant.
+ *
+ * By default aure pastes every chunk into the system prompt. That's fine
+ * for a CV and a handful of notes, but as notes grow it blows past a
+ * small model's practical context and slows every answer.
+ *
+ * With `retrieval.enabled`, each directory source is ingested through
+ * α's pipeline into its own vector DB (incremental — unchanged files are
+ * skipped), and the responder injects only the top-k chunks.
+ *
+ * Pinned sources are always included in full. A source is pinned if it's
+ * listed in `retrieval.pinned`, if it's a single file, or if it's JSON
+ * (α has no JSON parser — and a CV is small anyway).
+ *
+ * α is loaded lazily, so its native dependencies only matter
+ * when retrieval is actually enabled.
+ */
+
+import { existsSync, mkdirSync, statSync } from 'node:fs';
+import { join, resolve } from 'node:path';
+import type { Retriever as AlphaRetriever, VectorDBAdapter } from '@aure/alpha';
+import type { DataChunk, DataSource, RetrievalConfig } from '../types/index.js';
+
+const DEFAULTS = {
+  preset: 'pi5' as const,
+  topK: 4,
+  scoreThreshold: 0.3,
+  indexDir: './aure-vectors',
+};
+
+/** Which chunk was used to answer — stored in message metadata */
+export interface ContextSource {
+  source: string;
+  file?: string;
+  section?: string;
+  score?: number;
+}
+
+export interface SourceRetriever {
+  /** Names of sources that are always included in full */
+  pinned: Set<string>;
+  /** Top-k chunks across all indexed sources, best first */
+  retrieve(query: string): Promise<DataChunk[]>;
+  /** Close the vector DBs */
+  close(): Promise<void>;
+}
+
+interface IndexedSource {
+  source: DataSource;
+  retriever: AlphaRetriever;
+  vectorDB: VectorDBAdapter;
+}
+
+/**
+ * Ingest all indexable sources and return a retriever over them.
+ */
+export async function createSourceRetriever(
+  dataDir: string,
+  sources: DataSource[],
+  config: RetrievalConfig
+): Promise<SourceRetriever> {
+  const alpha = await import('@aure/alpha');
+
+  const topK = config.topK ?? DEFAULTS.topK;
+  const indexDir = resolve(config.indexDir ?? DEFAULTS.indexDir);
+  mkdirSync(indexDir, { recursive: true });
+
+  const base = alpha.getPreset(config.preset ?? DEFAULTS.preset);
+  const pinned = new Set(config.pinned ?? []);
+  const indexed: IndexedSource[] = [];
+
+  for (const source of sources) {
+    const sourcePath = join(dataDir, source.path);
+    if (!existsSync(sourcePath)) continue;
+
+    if (!statSync(sourcePath).isDirectory() || source.format === 'json') {
+      pinned.add(source.name);
+    }
+    if (pinned.has(source.name)) continue;
+
+    const alphaConfig = alpha.mergeConfig(base, {
+      embedding: config.embedding,
+      retrieval: {
+        topK,
+        scoreThreshold: config.scoreThreshold ?? DEFAULTS.scoreThreshold,
+      },
+      reference: { path: sourcePath },
+      vectordb: { adapter: 'sqlite-vec', path: join(indexDir, `${source.name}.db`) },
+    });
+
+    const pipeline = alpha.createPipeline(alphaConfig);
+    try {
+      const result = await pipeline.ingest();
+      console.log(
+        `  index: ${source.name} — ${result.processed} ingested, ${result.skipped} unchanged, ` +
+        `${result.removed} removed, ${result.totalChunks} chunks`
+      );
+      for (const err of result.errors) {
+        console.warn(`  ⚠  index: ${source.name}/${err.file}: ${err.error}`);
+      }
+    } finally {
+      await pipeline.close();
+    }
+
+    const embedder = alpha.createEmbedder(alphaConfig.embedding);
+    const { adapter } = await alpha.createVectorDB(alphaConfig.vectordb, alphaConfig.embedding.dimensions);
+    indexed.push({
+      source,
+      retriever: alpha.createRetriever(embedder, adapter, alphaConfig.retrieval),
+      vectorDB: adapter,
+    });
+  }
+
+  return {
+    pinned,
+
+    async retrieve(query: string): Promise<DataChunk[]> {
+      const perSource = await Promise.all(indexed.map(async ({ source, retriever }) => {
+        const results = await retriever.retrieve(query);
+        return results.map(r => ({ source, result: r }));
+      }));
+
+      return perSource
+        .flat()
+        .sort((a, b) => b.result.score - a.result.score)
+        .slice(0, topK)
+        .map(({ source, result }) => ({
+          source: source.name,
+          content: result.chunk.text,
+          metadata: {
+            file: result.chunk.fileName,
+            section: result.chunk.sectionHeading,
+            format: source.format,
+            description: source.description,
+            score: result.score,
+          },
+        }));
+    },
+
+    async close(): Promise<void> {
+      await Promise.all(indexed.map(({ vectorDB }) => vectorDB.close()));
+    },
+  };
+}
+
+/**
+ * Summarise chunks for message metadata — which files were in the prompt.
+ */
+export function toContextSources(chunks: DataChunk[]): ContextSource[] {
+  return chunks.map(chunk => {
+    const meta = chunk.metadata ?? {};
+    return {
+      source: chunk.source,
+      ...(typeof meta.file === 'string' && { file: meta.file }),
+      ...(typeof meta.section === 'string' && { section: meta.section }),
+      ...(typeof meta.score === 'number' && { score: meta.score }),
+    };
+  });
+}
@@ -0,0 +1,111 @@
+import { describe, it, expect } from 'vitest';
+import type { MatchCondition, Rule } from '../types/index.js';
+import { matchRule } from './rules-engine.js';
+import { detectLanguage } from './language.js';
+
+function rule(id: string, match: MatchCondition, priority = 10): Rule {
+  return { id, label: id, match, response: `${id} response`, priority, enabled: true };
+}
+
+// A Saturday, 14:30 local time
+const SATURDAY = new Date(2026, 7, 15, 14, 30);
+
+describe('matchRule', () => {
+  it('keeps plain text rules working without a context', () => {
+    const rules = [rule('hire', { type: 'keywords', keywords: ['hire'] })];
+    expect(matchRule('Can I hire you?', rules)?.rule.id).toBe('hire');
+    expect(matchRule('hello', rules)).toBeNull();
+  });
+
+  it('combines conditions with all, any and not', () => {
+    const rules = [rule('hire-first', {
+      type: 'all',
+      conditions: [
+        { type: 'keywords', keywords: ['hire', 'job'] },
+        { type: 'firstMessage' },
+        { type: 'not', condition: { type: 'email', present: true } },
+      ],
+    })];
+
+    expect(matchRule('a job for you', rules, { turn: 1 })?.rule.id).toBe('hire-first');
+    expect(matchRule('a job for you', rules, { turn: 2 })).toBeNull();
+    expect(matchRule('a job for you', rules, { turn: 1, visitorEmail: 'a@example.com' })).toBeNull();
+
+    const any = [rule('either', { type: 'any', conditions: [{ type: 'exact', value: 'hi' }, { type: 'turn', min: 3 }] })];
+    expect(matchRule('hi', any, { turn: 1 })).not.toBeNull();
+    expect(matchRule('anything', any, { turn: 3 })).not.toBeNull();
+    expect(matchRule('anything', any, { turn: 2 })).toBeNull();
+  });
+
+  it('matches an exact turn or a range', () => {
+    const rules = [rule('third', { type: 'turn', n: 3 })];
+    expect(matchRule('x', rules, { turn: 3 })).not.toBeNull();
+    expect(matchRule('x', rules, { turn: 4 })).toBeNull();
+  });
+
+  it('matches time windows in local time', () => {
+    const vacation = [rule('vacation', { type: 'time', from: '2026-08-01', until: '2026-08-15' })];
+    expect(matchRule('x', vacation, { now: SATURDAY })).not.toBeNull();
+    expect(matchRule('x', vacation, { now: new Date(2026, 7, 16, 0, 5) })).toBeNull();
+
+    const weekend = [rule('weekend', { type: 'time', days: ['sat', 'sun'], hours: '22:00-15:00' })];
+    expect(matchRule('x', weekend, { now: SATURDAY })).not.toBeNull();
+    expect(matchRule('x', weekend, { now: new Date(2026, 7, 15, 16, 0) })).toBeNull();
+    expect(matchRule('x', weekend, { now: new Date(2026, 7, 17, 14, 30) })).toBeNull();
+  });
+
+  it('follows up on rules that fired earlier', () => {
+    const rules = [
+      rule('hire', { type: 'keywords', keywords: ['hire'] }),
+      rule('hire-details', { type: 'all', conditions: [{ type: 'ruleFired', rules: ['hire'] }, { type: 'keywords', keywords: ['salary'] }] }, 20),
+    ];
+    expect(matchRule('what about salary', rules)).toBeNull();
+    expect(matchRule('what about salary', rules, { firedRules: ['hire'] })?.rule.id).toBe('hire-details');
+  });
+
+  it('renders the response in the message language with capture groups', () => {
+    const rules: Rule[] = [{
+      ...rule('company', { type: 'pattern', pattern: 'from (?<company>[a-z]+)' }),
+      response: { en: 'Hi {visitorName|there}, tell me about {match.company}.', ru: 'Привет! Расскажите о {match.company}.' },
+    }];
+    const persona = { name: 'aure', languages: ['en', 'ru', 'et'] };
+
+    expect(matchRule('Hello, this is Anna from Acme', rules, { persona, visitorName: 'Anna' })?.response)
+      .toBe('Hi Anna, tell me about Acme.');
+    expect(matchRule('Привет, я Анна from Acme', rules, { persona })?.response)
+      .toBe('Привет! Расскажите о Acme.');
+  });
+
+  it('takes capture groups only from the branch that matched', () => {
+    const rules: Rule[] = [{
+      ...rule('either', {
+        type: 'any',
+        conditions: [
+          { type: 'all', conditions: [{ type: 'pattern', pattern: 'from (\\w+)' }, { type: 'turn', n: 1 }] },
+          { type: 'pattern', pattern: 'at (\\w+)' },
+        ],
+      }),
+      response: 'Working at {match.1}?',
+    }];
+
+    expect(matchRule('Anna from Acme, at Initech', rules, { turn: 1 })?.response).toBe('Working at Acme?');
+    expect(matchRule('Anna from Acme, at Initech', rules, { turn: 2 })?.response).toBe('Working at Initech?');
+  });
+
+  it('matches the detected language', () => {
+    const rules = [rule('german', { type: 'language', languages: ['de'] })];
+    expect(matchRule('Hallo, sind Sie verfügbar?', rules)).not.toBeNull();
+    expect(matchRule('Hello, are you available?', rules)).toBeNull();
+  });
+});
+
+describe('detectLanguage', () => {
+  it('recognises common words and gives up when unclear', () => {
+    expect(detectLanguage('Bonjour, comment ça va ?')).toBe('fr');
+    expect(detectLanguage('Hola, ¿qué tal? Gracias')).toBe('es');
+    expect(detectLanguage('What is your stack?')).toBe('en');
+    expect(detectLanguage('Tere, kas sa oled kodus?')).toBe('et');
+    expect(detectLanguage('Добрый вечер')).toBe('ru');
+    expect(detectLanguage('42')).toBeNull();
+  });
+});
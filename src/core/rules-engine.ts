@@ -1,12 +1,20 @@
 /**
  * Rules engine — checks visitor messages against keyword rules
  * BEFORE calling the LLM. Saves tokens, gives predictable responses.
+ *
+ * Besides the text, conditions can look at the conversation (turn,
+ * email, earlier rules), the message's language and the time, and
+ * combine with all/any/not. The winning rule's response is rendered
+ * as a template in the message's language (see template.ts).
  */
 
-import type { Rule, SpamRule } from '../types/index.js';
+import type { MatchCondition, Rule, SpamRule, TimeMatch } from '../types/index.js';
+import { detectLanguage } from './language.js';
+import { localize, renderTemplate, type Captures } from './template.js';
 
 export interface RuleMatch {
   rule: Rule;
+  /** Rendered response */
   response: string;
 }
 
@@ -15,22 +23,59 @@ export interface SpamMatch {
   action: 'flag' | 'drop';
 }
 
+/** A spam decision from outside the rules file (bot checks, classifier) */
+export interface SpamVerdict {
+  rule: Pick<SpamRule, 'id' | 'label'>;
+  action: 'flag' | 'drop';
+}
+
+/** The conversation around a message, for non-text conditions */
+export interface MatchContext {
+  /** Which visitor message this is (1 = first) */
+  turn: number;
+  visitorEmail?: string | null;
+  /** Ids of rules that already answered in this conversation */
+  firedRules: string[];
+  now: Date;
+  /** For response templates */
+  visitorName?: string | null;
+  persona?: { name: string; languages: string[] };
+}
+
+/** Where a pattern condition leaves its capture groups */
+interface CaptureSink {
+  message: string;
+  captures?: Captures;
+}
+
+const DAYS = ['sun', 'mon', 'tue', 'wed', 'thu', 'fri', 'sat'];
+
 /**
  * Check a message against rules. Returns the highest-priority match, or null.
+ * Without a context, the message is taken as a first message, now.
  */
-export function matchRule(message: string, rules: Rule[]): RuleMatch | null {
+export function matchRule(message: string, rules: Rule[], context?: Partial<MatchContext>): RuleMatch | null {
   const normalised = message.toLowerCase();
+  const ctx = withDefaults(context);
 
   const matches = rules
     .filter(r => r.enabled)
-    .filter(r => testMatch(normalised, r.match))
-    .sort((a, b) => b.priority - a.priority);
+    .map(rule => ({ rule, sink: { message } as CaptureSink }))
+    .filter(({ rule, sink }) => testMatch(normalised, rule.match, ctx, sink))
+    .sort((a, b) => b.rule.priority - a.rule.priority);
 
   if (matches.length === 0) return null;
 
+  const { rule, sink } = matches[0];
+  const text = localize(rule.response, detectLanguage(normalised), ctx.persona?.languages);
   return {
-    rule: matches[0],
-    response: matches[0].response,
+    rule,
+    response: renderTemplate(text, {
+      visitorName: ctx.visitorName,
+      personaName: ctx.persona?.name ?? '',
+      now: ctx.now,
+      captures: sink.captures,
+    }),
   };
 }
 
@@ -39,9 +84,10 @@ export function matchRule(message: string, rules: Rule[]): RuleMatch | null {
  */
 export function matchSpam(message: string, spamRules: SpamRule[]): SpamMatch | null {
   const normalised = message.toLowerCase();
+  const ctx = withDefaults();
 
   for (const rule of spamRules) {
-    if (testMatch(normalised, rule.match)) {
+    if (testMatch(normalised, rule.match, ctx)) {
       return { rule, action: rule.action };
     }
   }
@@ -49,9 +95,15 @@ export function matchSpam(message: string, spamRules: SpamRule[]): SpamMatch | n
   return null;
 }
 
+function withDefaults(context: Partial<MatchContext> = {}): MatchContext {
+  return { turn: 1, firedRules: [], now: new Date(), ...context };
+}
+
 function testMatch(
   normalised: string,
-  match: Rule['match'] | SpamRule['match']
+  match: MatchCondition,
+  context: MatchContext,
+  sink?: CaptureSink
 ): boolean {
   switch (match.type) {
     case 'keywords': {
@@ -62,14 +114,89 @@ function testMatch(
     }
 
     case 'pattern': {
-      const regex = new RegExp(match.pattern, match.flags ?? 'i');
-      return regex.test(normalised);
+      const found = new RegExp(match.pattern, match.flags ?? 'i').exec(normalised);
+      if (!found) return false;
+      if (sink && !sink.captures) {
+        // Groups from the original text keep their case
+        const groups = new RegExp(match.pattern, match.flags ?? 'i').exec(sink.message) ?? found;
+        sink.captures = {
+          groups: [...groups].map(g => g ?? ''),
+          named: Object.fromEntries(Object.entries(groups.groups ?? {}).map(([k, v]) => [k, v ?? ''])),
+        };
+      }
+      return true;
     }
 
     case 'exact':
       return normalised === match.value.toLowerCase();
 
+    case 'all':
+      return inBranch(sink, branch => match.conditions.every(c => testMatch(normalised, c, context, branch)));
+
+    case 'any':
+      return match.conditions.some(c => inBranch(sink, branch => testMatch(normalised, c, context, branch)));
+
+    case 'not':
+      return !testMatch(normalised, match.condition, context);
+
+    case 'firstMessage':
+      return context.turn === 1;
+
+    case 'turn':
+      return (match.n === undefined || context.turn === match.n)
+        && (match.min === undefined || context.turn >= match.min)
+        && (match.max === undefined || context.turn <= match.max);
+
+    case 'language': {
+      const language = detectLanguage(normalised);
+      return language !== null && match.languages.some(l => l.toLowerCase() === language);
+    }
+
+    case 'time':
+      return testTime(match, context.now);
+
+    case 'email':
+      return !!context.visitorEmail === match.present;
+
+    case 'ruleFired':
+      return match.rules.some(id => context.firedRules.includes(id));
+
     default:
       return false;
   }
 }
+
+/**
+ * Test a branch with a sink of its own: a pattern that matched in a
+ * branch that failed as a whole mustn't fill in the response's groups.
+ */
+function inBranch(sink: CaptureSink | undefined, test: (branch?: CaptureSink) => boolean): boolean {
+  const branch: CaptureSink | undefined = sink && { message: sink.message };
+  if (!test(branch)) return false;
+  if (sink && !sink.captures) sink.captures = branch!.captures;
+  return true;
+}
+
+/** Local date, weekday and time of day against a time condition */
+function testTime(match: TimeMatch, now: Date): boolean {
+  const pad = (n: number) => String(n).padStart(2, '0');
+  const date = `${now.getFullYear()}-${pad(now.getMonth() + 1)}-${pad(now.getDate())}`;
+
+  if (match.from && date < match.from) return false;
+  if (match.until && date > match.until) return false;
+  if (match.days && !match.days.map(d => d.toLowerCase()).includes(DAYS[now.getDay()])) return false;
+
+  if (match.hours) {
+    const [start, end] = match.hours.split('-').map(part => {
+      const [h, m] = part.split(':').map(Number);
+      return h * 60 + m;
+    });
+    const minutes = now.getHours() * 60 + now.getMinutes();
+    const inside = start < end
+      ? minutes >= start && minutes < end
+      : minutes >= start || minutes < end;
+    if (!inside) return false;
+  }
+
+  return true;
+}
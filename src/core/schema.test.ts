@@ -0,0 +1,287 @@
+import { describe, it, expect } from 'vitest';
+import { validateData, validateConfig, validatePersona, validateRules, validateMemories, ConfigValidationError } from './schema.js';
+
+const config = {
+  server: { port: 3000, host: '0.0.0.0' },
+  provider: { type: 'ollama', model: 'gemma3:1b' },
+  sources: [{ name: 'notes', path: 'notes/', format: 'markdown', description: 'Notes' }],
+  admin: { token: 'secret' },
+};
+
+const rule = {
+  id: 'hire',
+  label: 'Hiring',
+  match: { type: 'keywords', keywords: ['hire'] },
+  response: 'Tell me more.',
+  priority: 10,
+  enabled: true,
+};
+
+describe('validateConfig', () => {
+  it('accepts a valid config', () => {
+    expect(validateConfig(config)).toEqual([]);
+  });
+
+  it('accepts a provider list', () => {
+    expect(validateConfig({ ...config, provider: [{ type: 'ollama' }, { type: 'openai', baseUrl: 'http://lan/v1' }] })).toEqual([]);
+  });
+
+  it('rejects non-object config', () => {
+    expect(validateConfig(null)).toEqual(['config must be an object']);
+    expect(validateConfig([1])).toEqual(['config must be an object']);
+  });
+
+  it('requires provider and admin token', () => {
+    expect(validateConfig({ sources: [] })).toEqual(['provider is required', 'admin is required']);
+    expect(validateConfig({ ...config, admin: { token: '' } })).toEqual(['admin.token is required']);
+  });
+
+  it('reports provider errors with their index', () => {
+    const errors = validateConfig({ ...config, provider: [{ type: 'ollama' }, { type: 'gpt' }, { type: 'anthropic' }] });
+    expect(errors).toEqual([
+      'provider[1].type must be one of: ollama, openai, anthropic',
+      'provider[2].apiKey is required for anthropic',
+    ]);
+  });
+
+  it('rejects a context window smaller than maxTokens', () => {
+    const errors = validateConfig({ ...config, provider: { type: 'ollama', maxTokens: 512, contextWindow: 512 } });
+    expect(errors).toEqual(['provider.contextWindow must be larger than maxTokens']);
+  });
+
+  it('rejects invalid sources', () => {
+    const errors = validateConfig({
+      ...config,
+      sources: [config.sources[0], { name: 'notes', path: 'more/', format: 'pdf' }],
+    });
+    expect(errors).toEqual([
+      'sources[1].name "notes" is used by another source',
+      'sources[1].format must be one of: markdown, json, text',
+    ]);
+  });
+
+  it('rejects pinned sources that do not exist', () => {
+    const errors = validateConfig({ ...config, retrieval: { enabled: true, pinned: ['cv'], topK: 0 } });
+    expect(errors).toEqual([
+      'retrieval.topK must be a positive integer',
+      'retrieval.pinned: unknown source "cv"',
+    ]);
+  });
+
+  it('requires a positive queue concurrency', () => {
+    expect(validateConfig({ ...config, queue: { concurrency: 0 } })).toEqual(['queue.concurrency must be a positive integer']);
+  });
+
+  it('requires a long enough session secret', () => {
+    expect(validateConfig({ ...config, session: { secret: 'short', ttlDays: -1 } })).toEqual([
+      'session.secret must be a string of at least 16 characters',
+      'session.ttlDays must be a non-negative number',
+    ]);
+  });
+
+  it('checks rate limit buckets and exempt CIDRs', () => {
+    const errors = validateConfig({
+      ...config,
+      rateLimit: { ip: { burst: 0, perMinute: 5 }, exempt: ['10.0.0.0/8', '::1', '192.168.1.0/33', 'localhost'] },
+    });
+    expect(errors).toEqual([
+      'rateLimit.ip must have a positive integer burst and a positive perMinute',
+      'rateLimit.exempt[2] "192.168.1.0/33" is not an IP or CIDR',
+      'rateLimit.exempt[3] "localhost" is not an IP or CIDR',
+    ]);
+  });
+
+  it('checks anti-bot settings', () => {
+    const errors = validateConfig({ ...config, antibot: { action: 'block', pow: { enabled: true, difficulty: 64 } } });
+    expect(errors).toEqual([
+      'antibot.action must be "flag" or "drop"',
+      'antibot.pow.difficulty must be an integer from 1 to 32',
+    ]);
+  });
+
+  it('checks spam classifier settings', () => {
+    expect(validateConfig({ ...config, spamClassifier: { enabled: true, threshold: 1.5, minExamples: 0 } })).toEqual([
+      'spamClassifier.threshold must be a number between 0 and 1',
+      'spamClassifier.minExamples must be a positive integer',
+    ]);
+  });
+
+  it('checks notification channels', () => {
+    const errors = validateConfig({
+      ...config,
+      notifications: [
+        { type: 'webhook', url: 'https://example.com/hook', events: ['rule'], rules: ['hire'], batch: 10 },
+        { type: 'email', host: 'smtp.example.com', from: 'a@example.com', to: [], quietHours: '22:00' },
+        { type: 'ntfy', url: 'ntfy.sh/aure', events: ['message'] },
+        { type: 'slack' },
+      ],
+    });
+    expect(errors).toEqual([
+      'notifications[1].to must be an address or a list of addresses',
+      'notifications[1].quietHours must look like "22:00-08:00"',
+      'notifications[2].url must be an http(s) URL',
+      'notifications[2].events must be a list of: conversation, rule, error, spam, reply',
+      'notifications[3].type must be one of: webhook, email, ntfy',
+    ]);
+  });
+});
+
+describe('validatePersona', () => {
+  it('requires the texts the chat shows', () => {
+    expect(validatePersona({ name: 'aure', systemPrompt: 'x' })).toEqual([
+      'greeting is required',
+      'fallback is required',
+    ]);
+  });
+
+  it('rejects non-list languages', () => {
+    const persona = { name: 'a', systemPrompt: 'b', greeting: 'c', fallback: 'd', languages: 'en' };
+    expect(validatePersona(persona)).toEqual(['languages must be a list of strings']);
+  });
+
+  it('checks message form texts and their variables', () => {
+    const persona = {
+      name: 'a', systemPrompt: 'b', greeting: 'c', fallback: 'd',
+      messageForm: { done: { en: 'Thanks {form.name}', ru: 'Спасибо {form.phone}' }, askAge: 'How old are you?' },
+    };
+    const warnings: string[] = [];
+    expect(validatePersona(persona, warnings)).toEqual([
+      'messageForm.askAge is not a form text (one of: askName, askEmail, invalidEmail, askMessage, confirm, done, cancelled)',
+    ]);
+    expect(warnings).toEqual(['messageForm.done.ru uses unknown variable {form.phone}']);
+  });
+});
+
+describe('validateRules', () => {
+  it('accepts a missing or empty rules file', () => {
+    expect(validateRules(undefined)).toEqual([]);
+    expect(validateRules(null)).toEqual([]);
+    expect(validateRules({ rules: [rule] })).toEqual([]);
+  });
+
+  it('catches a typo in the match type', () => {
+    const errors = validateRules({ rules: [{ ...rule, match: { type: 'keyword', keywords: ['hire'] } }] });
+    expect(errors).toEqual(['rules[0].match.type must be one of: keywords, pattern, exact, all, any, not, firstMessage, turn, language, time, email, ruleFired']);
+  });
+
+  it('requires priority and enabled', () => {
+    const { priority, enabled, ...partial } = rule;
+    expect(validateRules({ rules: [partial] })).toEqual([
+      'rules[0].priority must be a number',
+      'rules[0].enabled must be true or false',
+    ]);
+  });
+
+  it('rejects an invalid regex', () => {
+    const errors = validateRules({ rules: [{ ...rule, match: { type: 'pattern', pattern: '(unclosed' } }] });
+    expect(errors).toHaveLength(1);
+    expect(errors[0]).toMatch(/^rules\[0\]\.match\.pattern is not a valid regex/);
+  });
+
+  it('rejects invalid regex flags', () => {
+    const errors = validateRules({ rules: [{ ...rule, match: { type: 'pattern', pattern: 'x', flags: 'q' } }] });
+    expect(errors[0]).toMatch(/not a valid regex/);
+  });
+
+  it('checks nested conditions and rule references', () => {
+    const match = {
+      type: 'all',
+      conditions: [
+        { type: 'time', hours: '9-17', days: ['sat', 'someday'], until: '31.08.2026' },
+        { type: 'not', condition: { type: 'ruleFired', rules: ['hire', 'nope'] } },
+        { type: 'turn' },
+      ],
+    };
+    expect(validateRules({ rules: [{ ...rule, match }] })).toEqual([
+      'rules[0].match.conditions[0].hours must look like "09:00-17:00"',
+      'rules[0].match.conditions[0].days must be a list of: mon, tue, wed, thu, fri, sat, sun',
+      'rules[0].match.conditions[0].until must be a date like 2026-08-31',
+      'rules[0].match.conditions[2] needs n, min or max',
+      'rules[0].match.conditions[1].condition.rules: unknown rule "nope"',
+    ]);
+  });
+
+  it('checks response templates and language maps at load time', () => {
+    const rules = [
+      { ...rule, response: 'Hi {visitorname}' },
+      { ...rule, id: 'company', match: { type: 'pattern', pattern: 'at (\\w+)' }, response: { en: 'At {match.1}', ru: 'В {match.2}' } },
+      { ...rule, id: 'empty', response: {} },
+    ];
+    const warnings: string[] = [];
+    expect(validateRules({ rules }, warnings)).toEqual([
+      'rules[1].response.ru uses {match.2} but the pattern has no such group',
+      'rules[2].response needs at least one language',
+    ]);
+    expect(warnings).toEqual(['rules[0].response uses unknown variable {visitorname}']);
+  });
+
+  it('only warns about stray braces and unknown variables, which older texts may have', () => {
+    const persona = { name: 'a', systemPrompt: 'b', greeting: 'Hi {name}, I am {nickname}', fallback: 'Sorry :-{' };
+    const data = validateData({ config, persona });
+    expect(data.warnings).toEqual([
+      'persona.yaml: greeting uses unknown variable {nickname}',
+      'persona.yaml: fallback has an unmatched "{" (write "{{" for a literal brace)',
+    ]);
+  });
+
+  it('rejects duplicate ids', () => {
+    expect(validateRules({ rules: [rule, rule] })).toEqual(['rules[1].id "hire" is used by another rule']);
+  });
+
+  it('accepts only known rule actions', () => {
+    expect(validateRules({ rules: [{ ...rule, action: 'takeMessage' }] })).toEqual([]);
+    expect(validateRules({ rules: [{ ...rule, action: 'email' }] })).toEqual(['rules[0].action must be one of: takeMessage']);
+  });
+
+  it('does not allow exact matches or unknown actions in spam rules', () => {
+    const errors = validateRules({
+      spam: [{ id: 's', label: 'S', match: { type: 'exact', value: 'hi' }, action: 'delete' }],
+    });
+    expect(errors).toEqual([
+      'spam[0].match.type must be one of: keywords, pattern',
+      'spam[0].action must be one of: flag, drop',
+    ]);
+  });
+});
+
+describe('validateMemories', () => {
+  it('requires user and assistant strings', () => {
+    expect(validateMemories([{ user: 'hi', assistant: 'hello' }, { user: 'hi' }])).toEqual([
+      '[1] must have "user" and "assistant" strings',
+    ]);
+  });
+});
+
+describe('validateData', () => {
+  it('reports errors from every file, prefixed with the file name', () => {
+    try {
+      validateData({
+        config: { ...config, admin: {} },
+        persona: { name: 'aure' },
+        rules: { rules: [{ ...rule, priority: 'high' }] },
+        memories: 'nope',
+      });
+      expect.unreachable();
+    } catch (error) {
+      expect(error).toBeInstanceOf(ConfigValidationError);
+      const { errors } = error as ConfigValidationError;
+      expect(errors).toContain('config.yaml: admin.token is required');
+      expect(errors).toContain('persona.yaml: systemPrompt is required');
+      expect(errors).toContain('rules.yaml: rules[0].priority must be a number');
+      expect(errors).toContain('memories.yaml: memories must be a list of { user, assistant } pairs');
+    }
+  });
+
+  it('fills optional persona lists', () => {
+    const data = validateData({
+      config,
+      persona: { name: 'a', systemPrompt: 'b', greeting: 'c', fallback: 'd' },
+      rules: { rules: [rule] },
+    });
+    expect(data.persona?.languages).toEqual([]);
+    expect(data.persona?.blockedTopics).toEqual([]);
+    expect(data.rules).toHaveLength(1);
+    expect(data.spamRules).toEqual([]);
+    expect(data.memories).toEqual([]);
+  });
+});
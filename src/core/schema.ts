@@ -0,0 +1,730 @@
+/**
+ * Data validation — checks config.yaml, persona.yaml, rules.yaml
+ * and memories.yaml before anything uses them.
+ *
+ * Hand-written checks, same approach as α's validateConfig.
+ * Every error is collected (not just the first), prefixed with
+ * the file and the path inside it, e.g.
+ *   rules.yaml: rules[1].match.pattern is not a valid regex: ...
+ */
+
+import { isIP } from 'node:net';
+import type { AureConfig, Persona, Rule, SpamRule, MemoryPair } from '../types/index.js';
+import { captureInfo, checkTemplate, type CaptureInfo } from './template.js';
+
+const VALID_PROVIDERS = new Set(['ollama', 'openai', 'anthropic']);
+const VALID_FORMATS = new Set(['markdown', 'json', 'text']);
+const VALID_PRESETS = new Set(['pi5', 'm-series', 'gpu', 'custom']);
+const VALID_RULE_MATCHES = new Set([
+  'keywords', 'pattern', 'exact', 'all', 'any', 'not',
+  'firstMessage', 'turn', 'language', 'time', 'email', 'ruleFired',
+]);
+const VALID_SPAM_MATCHES = new Set(['keywords', 'pattern']);
+const VALID_SPAM_ACTIONS = new Set(['flag', 'drop']);
+const VALID_RULE_ACTIONS = new Set(['takeMessage']);
+const VALID_FORM_TEXTS = new Set(['askName', 'askEmail', 'invalidEmail', 'askMessage', 'confirm', 'done', 'cancelled']);
+const FORM_VARIABLES = ['form.name', 'form.email', 'form.message'];
+const VALID_CHANNELS = new Set(['webhook', 'email', 'ntfy']);
+const VALID_NOTIFY_EVENTS = new Set(['conversation', 'rule', 'error', 'spam', 'reply']);
+const QUIET_HOURS = /^([01]\d|2[0-3]):[0-5]\d-([01]\d|2[0-3]):[0-5]\d$/;
+const DATE = /^\d{4}-\d{2}-\d{2}$/;
+const VALID_DAYS = new Set(['mon', 'tue', 'wed', 'thu', 'fri', 'sat', 'sun']);
+
+export class ConfigValidationError extends Error {
+  constructor(public errors: string[]) {
+    super(`Invalid data:\n  ${errors.join('\n  ')}`);
+    this.name = 'ConfigValidationError';
+  }
+}
+
+/** Parsed (but unchecked) contents of each data file */
+export interface RawData {
+  config: unknown;
+  /** undefined when the file doesn't exist */
+  persona?: unknown;
+  rules?: unknown;
+  memories?: unknown;
+}
+
+export interface ValidatedData {
+  config: AureConfig;
+  persona?: Persona;
+  rules: Rule[];
+  spamRules: SpamRule[];
+  memories: MemoryPair[];
+  /** Problems that don't stop loading (likely template typos) */
+  warnings: string[];
+}
+
+/**
+ * Validate all data files at once. Throws ConfigValidationError
+ * listing every problem found.
+ */
+export function validateData(raw: RawData): ValidatedData {
+  const personaWarnings: string[] = [];
+  const rulesWarnings: string[] = [];
+  const errors: string[] = [
+    ...validateConfig(raw.config).map(e => `config.yaml: ${e}`),
+    ...(raw.persona !== undefined ? validatePersona(raw.persona, personaWarnings) : []).map(e => `persona.yaml: ${e}`),
+    ...validateRules(raw.rules, rulesWarnings).map(e => `rules.yaml: ${e}`),
+    ...validateMemories(raw.memories).map(e => `memories.yaml: ${e}`),
+  ];
+
+  if (errors.length > 0) {
+    throw new ConfigValidationError(errors);
+  }
+
+  const rules = (raw.rules ?? {}) as { rules?: Rule[]; spam?: SpamRule[] };
+  const persona = raw.persona as Partial<Persona> | undefined;
+
+  return {
+    config: raw.config as AureConfig,
+    persona: persona && {
+      description: '',
+      languages: [],
+      blockedTopics: [],
+      ...persona,
+    } as Persona,
+    rules: rules.rules ?? [],
+    spamRules: rules.spam ?? [],
+    memories: (raw.memories ?? []) as MemoryPair[],
+    warnings: [
+      ...personaWarnings.map(w => `persona.yaml: ${w}`),
+      ...rulesWarnings.map(w => `rules.yaml: ${w}`),
+    ],
+  };
+}
+
+export function validateConfig(raw: unknown): string[] {
+  if (!isObject(raw)) return ['config must be an object'];
+
+  const errors: string[] = [];
+
+  if (raw.server !== undefined) {
+    if (!isObject(raw.server)) {
+      errors.push('server must be an object');
+    } else {
+      const { port, host } = raw.server;
+      if (port !== undefined && (!Number.isInteger(port) || (port as number) < 1 || (port as number) > 65535)) {
+        errors.push('server.port must be an integer between 1 and 65535');
+      }
+      if (host !== undefined && typeof host !== 'string') {
+        errors.push('server.host must be a string');
+      }
+    }
+  }
+
+  if (raw.provider === undefined) {
+    errors.push('provider is required');
+  } else if (Array.isArray(raw.provider)) {
+    if (raw.provider.length === 0) errors.push('provider list must not be empty');
+    raw.provider.forEach((p, i) => errors.push(...validateProvider(p, `provider[${i}]`)));
+  } else {
+    errors.push(...validateProvider(raw.provider, 'provider'));
+  }
+
+  if (raw.fallback !== undefined) {
+    if (!isObject(raw.fallback)) {
+      errors.push('fallback must be an object');
+    } else {
+      const { failureThreshold, cooldown } = raw.fallback;
+      if (failureThreshold !== undefined && !isPositiveInt(failureThreshold)) {
+        errors.push('fallback.failureThreshold must be a positive integer');
+      }
+      if (cooldown !== undefined && !isNonNegative(cooldown)) {
+        errors.push('fallback.cooldown must be a non-negative number');
+      }
+    }
+  }
+
+  const sourceNames = new Set<string>();
+  if (raw.sources !== undefined && raw.sources !== null) {
+    if (!Array.isArray(raw.sources)) {
+      errors.push('sources must be a list');
+    } else {
+      raw.sources.forEach((s, i) => {
+        const path = `sources[${i}]`;
+        if (!isObject(s)) {
+          errors.push(`${path} must be an object`);
+          return;
+        }
+        if (!isNonEmptyString(s.name)) {
+          errors.push(`${path}.name is required`);
+        } else if (sourceNames.has(s.name)) {
+          errors.push(`${path}.name "${s.name}" is used by another source`);
+        } else {
+          sourceNames.add(s.name);
+        }
+        if (!isNonEmptyString(s.path)) errors.push(`${path}.path is required`);
+        if (typeof s.format !== 'string' || !VALID_FORMATS.has(s.format)) {
+          errors.push(`${path}.format must be one of: ${[...VALID_FORMATS].join(', ')}`);
+        }
+        if (s.description !== undefined && typeof s.description !== 'string') {
+          errors.push(`${path}.description must be a string`);
+        }
+      });
+    }
+  }
+
+  if (raw.retrieval !== undefined) {
+    if (!isObject(raw.retrieval)) {
+      errors.push('retrieval must be an object');
+    } else {
+      const r = raw.retrieval;
+      if (typeof r.enabled !== 'boolean') errors.push('retrieval.enabled must be true or false');
+      if (r.preset !== undefined && (typeof r.preset !== 'string' || !VALID_PRESETS.has(r.preset))) {
+        errors.push(`retrieval.preset must be one of: ${[...VALID_PRESETS].join(', ')}`);
+      }
+      if (r.topK !== undefined && !isPositiveInt(r.topK)) {
+        errors.push('retrieval.topK must be a positive integer');
+      }
+      if (r.scoreThreshold !== undefined && (typeof r.scoreThreshold !== 'number' || r.scoreThreshold < 0 || r.scoreThreshold > 1)) {
+        errors.push('retrieval.scoreThreshold must be a number between 0 and 1');
+      }
+      if (r.indexDir !== undefined && typeof r.indexDir !== 'string') {
+        errors.push('retrieval.indexDir must be a string');
+      }
+      if (r.embedding !== undefined) {
+        if (!isObject(r.embedding)) {
+          errors.push('retrieval.embedding must be an object');
+        } else if (r.embedding.dimensions !== undefined && !isPositiveInt(r.embedding.dimensions)) {
+          errors.push('retrieval.embedding.dimensions must be a positive integer');
+        }
+      }
+      if (r.pinned !== undefined) {
+        if (!isStringArray(r.pinned)) {
+          errors.push('retrieval.pinned must be a list of source names');
+        } else {
+          for (const name of r.pinned) {
+            if (!sourceNames.has(name)) errors.push(`retrieval.pinned: unknown source "${name}"`);
+          }
+        }
+      }
+    }
+  }
+
+  if (raw.digest !== undefined) {
+    if (!isObject(raw.digest)) {
+      errors.push('digest must be an object');
+    } else {
+      const { enabled, quietMinutes, interval } = raw.digest;
+      if (enabled !== undefined && typeof enabled !== 'boolean') {
+        errors.push('digest.enabled must be true or false');
+      }
+      if (quietMinutes !== undefined && !isNonNegative(quietMinutes)) {
+        errors.push('digest.quietMinutes must be a non-negative number');
+      }
+      if (interval !== undefined && !(isNonNegative(interval) && interval > 0)) {
+        errors.push('digest.interval must be a positive number');
+      }
+    }
+  }
+
+  if (raw.queue !== undefined) {
+    if (!isObject(raw.queue)) {
+      errors.push('queue must be an object');
+    } else if (raw.queue.concurrency !== undefined && !isPositiveInt(raw.queue.concurrency)) {
+      errors.push('queue.concurrency must be a positive integer');
+    }
+  }
+
+  if (raw.session !== undefined) {
+    if (!isObject(raw.session)) {
+      errors.push('session must be an object');
+    } else {
+      const { secret, ttlDays } = raw.session;
+      if (secret !== undefined && !(typeof secret === 'string' && secret.length >= 16)) {
+        errors.push('session.secret must be a string of at least 16 characters');
+      }
+      if (ttlDays !== undefined && !isNonNegative(ttlDays)) {
+        errors.push('session.ttlDays must be a non-negative number');
+      }
+    }
+  }
+
+  if (raw.rateLimit !== undefined) {
+    errors.push(...validateRateLimit(raw.rateLimit));
+  }
+
+  if (raw.antibot !== undefined) {
+    errors.push(...validateAntibot(raw.antibot));
+  }
+
+  if (raw.spamClassifier !== undefined) {
+    if (!isObject(raw.spamClassifier)) {
+      errors.push('spamClassifier must be an object');
+    } else {
+      const { enabled, threshold, action, minExamples } = raw.spamClassifier;
+      if (enabled !== undefined && typeof enabled !== 'boolean') {
+        errors.push('spamClassifier.enabled must be true or false');
+      }
+      if (threshold !== undefined && !(isNonNegative(threshold) && threshold > 0 && threshold < 1)) {
+        errors.push('spamClassifier.threshold must be a number between 0 and 1');
+      }
+      if (action !== undefined && action !== 'flag' && action !== 'drop') {
+        errors.push('spamClassifier.action must be "flag" or "drop"');
+      }
+      if (minExamples !== undefined && !isPositiveInt(minExamples)) {
+        errors.push('spamClassifier.minExamples must be a positive integer');
+      }
+    }
+  }
+
+  if (raw.notifications !== undefined) {
+    if (!Array.isArray(raw.notifications)) {
+      errors.push('notifications must be a list');
+    } else {
+      raw.notifications.forEach((n, i) => errors.push(...validateChannel(n, `notifications[${i}]`)));
+    }
+  }
+
+  if (!isObject(raw.admin)) {
+    errors.push('admin is required');
+  } else if (!isNonEmptyString(raw.admin.token)) {
+    errors.push('admin.token is required');
+  }
+
+  return errors;
+}
+
+function validateProvider(raw: unknown, path: string): string[] {
+  if (!isObject(raw)) return [`${path} must be an object`];
+
+  const errors: string[] = [];
+
+  if (typeof raw.type !== 'string' || !VALID_PROVIDERS.has(raw.type)) {
+    errors.push(`${path}.type must be one of: ${[...VALID_PROVIDERS].join(', ')}`);
+  }
+  if (raw.type === 'anthropic' && !isNonEmptyString(raw.apiKey)) {
+    errors.push(`${path}.apiKey is required for anthropic`);
+  }
+  for (const key of ['apiKey', 'baseUrl', 'model'] as const) {
+    if (raw[key] !== undefined && typeof raw[key] !== 'string') {
+      errors.push(`${path}.${key} must be a string`);
+    }
+  }
+  if (raw.maxTokens !== undefined && !isPositiveInt(raw.maxTokens)) {
+    errors.push(`${path}.maxTokens must be a positive integer`);
+  }
+  if (raw.temperature !== undefined && (typeof raw.temperature !== 'number' || raw.temperature < 0 || raw.temperature > 2)) {
+    errors.push(`${path}.temperature must be a number between 0 and 2`);
+  }
+  if (raw.timeout !== undefined && !isNonNegative(raw.timeout)) {
+    errors.push(`${path}.timeout must be a non-negative number`);
+  }
+  if (raw.contextWindow !== undefined) {
+    if (!isPositiveInt(raw.contextWindow)) {
+      errors.push(`${path}.contextWindow must be a positive integer`);
+    } else if (typeof raw.maxTokens === 'number' && raw.contextWindow <= raw.maxTokens) {
+      errors.push(`${path}.contextWindow must be larger than maxTokens`);
+    }
+  }
+
+  return errors;
+}
+
+function validateRateLimit(raw: unknown): string[] {
+  if (!isObject(raw)) return ['rateLimit must be an object'];
+
+  const errors: string[] = [];
+
+  for (const key of ['enabled', 'trustProxy', 'persist'] as const) {
+    if (raw[key] !== undefined && typeof raw[key] !== 'boolean') {
+      errors.push(`rateLimit.${key} must be true or false`);
+    }
+  }
+  for (const key of ['ip', 'conversation', 'global'] as const) {
+    const bucket = raw[key];
+    if (bucket === undefined) continue;
+    if (!isObject(bucket) || !isPositiveInt(bucket.burst) || !(isNonNegative(bucket.perMinute) && bucket.perMinute > 0)) {
+      errors.push(`rateLimit.${key} must have a positive integer burst and a positive perMinute`);
+    }
+  }
+  if (raw.exempt !== undefined) {
+    if (!isStringArray(raw.exempt)) {
+      errors.push('rateLimit.exempt must be a list of IPs or CIDRs');
+    } else {
+      raw.exempt.forEach((entry, i) => {
+        const [address, prefix, ...rest] = entry.split('/');
+        const version = isIP(address);
+        const bits = Number(prefix);
+        const valid = version !== 0 && rest.length === 0 && (prefix === undefined
+          || (/^\d+$/.test(prefix) && bits <= (version === 4 ? 32 : 128)));
+        if (!valid) errors.push(`rateLimit.exempt[${i}] "${entry}" is not an IP or CIDR`);
+      });
+    }
+  }
+
+  return errors;
+}
+
+function validateAntibot(raw: unknown): string[] {
+  if (!isObject(raw)) return ['antibot must be an object'];
+
+  const errors: string[] = [];
+
+  for (const key of ['enabled', 'honeypot'] as const) {
+    if (raw[key] !== undefined && typeof raw[key] !== 'boolean') {
+      errors.push(`antibot.${key} must be true or false`);
+    }
+  }
+  if (raw.minSeconds !== undefined && !isNonNegative(raw.minSeconds)) {
+    errors.push('antibot.minSeconds must be a non-negative number');
+  }
+  if (raw.action !== undefined && raw.action !== 'flag' && raw.action !== 'drop') {
+    errors.push('antibot.action must be "flag" or "drop"');
+  }
+  if (raw.pow !== undefined) {
+    if (!isObject(raw.pow)) {
+      errors.push('antibot.pow must be an object');
+    } else {
+      if (raw.pow.enabled !== undefined && typeof raw.pow.enabled !== 'boolean') {
+        errors.push('antibot.pow.enabled must be true or false');
+      }
+      // Above ~24 bits a phone takes minutes per message
+      for (const key of ['difficulty', 'maxDifficulty'] as const) {
+        const bits = raw.pow[key];
+        if (bits !== undefined && !(isPositiveInt(bits) && bits <= 32)) {
+          errors.push(`antibot.pow.${key} must be an integer from 1 to 32`);
+        }
+      }
+    }
+  }
+
+  return errors;
+}
+
+function validateChannel(raw: unknown, path: string): string[] {
+  if (!isObject(raw)) return [`${path} must be an object`];
+
+  const errors: string[] = [];
+
+  switch (raw.type) {
+    case 'webhook':
+    case 'ntfy':
+      if (!isNonEmptyString(raw.url) || !/^https?:\/\//.test(raw.url)) {
+        errors.push(`${path}.url must be an http(s) URL`);
+      }
+      break;
+    case 'email':
+      if (!isNonEmptyString(raw.host)) errors.push(`${path}.host is required`);
+      if (!isNonEmptyString(raw.from)) errors.push(`${path}.from is required`);
+      if (!(isNonEmptyString(raw.to) || (isStringArray(raw.to) && raw.to.length > 0))) {
+        errors.push(`${path}.to must be an address or a list of addresses`);
+      }
+      if (raw.port !== undefined && !isPositiveInt(raw.port)) {
+        errors.push(`${path}.port must be a positive integer`);
+      }
+      for (const key of ['secure', 'allowInsecureAuth'] as const) {
+        if (raw[key] !== undefined && typeof raw[key] !== 'boolean') {
+          errors.push(`${path}.${key} must be true or false`);
+        }
+      }
+      if (raw.pass !== undefined && raw.user === undefined) {
+        errors.push(`${path}.pass needs a user`);
+      }
+      break;
+    default:
+      errors.push(`${path}.type must be one of: ${[...VALID_CHANNELS].join(', ')}`);
+  }
+
+  for (const key of ['secret', 'token', 'user', 'pass'] as const) {
+    if (raw[key] !== undefined && typeof raw[key] !== 'string') {
+      errors.push(`${path}.${key} must be a string`);
+    }
+  }
+  if (raw.events !== undefined && !(isStringArray(raw.events) && raw.events.every(e => VALID_NOTIFY_EVENTS.has(e)))) {
+    errors.push(`${path}.events must be a list of: ${[...VALID_NOTIFY_EVENTS].join(', ')}`);
+  }
+  if (raw.rules !== undefined && !isStringArray(raw.rules)) {
+    errors.push(`${path}.rules must be a list of rule ids`);
+  }
+  if (raw.quietHours !== undefined) {
+    const hours = raw.quietHours;
+    if (typeof hours !== 'string' || !QUIET_HOURS.test(hours)) {
+      errors.push(`${path}.quietHours must look like "22:00-08:00"`);
+    } else if (hours.slice(0, 5) === hours.slice(6)) {
+      errors.push(`${path}.quietHours must not start and end at the same time`);
+    }
+  }
+  if (raw.batch !== undefined && !isNonNegative(raw.batch)) {
+    errors.push(`${path}.batch must be a non-negative number of minutes`);
+  }
+
+  return errors;
+}
+
+/** Errors in persona.yaml; template warnings go to `warnings` */
+export function validatePersona(raw: unknown, warnings: string[] = []): string[] {
+  if (!isObject(raw)) return ['persona must be an object'];
+
+  const errors: string[] = [];
+
+  for (const key of ['name', 'systemPrompt'] as const) {
+    if (!isNonEmptyString(raw[key])) errors.push(`${key} is required`);
+  }
+  for (const key of ['greeting', 'fallback'] as const) {
+    errors.push(...validateLocalizedText(raw[key], key, null, false, warnings));
+  }
+  if (raw.description !== undefined && typeof raw.description !== 'string') {
+    errors.push('description must be a string');
+  }
+  for (const key of ['languages', 'blockedTopics'] as const) {
+    if (raw[key] !== undefined && !isStringArray(raw[key])) {
+      errors.push(`${key} must be a list of strings`);
+    }
+  }
+  if (raw.messageForm !== undefined) {
+    if (!isObject(raw.messageForm)) {
+      errors.push('messageForm must be an object');
+    } else {
+      for (const [key, text] of Object.entries(raw.messageForm)) {
+        if (!VALID_FORM_TEXTS.has(key)) {
+          errors.push(`messageForm.${key} is not a form text (one of: ${[...VALID_FORM_TEXTS].join(', ')})`);
+        } else {
+          errors.push(...validateLocalizedText(text, `messageForm.${key}`, null, false, warnings, FORM_VARIABLES));
+        }
+      }
+    }
+  }
+
+  return errors;
+}
+
+/** Errors in rules.yaml; template warnings go to `warnings` */
+export function validateRules(raw: unknown, warnings: string[] = []): string[] {
+  if (raw === undefined || raw === null) return [];
+  if (!isObject(raw)) return ['rules file must be an object with "rules" and "spam" lists'];
+
+  const errors: string[] = [];
+
+  for (const key of ['rules', 'spam'] as const) {
+    const list = raw[key];
+    if (list === undefined || list === null) continue;
+    if (!Array.isArray(list)) {
+      errors.push(`${key} must be a list`);
+      continue;
+    }
+
+    const ids = new Set<string>();
+    const fired: { path: string; id: string }[] = [];
+    list.forEach((rule, i) => {
+      const path = `${key}[${i}]`;
+      if (!isObject(rule)) {
+        errors.push(`${path} must be an object`);
+        return;
+      }
+
+      if (!isNonEmptyString(rule.id)) {
+        errors.push(`${path}.id is required`);
+      } else if (ids.has(rule.id)) {
+        errors.push(`${path}.id "${rule.id}" is used by another rule`);
+      } else {
+        ids.add(rule.id);
+      }
+      if (typeof rule.label !== 'string') errors.push(`${path}.label is required`);
+
+      errors.push(...validateMatch(rule.match, `${path}.match`, key === 'rules' ? VALID_RULE_MATCHES : VALID_SPAM_MATCHES, fired));
+
+      if (key === 'rules') {
+        errors.push(...validateLocalizedText(rule.response, `${path}.response`, patternCaptures(rule.match), true, warnings));
+        if (typeof rule.priority !== 'number' || !Number.isFinite(rule.priority)) {
+          errors.push(`${path}.priority must be a number`);
+        }
+        if (typeof rule.enabled !== 'boolean') errors.push(`${path}.enabled must be true or false`);
+        if (rule.action !== undefined && (typeof rule.action !== 'string' || !VALID_RULE_ACTIONS.has(rule.action))) {
+          errors.push(`${path}.action must be one of: ${[...VALID_RULE_ACTIONS].join(', ')}`);
+        }
+      } else if (typeof rule.action !== 'string' || !VALID_SPAM_ACTIONS.has(rule.action)) {
+        errors.push(`${path}.action must be one of: ${[...VALID_SPAM_ACTIONS].join(', ')}`);
+      }
+    });
+
+    for (const ref of fired) {
+      if (!ids.has(ref.id)) errors.push(`${ref.path}: unknown rule "${ref.id}"`);
+    }
+  }
+
+  return errors;
+}
+
+/**
+ * A template, or a map of templates by language. Missing or empty is
+ * "required" (empty strings pass when `allowEmpty`); `extra` are the
+ * variables only this text may use.
+ */
+function validateLocalizedText(
+  raw: unknown,
+  path: string,
+  captures: CaptureInfo | null,
+  allowEmpty: boolean,
+  warnings: string[],
+  extra: string[] = []
+): string[] {
+  const check = (text: string, at: string): string[] => {
+    const problems = checkTemplate(text, captures, extra);
+    warnings.push(...problems.warnings.map(warning => `${at} ${warning}`));
+    return problems.errors.map(error => `${at} ${error}`);
+  };
+
+  if (typeof raw === 'string' && (allowEmpty || raw.trim() !== '')) return check(raw, path);
+  if (!isObject(raw)) return [`${path} is required`];
+
+  const entries = Object.entries(raw);
+  if (entries.length === 0) return [`${path} needs at least one language`];
+  return entries.flatMap(([language, text]) => typeof text === 'string'
+    ? check(text, `${path}.${language}`)
+    : [`${path}.${language} must be a string`]);
+}
+
+/** Capture groups a rule's pattern conditions provide (null if none; `not` branches don't count) */
+function patternCaptures(match: unknown): CaptureInfo | null {
+  if (!isObject(match)) return null;
+
+  if (match.type === 'pattern' && typeof match.pattern === 'string') {
+    try {
+      return captureInfo(match.pattern, typeof match.flags === 'string' ? match.flags : undefined);
+    } catch {
+      return null;  // reported as an invalid regex
+    }
+  }
+  if ((match.type === 'all' || match.type === 'any') && Array.isArray(match.conditions)) {
+    const found = match.conditions.map(patternCaptures).filter((c): c is CaptureInfo => c !== null);
+    if (found.length === 0) return null;
+    return {
+      count: Math.max(...found.map(c => c.count)),
+      names: [...new Set(found.flatMap(c => c.names))],
+    };
+  }
+  return null;
+}
+
+/** `fired` collects ruleFired references, checked once all ids are known */
+function validateMatch(raw: unknown, path: string, types: Set<string>, fired: { path: string; id: string }[]): string[] {
+  if (!isObject(raw)) return [`${path} must be an object`];
+  if (typeof raw.type !== 'string' || !types.has(raw.type)) {
+    return [`${path}.type must be one of: ${[...types].join(', ')}`];
+  }
+
+  const errors: string[] = [];
+
+  switch (raw.type) {
+    case 'keywords':
+      if (!isStringArray(raw.keywords) || raw.keywords.length === 0) {
+        errors.push(`${path}.keywords must be a non-empty list of strings`);
+      }
+      if (raw.all !== undefined && typeof raw.all !== 'boolean') {
+        errors.push(`${path}.all must be true or false`);
+      }
+      break;
+
+    case 'pattern':
+      if (typeof raw.pattern !== 'string') {
+        errors.push(`${path}.pattern is required`);
+      } else if (raw.flags !== undefined && typeof raw.flags !== 'string') {
+        errors.push(`${path}.flags must be a string`);
+      } else {
+        // Compiled the same way as rules-engine's testMatch
+        try {
+          new RegExp(raw.pattern, raw.flags ?? 'i');
+        } catch (error) {
+          errors.push(`${path}.pattern is not a valid regex: ${error instanceof Error ? error.message : error}`);
+        }
+      }
+      break;
+
+    case 'exact':
+      if (typeof raw.value !== 'string') errors.push(`${path}.value is required`);
+      break;
+
+    case 'all':
+    case 'any':
+      if (!Array.isArray(raw.conditions) || raw.conditions.length === 0) {
+        errors.push(`${path}.conditions must be a non-empty list`);
+      } else {
+        raw.conditions.forEach((c, i) => errors.push(...validateMatch(c, `${path}.conditions[${i}]`, types, fired)));
+      }
+      break;
+
+    case 'not':
+      errors.push(...validateMatch(raw.condition, `${path}.condition`, types, fired));
+      break;
+
+    case 'turn':
+      for (const key of ['n', 'min', 'max'] as const) {
+        if (raw[key] !== undefined && !isPositiveInt(raw[key])) errors.push(`${path}.${key} must be a positive integer`);
+      }
+      if (raw.n === undefined && raw.min === undefined && raw.max === undefined) {
+        errors.push(`${path} needs n, min or max`);
+      }
+      break;
+
+    case 'language':
+      if (!isStringArray(raw.languages) || raw.languages.length === 0) {
+        errors.push(`${path}.languages must be a non-empty list of language codes`);
+      }
+      break;
+
+    case 'time':
+      if (raw.hours !== undefined && !(typeof raw.hours === 'string' && QUIET_HOURS.test(raw.hours))) {
+        errors.push(`${path}.hours must look like "09:00-17:00"`);
+      }
+      if (raw.days !== undefined && !(isStringArray(raw.days) && raw.days.every(d => VALID_DAYS.has(d.toLowerCase())))) {
+        errors.push(`${path}.days must be a list of: ${[...VALID_DAYS].join(', ')}`);
+      }
+      for (const key of ['from', 'until'] as const) {
+        const value = raw[key];
+        if (value !== undefined && !(typeof value === 'string' && DATE.test(value) && !Number.isNaN(Date.parse(value)))) {
+          errors.push(`${path}.${key} must be a date like 2026-08-31`);
+        }
+      }
+      break;
+
+    case 'email':
+      if (typeof raw.present !== 'boolean') errors.push(`${path}.present must be true or false`);
+      break;
+
+    case 'ruleFired':
+      if (!isStringArray(raw.rules) || raw.rules.length === 0) {
+        errors.push(`${path}.rules must be a non-empty list of rule ids`);
+      } else {
+        fired.push(...raw.rules.map(id => ({ path: `${path}.rules`, id })));
+      }
+      break;
+  }
+
+  return errors;
+}
+
+export function validateMemories(raw: unknown): string[] {
+  if (raw === undefined || raw === null) return [];
+  if (!Array.isArray(raw)) return ['memories must be a list of { user, assistant } pairs'];
+
+  const errors: string[] = [];
+  raw.forEach((m, i) => {
+    if (!isObject(m) || typeof m.user !== 'string' || typeof m.assistant !== 'string') {
+      errors.push(`[${i}] must have "user" and "assistant" strings`);
+    }
+  });
+  return errors;
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function isNonEmptyString(value: unknown): value is string {
+  return typeof value === 'string' && value.trim().length > 0;
+}
+
+function isStringArray(value: unknown): value is string[] {
+  return Array.isArray(value) && value.every(v => typeof v === 'string');
+}
+
+function isPositiveInt(value: unknown): value is number {
+  return typeof value === 'number' && Number.isInteger(value) && value > 0;
+}
+
+function isNonNegative(value: unknown): value is number {
+  return typeof value === 'number' && Number.isFinite(value) && value >= 0;
+}
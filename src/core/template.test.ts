@@ -0,0 +1,55 @@
+import { describe, it, expect } from 'vitest';
+import { renderTemplate, checkTemplate, captureInfo, localize } from './template.js';
+
+const now = new Date(2026, 7, 31, 9, 5);
+
+describe('renderTemplate', () => {
+  it('fills in variables, defaults and literal braces', () => {
+    const vars = { visitorName: 'Mari', personaName: 'aure', now };
+    expect(renderTemplate('Hi {visitorName}, {persona.name} here at {time} on {date} {{ok}}', vars))
+      .toBe('Hi Mari, aure here at 09:05 on 2026-08-31 {ok}');
+    expect(renderTemplate('Hi {visitorName|there}!', { ...vars, visitorName: null })).toBe('Hi there!');
+  });
+
+  it('fills in capture groups', () => {
+    const captures = { groups: ['at Acme', 'Acme'], named: { company: 'Acme' } };
+    expect(renderTemplate('{match.1} / {match.company} / {match.2|?}', { personaName: 'aure', now, captures }))
+      .toBe('Acme / Acme / ?');
+  });
+});
+
+describe('checkTemplate', () => {
+  it('warns about unknown variables and stray braces', () => {
+    expect(checkTemplate('Hi {visitorName|there}, {{literal}}')).toEqual({ errors: [], warnings: [] });
+    expect(checkTemplate('Hi {nmae} {')).toEqual({
+      errors: [],
+      warnings: ['uses unknown variable {nmae}', 'has an unmatched "{" (write "{{" for a literal brace)'],
+    });
+  });
+
+  it('takes {name} for the visitor name, as greetings did before templates', () => {
+    expect(checkTemplate('Hi {name}!').warnings).toEqual([]);
+    expect(renderTemplate('Hi {name}!', { visitorName: 'Mari', personaName: 'aure', now })).toBe('Hi Mari!');
+  });
+
+  it('checks capture groups against the pattern', () => {
+    const captures = captureInfo('at (?<company>\\w+) as (\\w+)');
+    expect(captures).toEqual({ count: 2, names: ['company'] });
+    expect(checkTemplate('{match.2} {match.company}', captures).errors).toEqual([]);
+    expect(checkTemplate('{match.3} {match.role}', captures).errors).toEqual([
+      'uses {match.3} but the pattern has no such group',
+      'uses {match.role} but the pattern has no such group',
+    ]);
+    expect(checkTemplate('{match.1}').errors).toEqual(['uses {match.1} but the rule has no pattern']);
+  });
+});
+
+describe('localize', () => {
+  it('picks the language, then the preferred ones, then the first', () => {
+    const text = { en: 'Hello', ru: 'Привет', et: 'Tere' };
+    expect(localize(text, 'ru', ['en'])).toBe('Привет');
+    expect(localize(text, 'de', ['et', 'en'])).toBe('Tere');
+    expect(localize(text, null)).toBe('Hello');
+    expect(localize('Plain', 'ru')).toBe('Plain');
+  });
+});
@@ -0,0 +1,136 @@
+/**
+ * Templates for rule responses, greeting and fallback.
+ *
+ *   {visitorName}          the name given at start (empty if none)
+ *   {visitorName|there}    ...or "there"
+ *   {name}                 same as {visitorName}, from before templates
+ *   {persona.name}
+ *   {time} {date}          server local time, 14:05 and 2026-08-31
+ *   {match.1} {match.id}   capture groups of the rule's pattern
+ *   {form.name} ...        extra variables where a caller provides them
+ *   {{ }}                  literal braces
+ *
+ * Texts can also be a map by language ({ en: ..., ru: ... }); the
+ * visitor's language picks one, else the persona's first language.
+ * checkTemplate() runs at load time, so a typo never reaches a visitor.
+ * Unknown variables and stray braces are only warnings: texts written
+ * before templates may hold a literal "{" and still have to load.
+ */
+
+import type { LocalizedText } from '../types/index.js';
+
+export interface TemplateVars {
+  visitorName?: string | null;
+  personaName: string;
+  now: Date;
+  /** Capture groups from the matching pattern — numbered and named */
+  captures?: Captures;
+  /** Caller-specific variables, e.g. form.email in the message form */
+  extra?: Record<string, string>;
+}
+
+export interface Captures {
+  groups: string[];
+  named: Record<string, string>;
+}
+
+/** What a template may reference from the rule's patterns (null: no pattern) */
+export interface CaptureInfo {
+  count: number;
+  names: string[];
+}
+
+export interface TemplateProblems {
+  /** The text can't work as written — fails the load */
+  errors: string[];
+  /** Probably a typo, but loads; `npm run check` shows these */
+  warnings: string[];
+}
+
+const TOKEN = /\{\{|\}\}|\{([^{}]*)\}|[{}]/g;
+const VARIABLES = new Set(['visitorName', 'name', 'persona.name', 'time', 'date']);
+
+export function renderTemplate(template: string, vars: TemplateVars): string {
+  return template.replace(TOKEN, (token, body: string | undefined) => {
+    if (token === '{{') return '{';
+    if (token === '}}') return '}';
+    if (body === undefined) return token;
+
+    const [name, fallback] = splitDefault(body);
+    return value(name, vars) || (fallback ?? '');
+  });
+}
+
+/**
+ * Problems in a template — `captures` is what its rule's patterns
+ * provide, `extra` the caller-specific variables it may use
+ */
+export function checkTemplate(template: string, captures: CaptureInfo | null = null, extra: string[] = []): TemplateProblems {
+  const errors: string[] = [];
+  const warnings: string[] = [];
+
+  for (const [token, body] of template.matchAll(TOKEN)) {
+    if (token === '{{' || token === '}}') continue;
+    if (body === undefined) {
+      warnings.push(`has an unmatched "${token}" (write "${token}${token}" for a literal brace)`);
+      continue;
+    }
+
+    const [name] = splitDefault(body);
+    if (name.startsWith('match.')) {
+      const group = name.slice('match.'.length);
+      if (!captures) {
+        errors.push(`uses {${name}} but the rule has no pattern`);
+      } else if (/^\d+$/.test(group) ? Number(group) > captures.count : !captures.names.includes(group)) {
+        errors.push(`uses {${name}} but the pattern has no such group`);
+      }
+    } else if (!VARIABLES.has(name) && !extra.includes(name)) {
+      warnings.push(`uses unknown variable {${name}}`);
+    }
+  }
+
+  return { errors, warnings };
+}
+
+/** Numbered and named groups a regex source defines */
+export function captureInfo(pattern: string, flags = 'i'): CaptureInfo {
+  // An empty alternative matches anything, exposing every group as undefined
+  const match = new RegExp(`${pattern}|`, flags).exec('')!;
+  return { count: match.length - 1, names: Object.keys(match.groups ?? {}) };
+}
+
+/** Pick the text for a language: exact, then the persona's languages in order, then the first */
+export function localize(text: LocalizedText, language: string | null, preferred: string[] = []): string {
+  if (typeof text === 'string') return text;
+
+  for (const candidate of [language, ...preferred]) {
+    if (candidate && text[candidate] !== undefined) return text[candidate];
+  }
+  return Object.values(text)[0] ?? '';
+}
+
+function splitDefault(body: string): [string, string | undefined] {
+  const bar = body.indexOf('|');
+  return bar === -1 ? [body.trim(), undefined] : [body.slice(0, bar).trim(), body.slice(bar + 1)];
+}
+
+function value(name: string, vars: TemplateVars): string {
+  const pad = (n: number) => String(n).padStart(2, '0');
+  const { now } = vars;
+
+  switch (name) {
+    case 'visitorName':
+    case 'name': return vars.visitorName ?? '';
+    case 'persona.name': return vars.personaName;
+    case 'time': return `${pad(now.getHours())}:${pad(now.getMinutes())}`;
+    case 'date': return `${now.getFullYear()}-${pad(now.getMonth() + 1)}-${pad(now.getDate())}`;
+  }
+
+  if (vars.extra?.[name] !== undefined) return vars.extra[name];
+
+  if (name.startsWith('match.')) {
+    const group = name.slice('match.'.length);
+    return (/^\d+$/.test(group) ? vars.captures?.groups[Number(group)] : vars.captures?.named[group]) ?? '';
+  }
+  return '';
+}
@@ -0,0 +1,56 @@
+import { describe, it, expect } from 'vitest';
+import { parse, interpolateEnv } from './yaml.js';
+
+const env = { ANTHROPIC_API_KEY: 'sk-test', EMPTY: '', HOST: 'pi.local' };
+
+describe('interpolateEnv', () => {
+  it('substitutes variables in nested values', () => {
+    const data = parse(`
+provider:
+  type: anthropic
+  apiKey: \${ANTHROPIC_API_KEY}
+sources:
+  - path: "http://\${HOST}:8080/notes"
+`);
+    const { value, missing } = interpolateEnv(data, env);
+
+    expect(missing).toEqual([]);
+    expect(value).toEqual({
+      provider: { type: 'anthropic', apiKey: 'sk-test' },
+      sources: [{ path: 'http://pi.local:8080/notes' }],
+    });
+  });
+
+  it('uses the default when the variable is unset or empty', () => {
+    const { value, missing } = interpolateEnv({ a: '${NOPE:-fallback}', b: '${EMPTY:-fallback}', c: '${HOST:-x}' }, env);
+    expect(missing).toEqual([]);
+    expect(value).toEqual({ a: 'fallback', b: 'fallback', c: 'pi.local' });
+  });
+
+  it('allows an empty default', () => {
+    expect(interpolateEnv({ a: 'x${NOPE:-}y' }, env).value).toEqual({ a: 'xy' });
+  });
+
+  it('keeps an empty variable without a default', () => {
+    const { value, missing } = interpolateEnv({ a: '${EMPTY}' }, env);
+    expect(missing).toEqual([]);
+    expect(value).toEqual({ a: '' });
+  });
+
+  it('reports unset variables with their path', () => {
+    const { missing } = interpolateEnv({ provider: [{ apiKey: '${OPENAI_KEY}' }], admin: { token: '${ADMIN}' } }, env);
+    expect(missing).toEqual([
+      'provider[0].apiKey: environment variable OPENAI_KEY is not set',
+      'admin.token: environment variable ADMIN is not set',
+    ]);
+  });
+
+  it('leaves $${VAR} as a literal', () => {
+    expect(interpolateEnv({ a: 'cost: $${HOST}' }, env).value).toEqual({ a: 'cost: ${HOST}' });
+  });
+
+  it('leaves non-string values and keys alone', () => {
+    const data = { '${HOST}': 1, b: true, c: null, d: [2, 'x'] };
+    expect(interpolateEnv(data, env).value).toEqual(data);
+  });
+});
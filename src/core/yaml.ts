@@ -11,3 +11,55 @@ export function parse(input: string): unknown {
 export function stringify(data: unknown): string {
   return YAML.stringify(data);
 }
+
+/** ${VAR}, ${VAR:-default}, or $${VAR} for a literal ${VAR} */
+const ENV_PATTERN = /\$(\$)?\{([A-Za-z_][A-Za-z0-9_]*)(?::-([^}]*))?\}/g;
+
+export interface InterpolateResult {
+  value: unknown;
+  /** "path: VAR is not set" for each unset variable without a default */
+  missing: string[];
+}
+
+/**
+ * Substitute environment variables in every string value of parsed YAML.
+ *
+ * `${VAR:-default}` uses the default when VAR is unset or empty.
+ * Values stay strings — interpolation is meant for secrets and URLs.
+ */
+export function interpolateEnv(
+  data: unknown,
+  env: Record<string, string | undefined> = process.env
+): InterpolateResult {
+  const missing: string[] = [];
+
+  const walk = (value: unknown, path: string): unknown => {
+    if (typeof value === 'string') {
+      return value.replace(ENV_PATTERN, (match, escaped, name, fallback) => {
+        if (escaped) return match.slice(1);
+
+        const resolved = env[name];
+        if (fallback !== undefined && !resolved) return fallback;
+        if (resolved === undefined) {
+          missing.push(`${path || '(root)'}: environment variable ${name} is not set`);
+          return match;
+        }
+        return resolved;
+      });
+    }
+
+    if (Array.isArray(value)) {
+      return value.map((item, i) => walk(item, `${path}[${i}]`));
+    }
+
+    if (typeof value === 'object' && value !== null) {
+      return Object.fromEntries(
+        Object.entries(value).map(([key, item]) => [key, walk(item, path ? `${path}.${key}` : key)])
+      );
+    }
+
+    return value;
+  };
+
+  return { value: walk(data, ''), missing };
+}
@@ -0,0 +1,71 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import * as db from './index.js';
+
+beforeEach(() => {
+  db.initDatabase(':memory:');
+});
+
+function conversation(name: string | undefined, ...messages: string[]) {
+  const conv = db.createConversation(name, name && `${name.toLowerCase()}@example.com`);
+  messages.forEach((content, i) => db.addMessage(conv.id, i % 2 === 0 ? 'visitor' : 'aure', content, { source: 'llm' }));
+  return conv;
+}
+
+const ids = (results: db.SearchResult[]) => results.map(r => r.conversation.id);
+
+describe('searchConversations', () => {
+  it('finds words by prefix with highlighted, escaped snippets', () => {
+    const rust = conversation('Mari', 'Do you write Rust? It is for a <backend> role.', 'Yes, some Rust.');
+    conversation('Jaan', 'Hello there');
+
+    const [result] = db.searchConversations({ query: 'rus backend' });
+    expect(result.conversation.id).toBe(rust.id);
+    expect(result.hits).toHaveLength(1);
+    expect(result.hits[0].snippet).toBe('Do you write <mark>Rust</mark>? It is for a &#60;<mark>backend</mark>&#62; role.');
+  });
+
+  it('finds visitors by name and email', () => {
+    const mari = conversation('Mari', 'hi');
+    expect(db.searchConversations({ query: 'mari@example.com' })[0]).toMatchObject({
+      conversation: { id: mari.id },
+      hits: [{ messageId: null, snippet: '<mark>Mari</mark> <mark>mari</mark>@<mark>example</mark>.<mark>com</mark>' }],
+    });
+  });
+
+  it('keeps the index in sync with edits and deletes', () => {
+    const conv = db.createConversation();
+    const pending = db.addPendingMessage(conv.id, 'aure');
+    expect(db.searchConversations({ query: 'kotlin' })).toEqual([]);
+
+    db.resolvePendingMessage(pending.id, 'Kotlin, mostly', 'received');
+    expect(ids(db.searchConversations({ query: 'kotlin' }))).toEqual([conv.id]);
+
+    db.updateConversation(conv.id, { visitorName: 'Kadri' });
+    expect(ids(db.searchConversations({ query: 'kadri' }))).toEqual([conv.id]);
+
+    db.deleteConversation(conv.id);
+    expect(db.searchConversations({ query: 'kotlin' })).toEqual([]);
+  });
+
+  it('filters by tags, flags, source and date', () => {
+    const job = conversation('Anna', 'a job in rust');
+    const spam = conversation('Bot', 'cheap rust remover');
+    db.updateConversation(job.id, { tags: ['Job', 'recruiter'], pinned: true });
+    db.updateConversation(spam.id, { spam: true });
+
+    expect(ids(db.searchConversations({ query: 'rust' }))).toEqual([job.id]);
+    expect(ids(db.searchConversations({ query: 'rust', spam: true }))).toEqual([spam.id]);
+    expect(ids(db.searchConversations({ query: 'rust', tags: ['job', 'RECRUITER'] }))).toEqual([job.id]);
+    expect(db.searchConversations({ query: 'rust', tags: ['job', 'sales'] })).toEqual([]);
+    expect(db.searchConversations({ query: 'rust', pinned: false })).toEqual([]);
+    expect(db.searchConversations({ query: 'rust', source: 'rule' })).toEqual([]);
+    expect(db.searchConversations({ query: 'rust', until: '2020-01-01' })).toEqual([]);
+  });
+
+  it('treats operators and quotes as plain words', () => {
+    conversation('Mari', 'this AND that');
+    expect(db.searchConversations({ query: '"AND NEAR(' })).toEqual([]);
+    expect(db.searchConversations({ query: '!!!' })).toEqual([]);
+    expect(db.searchConversations({ query: 'that AND' })).toHaveLength(1);
+  });
+});
@@ -1,15 +1,19 @@
 import Database from 'better-sqlite3';
-import { SCHEMA } from './schema.js';
 import { randomUUID } from 'node:crypto';
+import { runMigrations } from './migrate.js';
 import type { Message, Conversation } from '../types/index.js';
 
 let db: Database.Database;
 
+/** Open the database (WAL mode for concurrent reads) and run pending migrations */
 export function initDatabase(path: string = 'aure.db'): Database.Database {
   db = new Database(path);
   db.pragma('journal_mode = WAL');
   db.pragma('foreign_keys = ON');
-  db.exec(SCHEMA);
+
+  const { from, to, backup } = runMigrations(db, { file: path === ':memory:' ? undefined : path });
+  if (backup) console.log(`[aure] Migrated ${path} from version ${from} to ${to} (backup: ${backup})`);
+
   return db;
 }
 
@@ -36,8 +40,12 @@ export function createConversation(visitorName?: string, visitorEmail?: string):
     summary: null,
     tags: [],
     spam: false,
+    spamMark: null,
     seen: false,
     pinned: false,
+    paused: false,
+    leftMessage: null,
+    messageLeftAt: null,
     createdAt: now,
     updatedAt: now,
   };
@@ -81,7 +89,7 @@ export function listConversations(opts: {
 
 export function updateConversation(
   id: string,
-  updates: Partial<Pick<Conversation, 'summary' | 'tags' | 'spam' | 'seen' | 'pinned' | 'visitorName' | 'visitorEmail'>>
+  updates: Partial<Pick<Conversation, 'summary' | 'tags' | 'spam' | 'seen' | 'pinned' | 'paused' | 'visitorName' | 'visitorEmail'>>
 ): void {
   const sets: string[] = [];
   const params: any[] = [];
@@ -91,6 +99,7 @@ export function updateConversation(
   if (updates.spam !== undefined) { sets.push('spam = ?'); params.push(updates.spam ? 1 : 0); }
   if (updates.seen !== undefined) { sets.push('seen = ?'); params.push(updates.seen ? 1 : 0); }
   if (updates.pinned !== undefined) { sets.push('pinned = ?'); params.push(updates.pinned ? 1 : 0); }
+  if (updates.paused !== undefined) { sets.push('paused = ?'); params.push(updates.paused ? 1 : 0); }
   if (updates.visitorName !== undefined) { sets.push('visitor_name = ?'); params.push(updates.visitorName); }
   if (updates.visitorEmail !== undefined) { sets.push('visitor_email = ?'); params.push(updates.visitorEmail); }
 
@@ -104,6 +113,34 @@ export function updateConversation(
   ).run(...params);
 }
 
+/** An admin marked the conversation spam or not — the flag, and the verdict the classifier learns from */
+export function markSpam(id: string, spam: boolean): void {
+  getDatabase().prepare(
+    "UPDATE conversations SET spam = ?, spam_mark = ?, updated_at = datetime('now') WHERE id = ?"
+  ).run(spam ? 1 : 0, spam ? 1 : 0, id);
+}
+
+/** Message form in progress (JSON chosen by the form), or null */
+export function getFormState<T>(conversationId: string): T | null {
+  const row = getDatabase().prepare('SELECT form_state FROM conversations WHERE id = ?').get(conversationId) as any;
+  return row?.form_state ? JSON.parse(row.form_state) : null;
+}
+
+export function setFormState(conversationId: string, state: unknown): void {
+  getDatabase().prepare('UPDATE conversations SET form_state = ? WHERE id = ?')
+    .run(state === null ? null : JSON.stringify(state), conversationId);
+}
+
+/** The form is done: keep the contact details and message, end the form, show it as new */
+export function saveLeftMessage(conversationId: string, left: { name: string; email: string; message: string }): void {
+  getDatabase().prepare(`
+    UPDATE conversations
+    SET visitor_name = ?, visitor_email = ?, left_message = ?, message_left_at = ?,
+        form_state = NULL, seen = 0, updated_at = datetime('now')
+    WHERE id = ?
+  `).run(left.name, left.email, left.message, new Date().toISOString(), conversationId);
+}
+
 export function deleteConversation(id: string): void {
   getDatabase().prepare('DELETE FROM conversations WHERE id = ?').run(id);
 }
@@ -244,6 +281,478 @@ export function hasPendingAureMessage(conversationId: string): Message | null {
   return row ? rowToMessage(row) : null;
 }
 
+// ── Summaries ──────────────────────────────────────────────
+
+export interface ConversationSummary {
+  summary: string;
+  tags: string[];
+  topic: string;
+  /** 0-1, how much the author should care */
+  relevance: number;
+  /** Last message included in the summary */
+  messageRowid: number;
+}
+
+/** Cached topic + relevance for a conversation, or null if never summarised */
+export function getSummary(conversationId: string): Pick<ConversationSummary, 'topic' | 'relevance' | 'messageRowid'> | null {
+  const row = getDatabase().prepare(
+    'SELECT topic, relevance, message_rowid FROM conversation_summaries WHERE conversation_id = ?'
+  ).get(conversationId) as any;
+
+  return row ? { topic: row.topic, relevance: row.relevance, messageRowid: row.message_rowid } : null;
+}
+
+/** Store a summary. Doesn't touch updated_at — summarising isn't activity. */
+export function saveSummary(conversationId: string, summary: ConversationSummary): void {
+  const database = getDatabase();
+  database.transaction(() => {
+    database.prepare(
+      'UPDATE conversations SET summary = ?, tags = ? WHERE id = ?'
+    ).run(summary.summary, JSON.stringify(summary.tags), conversationId);
+
+    database.prepare(`
+      INSERT INTO conversation_summaries (conversation_id, topic, relevance, message_rowid, created_at)
+      VALUES (?, ?, ?, ?, datetime('now'))
+      ON CONFLICT(conversation_id) DO UPDATE SET
+        topic = excluded.topic,
+        relevance = excluded.relevance,
+        message_rowid = excluded.message_rowid,
+        created_at = excluded.created_at
+    `).run(conversationId, summary.topic, summary.relevance, summary.messageRowid);
+  })();
+}
+
+/**
+ * Conversations that need a (new) summary: not spam, quiet for
+ * quietSeconds, no response pending, and messages newer than
+ * the cached summary. Oldest activity first.
+ */
+export function getConversationsToSummarize(quietSeconds: number, limit = 10): { id: string; lastRowid: number }[] {
+  const rows = getDatabase().prepare(`
+    SELECT c.id AS id, MAX(m.rowid) AS last_rowid
+    FROM conversations c
+    JOIN messages m ON m.conversation_id = c.id
+    LEFT JOIN conversation_summaries s ON s.conversation_id = c.id
+    WHERE c.spam = 0
+    GROUP BY c.id
+    HAVING datetime(MAX(m.created_at)) <= datetime('now', ?)
+      AND SUM(m.status = 'pending') = 0
+      AND SUM(m.role = 'visitor') > 0
+      AND (s.message_rowid IS NULL OR MAX(m.rowid) > s.message_rowid)
+    ORDER BY MAX(m.created_at) ASC
+    LIMIT ?
+  `).all(`-${quietSeconds} seconds`, limit) as any[];
+
+  return rows.map(row => ({ id: row.id, lastRowid: row.last_rowid }));
+}
+
+/** Messages up to and including a rowid, oldest first */
+export function getMessagesUpTo(conversationId: string, rowid: number): Message[] {
+  const rows = getDatabase().prepare(`
+    SELECT * FROM messages
+    WHERE conversation_id = ? AND rowid <= ? AND status != 'pending'
+    ORDER BY rowid ASC
+  `).all(conversationId, rowid) as any[];
+
+  return rows.map(rowToMessage);
+}
+
+/** Visitor messages in non-spam conversations since a timestamp (any format SQLite parses) */
+export function countVisitorMessagesSince(since: string | null): number {
+  const row = getDatabase().prepare(`
+    SELECT COUNT(*) AS count FROM messages m
+    JOIN conversations c ON c.id = m.conversation_id
+    WHERE m.role = 'visitor' AND c.spam = 0
+      AND (? IS NULL OR datetime(m.created_at) > datetime(?))
+  `).get(since, since) as any;
+
+  return row.count;
+}
+
+/**
+ * Visitor messages in conversations an admin marked, with the mark —
+ * spam classifier training data. Automatic spam flags don't count.
+ */
+export function getVisitorMessagesForTraining(conversationId?: string): { conversationId: string; content: string; spam: boolean }[] {
+  const rows = getDatabase().prepare(`
+    SELECT m.conversation_id, m.content, c.spam_mark AS spam FROM messages m
+    JOIN conversations c ON c.id = m.conversation_id
+    WHERE m.role = 'visitor' AND c.spam_mark IS NOT NULL AND (? IS NULL OR m.conversation_id = ?)
+    ORDER BY m.rowid ASC
+  `).all(conversationId ?? null, conversationId ?? null) as any[];
+
+  return rows.map(row => ({ conversationId: row.conversation_id, content: row.content, spam: !!row.spam }));
+}
+
+// ── Search ─────────────────────────────────────────────────
+
+export interface SearchOptions {
+  /** Words to find, each as a prefix — all in one message, or in the visitor's name and email */
+  query: string;
+  /** Date range (YYYY-MM-DD, inclusive) of the matching message */
+  from?: string;
+  until?: string;
+  /** Conversations with all of these tags (any case) */
+  tags?: string[];
+  pinned?: boolean;
+  seen?: boolean;
+  /** true: only spam; otherwise spam is left out */
+  spam?: boolean;
+  /** Conversations aure answered this way at least once ('rule', 'llm', 'fallback', ...) */
+  source?: string;
+  limit?: number;
+  offset?: number;
+}
+
+export interface SearchHit {
+  /** null when the visitor's name or email matched */
+  messageId: string | null;
+  role: Message['role'] | null;
+  createdAt: string;
+  /** HTML-escaped text around the match, matches wrapped in <mark> */
+  snippet: string;
+}
+
+export interface SearchResult {
+  conversation: Conversation;
+  /** Best first, at most three */
+  hits: SearchHit[];
+}
+
+/** Conversations matching a search, best match first */
+export function searchConversations(opts: SearchOptions): SearchResult[] {
+  const words = opts.query.match(/[\p{L}\p{N}]+/gu);
+  if (!words) return [];
+
+  const params: Record<string, unknown> = {
+    // Quoted, so words like AND or NEAR aren't operators
+    query: words.map(w => `"${w}"*`).join(' '),
+    spam: opts.spam ? 1 : 0,
+    pinned: opts.pinned === undefined ? null : Number(opts.pinned),
+    seen: opts.seen === undefined ? null : Number(opts.seen),
+    from: opts.from ?? null,
+    until: opts.until ?? null,
+    source: opts.source ?? null,
+    limit: opts.limit ?? 20,
+    offset: opts.offset ?? 0,
+  };
+  const tagConditions = (opts.tags ?? []).map((tag, i) => {
+    params[`tag${i}`] = tag.toLowerCase();
+    return `AND EXISTS (SELECT 1 FROM json_each(c.tags) WHERE lower(json_each.value) = :tag${i})`;
+  });
+
+  // \x01 and \x02 mark matches until the text is escaped
+  const rows = getDatabase().prepare(`
+    WITH hits AS (
+      SELECT m.conversation_id, m.id AS message_id, m.role, m.created_at,
+             snippet(messages_fts, 0, char(1), char(2), '…', 16) AS snippet,
+             bm25(messages_fts) AS rank
+      FROM messages_fts JOIN messages m ON m.rowid = messages_fts.rowid
+      WHERE messages_fts MATCH :query
+      UNION ALL
+      SELECT c.id, NULL, NULL, c.created_at,
+             trim(coalesce(highlight(conversations_fts, 0, char(1), char(2)), '') || ' ' ||
+                  coalesce(highlight(conversations_fts, 1, char(1), char(2)), '')),
+             bm25(conversations_fts)
+      FROM conversations_fts JOIN conversations c ON c.rowid = conversations_fts.rowid
+      WHERE conversations_fts MATCH :query
+    ),
+    filtered AS (
+      SELECT h.* FROM hits h JOIN conversations c ON c.id = h.conversation_id
+      WHERE c.spam = :spam
+        AND (:pinned IS NULL OR c.pinned = :pinned)
+        AND (:seen IS NULL OR c.seen = :seen)
+        AND (:from IS NULL OR date(h.created_at) >= :from)
+        AND (:until IS NULL OR date(h.created_at) <= :until)
+        AND (:source IS NULL OR EXISTS (
+          SELECT 1 FROM messages s
+          WHERE s.conversation_id = c.id AND s.role = 'aure' AND json_extract(s.metadata, '$.source') = :source
+        ))
+        ${tagConditions.join('\n        ')}
+    ),
+    ranked AS (
+      SELECT *,
+             ROW_NUMBER() OVER (PARTITION BY conversation_id ORDER BY rank) AS n,
+             MIN(rank) OVER (PARTITION BY conversation_id) AS best
+      FROM filtered
+    )
+    SELECT * FROM ranked
+    WHERE n <= 3 AND conversation_id IN (
+      SELECT conversation_id FROM filtered
+      GROUP BY conversation_id
+      ORDER BY MIN(rank)
+      LIMIT :limit OFFSET :offset
+    )
+    ORDER BY best, conversation_id, n
+  `).all(params) as any[];
+
+  const results = new Map<string, SearchResult>();
+  for (const row of rows) {
+    let result = results.get(row.conversation_id);
+    if (!result) {
+      result = { conversation: getConversation(row.conversation_id)!, hits: [] };
+      results.set(row.conversation_id, result);
+    }
+    result.hits.push({
+      messageId: row.message_id,
+      role: row.role,
+      createdAt: row.created_at,
+      snippet: escapeHtml(row.snippet).replaceAll('\x01', '<mark>').replaceAll('\x02', '</mark>'),
+    });
+  }
+  return [...results.values()];
+}
+
+function escapeHtml(text: string): string {
+  return text.replace(/[&<>"']/g, c => `&#${c.charCodeAt(0)};`);
+}
+
+// ── Export / Import ────────────────────────────────────────
+
+/** Ids of all conversations, oldest first */
+export function listConversationIds(opts: { includeSpam?: boolean } = {}): string[] {
+  const rows = getDatabase().prepare(`
+    SELECT id FROM conversations
+    WHERE ? OR spam = 0
+    ORDER BY created_at ASC
+  `).all(opts.includeSpam ? 1 : 0) as any[];
+
+  return rows.map(row => row.id);
+}
+
+/** Every message of a conversation, in the order they were added */
+export function getAllMessages(conversationId: string): Message[] {
+  const rows = getDatabase().prepare(
+    'SELECT * FROM messages WHERE conversation_id = ? ORDER BY rowid ASC'
+  ).all(conversationId) as any[];
+
+  return rows.map(rowToMessage);
+}
+
+/**
+ * Restore conversations exactly as given — ids, timestamps, statuses.
+ * One already in the database is a duplicate and left alone. All or
+ * nothing: a message id used by another conversation aborts the import.
+ *
+ * A reply that was still pending has no job here to finish it, so it
+ * comes back failed, like one recoverJobs gives up on.
+ */
+export function importConversations(
+  conversations: { conversation: Conversation; messages: Message[] }[]
+): { imported: string[]; duplicates: string[] } {
+  const database = getDatabase();
+  const exists = database.prepare('SELECT 1 FROM conversations WHERE id = ?');
+  const messageExists = database.prepare('SELECT 1 FROM messages WHERE id = ?');
+  const insertConversation = database.prepare(`
+    INSERT INTO conversations (id, visitor_name, visitor_email, summary, tags, spam, spam_mark, seen, pinned, paused,
+                               left_message, message_left_at, created_at, updated_at)
+    VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+  `);
+  const insertMessage = database.prepare(`
+    INSERT INTO messages (id, conversation_id, role, content, status, metadata, created_at)
+    VALUES (?, ?, ?, ?, ?, ?, ?)
+  `);
+
+  const imported: string[] = [];
+  const duplicates: string[] = [];
+  database.transaction(() => {
+    for (const { conversation: c, messages } of conversations) {
+      if (exists.get(c.id)) {
+        duplicates.push(c.id);
+        continue;
+      }
+      insertConversation.run(
+        c.id, c.visitorName, c.visitorEmail, c.summary, JSON.stringify(c.tags),
+        c.spam ? 1 : 0, c.spamMark === null ? null : Number(c.spamMark), c.seen ? 1 : 0, c.pinned ? 1 : 0, c.paused ? 1 : 0,
+        c.leftMessage, c.messageLeftAt, c.createdAt, c.updatedAt
+      );
+      for (const m of messages) {
+        if (messageExists.get(m.id)) {
+          throw new Error(`Message ${m.id} of conversation ${c.id} already exists in another conversation`);
+        }
+        const [status, metadata] = m.status === 'pending'
+          ? ['error', { ...m.metadata, error: 'interrupted (imported while pending)' }]
+          : [m.status, m.metadata ?? {}];
+        insertMessage.run(m.id, c.id, m.role, m.content, status, JSON.stringify(metadata), m.createdAt);
+      }
+      imported.push(c.id);
+    }
+  })();
+
+  return { imported, duplicates };
+}
+
+// ── Jobs ───────────────────────────────────────────────────
+
+export interface Job {
+  /** The pending aure message this job resolves */
+  id: string;
+  conversationId: string;
+  status: 'queued' | 'running' | 'failed';
+  attempts: number;
+  lastError: string | null;
+  runAfter: string | null;
+  createdAt: string;
+  updatedAt: string;
+}
+
+/** Record a job for a pending message (no-op if it already has one) */
+export function enqueueJob(id: string, conversationId: string): void {
+  getDatabase().prepare(`
+    INSERT INTO jobs (id, conversation_id) VALUES (?, ?)
+    ON CONFLICT(id) DO NOTHING
+  `).run(id, conversationId);
+}
+
+/** Mark a job running and count the attempt. Returns attempts so far. */
+export function startJob(id: string): number {
+  const row = getDatabase().prepare(`
+    UPDATE jobs SET status = 'running', attempts = attempts + 1, run_after = NULL, updated_at = datetime('now')
+    WHERE id = ?
+    RETURNING attempts
+  `).get(id) as any;
+
+  return row?.attempts ?? 1;
+}
+
+/** Put a job back in the queue after a transient failure */
+export function retryJob(id: string, error: string, delayMs: number): void {
+  getDatabase().prepare(`
+    UPDATE jobs SET status = 'queued', last_error = ?, run_after = datetime('now', ?), updated_at = datetime('now')
+    WHERE id = ?
+  `).run(error, `+${Math.ceil(delayMs / 1000)} seconds`, id);
+}
+
+/** Move a job to the dead-letter list */
+export function failJob(id: string, error: string): void {
+  getDatabase().prepare(`
+    UPDATE jobs SET status = 'failed', last_error = ?, run_after = NULL, updated_at = datetime('now')
+    WHERE id = ?
+  `).run(error, id);
+}
+
+export function deleteJob(id: string): void {
+  getDatabase().prepare('DELETE FROM jobs WHERE id = ?').run(id);
+}
+
+export function getJob(id: string): Job | null {
+  const row = getDatabase().prepare('SELECT * FROM jobs WHERE id = ?').get(id) as any;
+  return row ? rowToJob(row) : null;
+}
+
+/** Dead-letter list, most recent first */
+export function listFailedJobs(limit = 50): Job[] {
+  const rows = getDatabase().prepare(`
+    SELECT * FROM jobs WHERE status = 'failed'
+    ORDER BY updated_at DESC
+    LIMIT ?
+  `).all(limit) as any[];
+
+  return rows.map(rowToJob);
+}
+
+/**
+ * Pending aure messages with their job, if any — after a restart
+ * these are all orphans. Messages left pending by older versions
+ * have no job row (attempts 0).
+ */
+export function getPendingJobs(): (Pick<Job, 'id' | 'conversationId' | 'attempts'> & { createdAt: string })[] {
+  const rows = getDatabase().prepare(`
+    SELECT m.id, m.conversation_id, m.created_at, COALESCE(j.attempts, 0) AS attempts
+    FROM messages m
+    LEFT JOIN jobs j ON j.id = m.id
+    WHERE m.role = 'aure' AND m.status = 'pending'
+    ORDER BY m.rowid ASC
+  `).all() as any[];
+
+  return rows.map(row => ({
+    id: row.id,
+    conversationId: row.conversation_id,
+    attempts: row.attempts,
+    createdAt: row.created_at,
+  }));
+}
+
+// ── Rate Limiting ──────────────────────────────────────────
+
+export interface ThrottleCount {
+  ip: string;
+  bucket: string;
+  hour: string;
+  count: number;
+  lastAt: string;
+}
+
+/** Count a throttled request for the admin's abuse view */
+export function recordThrottle(ip: string, bucket: string): void {
+  getDatabase().prepare(`
+    INSERT INTO throttled_requests (ip, bucket, hour, count, last_at)
+    VALUES (?, ?, strftime('%Y-%m-%d %H:00', 'now'), 1, datetime('now'))
+    ON CONFLICT(ip, bucket, hour) DO UPDATE SET
+      count = count + 1,
+      last_at = excluded.last_at
+  `).run(ip, bucket);
+}
+
+/** Throttled requests in the last `hours`, busiest first */
+export function listThrottled(hours = 24, limit = 100): ThrottleCount[] {
+  const rows = getDatabase().prepare(`
+    SELECT * FROM throttled_requests
+    WHERE hour >= strftime('%Y-%m-%d %H:00', 'now', ?)
+    ORDER BY count DESC, last_at DESC
+    LIMIT ?
+  `).all(`-${hours} hours`, limit) as any[];
+
+  return rows.map(row => ({
+    ip: row.ip,
+    bucket: row.bucket,
+    hour: row.hour,
+    count: row.count,
+    lastAt: row.last_at,
+  }));
+}
+
+export interface StoredBucket {
+  key: string;
+  tokens: number;
+  updatedAt: number;
+  fullAt: number;
+}
+
+/** Buckets that haven't refilled yet at `now` (ms) */
+export function loadRateLimitBuckets(now: number): StoredBucket[] {
+  const rows = getDatabase().prepare(
+    'SELECT * FROM rate_limit_buckets WHERE full_at > ?'
+  ).all(now) as any[];
+
+  return rows.map(row => ({ key: row.key, tokens: row.tokens, updatedAt: row.updated_at, fullAt: row.full_at }));
+}
+
+/** Replace the stored buckets with the limiter's current state */
+export function saveRateLimitBuckets(buckets: StoredBucket[]): void {
+  const database = getDatabase();
+  const insert = database.prepare(
+    'INSERT INTO rate_limit_buckets (key, tokens, updated_at, full_at) VALUES (?, ?, ?, ?)'
+  );
+  database.transaction(() => {
+    database.prepare('DELETE FROM rate_limit_buckets').run();
+    for (const b of buckets) insert.run(b.key, b.tokens, b.updatedAt, b.fullAt);
+  })();
+}
+
+// ── Settings ───────────────────────────────────────────────
+
+/** Stored value for key, creating it with create() the first time */
+export function getOrCreateSetting(key: string, create: () => string): string {
+  const database = getDatabase();
+  const row = database.prepare('SELECT value FROM settings WHERE key = ?').get(key) as any;
+  if (row) return row.value;
+
+  const value = create();
+  database.prepare('INSERT INTO settings (key, value) VALUES (?, ?)').run(key, value);
+  return value;
+}
+
 // ── Admin Sessions ─────────────────────────────────────────
 
 export function recordAdminVisit(): string {
@@ -263,6 +772,19 @@ export function getLastAdminVisit(): string | null {
 
 // ── Row Mappers ────────────────────────────────────────────
 
+function rowToJob(row: any): Job {
+  return {
+    id: row.id,
+    conversationId: row.conversation_id,
+    status: row.status,
+    attempts: row.attempts,
+    lastError: row.last_error,
+    runAfter: row.run_after,
+    createdAt: row.created_at,
+    updatedAt: row.updated_at,
+  };
+}
+
 function rowToConversation(row: any): Conversation {
   return {
     id: row.id,
@@ -271,8 +793,12 @@ function rowToConversation(row: any): Conversation {
     summary: row.summary,
     tags: JSON.parse(row.tags || '[]'),
     spam: !!row.spam,
+    spamMark: row.spam_mark === null || row.spam_mark === undefined ? null : !!row.spam_mark,
     seen: !!row.seen,
     pinned: !!row.pinned,
+    paused: !!row.paused,
+    leftMessage: row.left_message ?? null,
+    messageLeftAt: row.message_left_at ?? null,
     createdAt: row.created_at,
     updatedAt: row.updated_at,
   };
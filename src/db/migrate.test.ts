@@ -0,0 +1,89 @@
+import { describe, it, expect, afterEach } from 'vitest';
+import { existsSync, mkdtempSync, rmSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import Database from 'better-sqlite3';
+import { runMigrations, pendingMigrations, getSchemaVersion, type Migration } from './migrate.js';
+import { MIGRATIONS } from './migrations/index.js';
+
+const notes: Migration = {
+  name: 'notes table',
+  up: db => db.exec('CREATE TABLE notes (id INTEGER PRIMARY KEY, kind TEXT CHECK (kind IN (\'a\')))'),
+};
+
+// Widening a CHECK constraint means rebuilding the table
+const widenKinds: Migration = {
+  name: 'allow kind b',
+  up: db => db.exec(`
+    CREATE TABLE notes_new (id INTEGER PRIMARY KEY, kind TEXT CHECK (kind IN ('a', 'b')));
+    INSERT INTO notes_new SELECT * FROM notes;
+    DROP TABLE notes;
+    ALTER TABLE notes_new RENAME TO notes;
+  `),
+};
+
+let dir: string | undefined;
+
+afterEach(() => {
+  if (dir) rmSync(dir, { recursive: true, force: true });
+  dir = undefined;
+});
+
+describe('runMigrations', () => {
+  it('runs pending migrations in order and records the version', () => {
+    const db = new Database(':memory:');
+    expect(pendingMigrations(db, [notes, widenKinds])).toEqual([
+      { version: 1, name: 'notes table' },
+      { version: 2, name: 'allow kind b' },
+    ]);
+
+    runMigrations(db, { migrations: [notes] });
+    db.prepare("INSERT INTO notes (kind) VALUES ('a')").run();
+    expect(runMigrations(db, { migrations: [notes, widenKinds] })).toEqual({ from: 1, to: 2, backup: null });
+
+    db.prepare("INSERT INTO notes (kind) VALUES ('b')").run();
+    expect(db.prepare('SELECT COUNT(*) AS n FROM notes').get()).toEqual({ n: 2 });
+    expect(pendingMigrations(db, [notes, widenKinds])).toEqual([]);
+  });
+
+  it('rolls back a failed migration and keeps the last good version', () => {
+    const db = new Database(':memory:');
+    const broken: Migration = {
+      name: 'broken',
+      up: db => db.exec('CREATE TABLE half (id INTEGER); INSERT INTO nowhere VALUES (1)'),
+    };
+
+    expect(() => runMigrations(db, { migrations: [notes, broken] })).toThrow(/^Migration 2 \(broken\) failed: no such table: nowhere/);
+    expect(getSchemaVersion(db)).toBe(1);
+    expect(db.prepare("SELECT name FROM sqlite_master WHERE name = 'half'").get()).toBeUndefined();
+  });
+
+  it('refuses a database from a newer aure', () => {
+    const db = new Database(':memory:');
+    db.pragma('user_version = 5');
+    expect(() => runMigrations(db, { migrations: [notes] })).toThrow(/version 5, but this aure only knows up to 1/);
+  });
+
+  it('backs up an existing database file before migrating', () => {
+    dir = mkdtempSync(join(tmpdir(), 'aure-db-'));
+    const file = join(dir, 'aure.db');
+    const db = new Database(file);
+
+    // A brand-new file has nothing worth keeping
+    expect(runMigrations(db, { file, migrations: [notes] }).backup).toBeNull();
+
+    const { backup } = runMigrations(db, { file, migrations: [notes, widenKinds] });
+    expect(backup).toMatch(/aure\.db\.v1-\d{8}-\d{6}\.bak$/);
+    expect(existsSync(backup!)).toBe(true);
+    const copy = new Database(backup!, { readonly: true });
+    expect(getSchemaVersion(copy)).toBe(1);
+    copy.close();
+    db.close();
+  });
+
+  it('brings a fresh database to the latest version', () => {
+    const db = new Database(':memory:');
+    runMigrations(db);
+    expect(getSchemaVersion(db)).toBe(MIGRATIONS.length);
+  });
+});
@@ -0,0 +1,96 @@
+/**
+ * Schema migrations for aure.db, keyed on PRAGMA user_version.
+ *
+ * Migration n takes the database from version n-1 to n. Each runs in
+ * its own transaction together with the version bump, so a failure
+ * leaves the database at the last version that worked. Foreign keys
+ * are off while migrating (a migration may rebuild a table) and are
+ * checked before each commit.
+ *
+ * Before an existing database file is migrated, a copy is saved next
+ * to it: aure.db.v3-20261019-181500.bak.
+ */
+
+import type Database from 'better-sqlite3';
+import { MIGRATIONS } from './migrations/index.js';
+
+export interface Migration {
+  /** Shown in logs and the dry run, e.g. "add search index" */
+  name: string;
+  up(db: Database.Database): void;
+}
+
+export interface PendingMigration {
+  version: number;
+  name: string;
+}
+
+export interface MigrationResult {
+  from: number;
+  to: number;
+  /** Where the pre-migration copy went (null: nothing to back up) */
+  backup: string | null;
+}
+
+export function getSchemaVersion(db: Database.Database): number {
+  return db.pragma('user_version', { simple: true }) as number;
+}
+
+/** Migrations the database hasn't run yet, in order */
+export function pendingMigrations(db: Database.Database, migrations = MIGRATIONS): PendingMigration[] {
+  const current = getSchemaVersion(db);
+  if (current > migrations.length) {
+    throw new Error(`Database is at version ${current}, but this aure only knows up to ${migrations.length} — update aure`);
+  }
+  return migrations.slice(current).map((m, i) => ({ version: current + i + 1, name: m.name }));
+}
+
+/**
+ * Bring the database up to date. `file` is where it lives on disk, for
+ * the backup; without one (e.g. ":memory:") there is none.
+ */
+export function runMigrations(
+  db: Database.Database,
+  opts: { file?: string; migrations?: Migration[] } = {}
+): MigrationResult {
+  const migrations = opts.migrations ?? MIGRATIONS;
+  const pending = pendingMigrations(db, migrations);
+  const from = getSchemaVersion(db);
+  if (pending.length === 0) return { from, to: from, backup: null };
+
+  const backup = opts.file && hasTables(db) ? backupPath(opts.file, from) : null;
+  if (backup) db.prepare('VACUUM INTO ?').run(backup);
+
+  const foreignKeys = db.pragma('foreign_keys', { simple: true });
+  db.pragma('foreign_keys = OFF');
+  try {
+    for (const { version, name } of pending) {
+      db.transaction(() => {
+        try {
+          migrations[version - 1].up(db);
+        } catch (error) {
+          throw new Error(`Migration ${version} (${name}) failed: ${error instanceof Error ? error.message : error}`);
+        }
+        const violations = db.pragma('foreign_key_check') as unknown[];
+        if (violations.length > 0) {
+          throw new Error(`Migration ${version} (${name}) broke ${violations.length} foreign key reference(s)`);
+        }
+        db.pragma(`user_version = ${version}`);
+      })();
+    }
+  } finally {
+    db.pragma(`foreign_keys = ${foreignKeys ? 'ON' : 'OFF'}`);
+  }
+
+  return { from, to: getSchemaVersion(db), backup };
+}
+
+function hasTables(db: Database.Database): boolean {
+  return !!db.prepare("SELECT 1 FROM sqlite_master WHERE type = 'table'").get();
+}
+
+/** aure.db → aure.db.v3-20261019-181500.bak */
+function backupPath(file: string, version: number): string {
+  const stamp = new Date().toISOString().slice(0, 19).replace(/[-:]/g, '').replace('T', '-');
+  return `${file}.v${version}-${stamp}.bak`;
+}
@@ -0,0 +1,178 @@
+/**
+ * Migration 1 — the schema as it was before versioned migrations.
+ *
+ * Two core tables: conversations and messages,
+ * plus cached LLM summaries for the admin digest,
+ * the queue of LLM reply jobs, rate limiter state and the
+ * full-text search index.
+ *
+ * Databases from before migrations (user_version 0) may have any
+ * earlier shape, so everything here is "if not exists": tables,
+ * then the columns added since the first release, then a full
+ * rebuild of the search index.
+ */
+
+import type Database from 'better-sqlite3';
+import type { Migration } from '../migrate.js';
+
+export const baseline: Migration = {
+  name: 'baseline schema',
+  up(db) {
+    db.exec(`
+      CREATE TABLE IF NOT EXISTS conversations (
+        id            TEXT PRIMARY KEY,
+        visitor_name  TEXT,
+        visitor_email TEXT,
+        summary       TEXT,
+        tags          TEXT DEFAULT '[]',    -- JSON array of strings
+        spam          INTEGER DEFAULT 0,
+        seen          INTEGER DEFAULT 0,
+        pinned        INTEGER DEFAULT 0,
+        paused        INTEGER DEFAULT 0,    -- owner took over, no auto-replies
+        form_state    TEXT,                 -- JSON: message form in progress
+        left_message  TEXT,                 -- message left through the form
+        message_left_at TEXT,
+        created_at    TEXT NOT NULL DEFAULT (datetime('now')),
+        updated_at    TEXT NOT NULL DEFAULT (datetime('now'))
+      );
+
+      CREATE TABLE IF NOT EXISTS messages (
+        id              TEXT PRIMARY KEY,
+        conversation_id TEXT NOT NULL REFERENCES conversations(id) ON DELETE CASCADE,
+        role            TEXT NOT NULL CHECK (role IN ('visitor', 'aure')),
+        content         TEXT NOT NULL DEFAULT '',
+        status          TEXT NOT NULL DEFAULT 'received' CHECK (status IN ('received', 'read', 'archived', 'spam', 'pending', 'error')),
+        metadata        TEXT DEFAULT '{}',  -- JSON object
+        created_at      TEXT NOT NULL DEFAULT (datetime('now'))
+      );
+
+      -- Index for fetching messages by conversation, newest first
+      CREATE INDEX IF NOT EXISTS idx_messages_conversation
+        ON messages(conversation_id, created_at DESC);
+
+      -- Index for admin panel: unseen conversations first
+      CREATE INDEX IF NOT EXISTS idx_conversations_unseen
+        ON conversations(seen, updated_at DESC);
+
+      -- Index for spam filtering
+      CREATE INDEX IF NOT EXISTS idx_conversations_spam
+        ON conversations(spam);
+
+      -- Full-text search for the admin: message text, and the visitor's name
+      -- and email. External content tables (the text lives in messages and
+      -- conversations), kept in sync by the triggers below.
+      CREATE VIRTUAL TABLE IF NOT EXISTS messages_fts USING fts5(
+        content, content = 'messages', content_rowid = 'rowid',
+        tokenize = 'unicode61 remove_diacritics 2'
+      );
+
+      CREATE VIRTUAL TABLE IF NOT EXISTS conversations_fts USING fts5(
+        visitor_name, visitor_email, content = 'conversations', content_rowid = 'rowid',
+        tokenize = 'unicode61 remove_diacritics 2'
+      );
+
+      CREATE TRIGGER IF NOT EXISTS messages_fts_insert AFTER INSERT ON messages BEGIN
+        INSERT INTO messages_fts (rowid, content) VALUES (new.rowid, new.content);
+      END;
+
+      CREATE TRIGGER IF NOT EXISTS messages_fts_delete AFTER DELETE ON messages BEGIN
+        INSERT INTO messages_fts (messages_fts, rowid, content) VALUES ('delete', old.rowid, old.content);
+      END;
+
+      -- Pending messages get their content when resolved
+      CREATE TRIGGER IF NOT EXISTS messages_fts_update AFTER UPDATE OF content ON messages BEGIN
+        INSERT INTO messages_fts (messages_fts, rowid, content) VALUES ('delete', old.rowid, old.content);
+        INSERT INTO messages_fts (rowid, content) VALUES (new.rowid, new.content);
+      END;
+
+      CREATE TRIGGER IF NOT EXISTS conversations_fts_insert AFTER INSERT ON conversations BEGIN
+        INSERT INTO conversations_fts (rowid, visitor_name, visitor_email)
+        VALUES (new.rowid, new.visitor_name, new.visitor_email);
+      END;
+
+      CREATE TRIGGER IF NOT EXISTS conversations_fts_delete AFTER DELETE ON conversations BEGIN
+        INSERT INTO conversations_fts (conversations_fts, rowid, visitor_name, visitor_email)
+        VALUES ('delete', old.rowid, old.visitor_name, old.visitor_email);
+      END;
+
+      CREATE TRIGGER IF NOT EXISTS conversations_fts_update AFTER UPDATE OF visitor_name, visitor_email ON conversations BEGIN
+        INSERT INTO conversations_fts (conversations_fts, rowid, visitor_name, visitor_email)
+        VALUES ('delete', old.rowid, old.visitor_name, old.visitor_email);
+        INSERT INTO conversations_fts (rowid, visitor_name, visitor_email)
+        VALUES (new.rowid, new.visitor_name, new.visitor_email);
+      END;
+
+      -- LLM digest data per conversation (summary + tags live on conversations).
+      -- message_rowid is the last message summarised: newer messages → regenerate.
+      CREATE TABLE IF NOT EXISTS conversation_summaries (
+        conversation_id TEXT PRIMARY KEY REFERENCES conversations(id) ON DELETE CASCADE,
+        topic           TEXT NOT NULL DEFAULT '',
+        relevance       REAL NOT NULL DEFAULT 0.5,
+        message_rowid   INTEGER NOT NULL,
+        created_at      TEXT NOT NULL DEFAULT (datetime('now'))
+      );
+
+      -- LLM reply jobs, so a restart doesn't strand a pending message.
+      -- id is the pending aure message the job resolves. Finished jobs are
+      -- deleted; failed ones stay as the dead-letter list.
+      CREATE TABLE IF NOT EXISTS jobs (
+        id              TEXT PRIMARY KEY REFERENCES messages(id) ON DELETE CASCADE,
+        conversation_id TEXT NOT NULL REFERENCES conversations(id) ON DELETE CASCADE,
+        status          TEXT NOT NULL DEFAULT 'queued' CHECK (status IN ('queued', 'running', 'failed')),
+        attempts        INTEGER NOT NULL DEFAULT 0,
+        last_error      TEXT,
+        run_after       TEXT,               -- retry backoff: not before this time
+        created_at      TEXT NOT NULL DEFAULT (datetime('now')),
+        updated_at      TEXT NOT NULL DEFAULT (datetime('now'))
+      );
+
+      CREATE INDEX IF NOT EXISTS idx_jobs_status
+        ON jobs(status, updated_at DESC);
+
+      -- Throttled visitor requests, counted per IP, bucket and hour
+      CREATE TABLE IF NOT EXISTS throttled_requests (
+        ip      TEXT NOT NULL,
+        bucket  TEXT NOT NULL,              -- 'ip', 'conversation' or 'global'
+        hour    TEXT NOT NULL,              -- e.g. '2026-10-19 18:00'
+        count   INTEGER NOT NULL DEFAULT 0,
+        last_at TEXT NOT NULL,
+        PRIMARY KEY (ip, bucket, hour)
+      );
+
+      -- Rate limiter buckets (only with rateLimit.persist). Times in ms.
+      CREATE TABLE IF NOT EXISTS rate_limit_buckets (
+        key        TEXT PRIMARY KEY,
+        tokens     REAL NOT NULL,
+        updated_at INTEGER NOT NULL,
+        full_at    INTEGER NOT NULL         -- refilled by then: safe to forget
+      );
+
+      -- Server-wide values that must survive restarts (e.g. generated secrets)
+      CREATE TABLE IF NOT EXISTS settings (
+        key   TEXT PRIMARY KEY,
+        value TEXT NOT NULL
+      );
+
+      -- Admin digest tracking — when was the last admin visit?
+      CREATE TABLE IF NOT EXISTS admin_sessions (
+        id         TEXT PRIMARY KEY,
+        visited_at TEXT NOT NULL DEFAULT (datetime('now'))
+      );
+    `);
+
+    addColumnIfMissing(db, 'conversations', 'paused', 'INTEGER DEFAULT 0');
+    addColumnIfMissing(db, 'conversations', 'form_state', 'TEXT');
+    addColumnIfMissing(db, 'conversations', 'left_message', 'TEXT');
+    addColumnIfMissing(db, 'conversations', 'message_left_at', 'TEXT');
+
+    db.exec("INSERT INTO messages_fts (messages_fts) VALUES ('rebuild')");
+    db.exec("INSERT INTO conversations_fts (conversations_fts) VALUES ('rebuild')");
+  },
+};
+
+function addColumnIfMissing(db: Database.Database, table: string, column: string, definition: string): void {
+  const columns = db.prepare(`PRAGMA table_info(${table})`).all() as { name: string }[];
+  if (!columns.some(c => c.name === column)) {
+    db.exec(`ALTER TABLE ${table} ADD COLUMN ${column} ${definition}`);
+  }
+}
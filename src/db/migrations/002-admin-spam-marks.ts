@@ -0,0 +1,18 @@
+/**
+ * Migration 2 — the admin's own spam verdicts, apart from `spam`.
+ *
+ * `spam` is also set by spam rules, bot checks and the classifier, so
+ * training on it taught the classifier its own verdicts. `spam_mark`
+ * is written only when an admin marks a conversation: 1 spam, 0 not
+ * spam, NULL never marked. Earlier marks can't be told apart from
+ * automatic flags and are not carried over.
+ */
+
+import type { Migration } from '../migrate.js';
+
+export const adminSpamMarks: Migration = {
+  name: 'admin spam marks',
+  up(db) {
+    db.exec('ALTER TABLE conversations ADD COLUMN spam_mark INTEGER');
+  },
+};
@@ -0,0 +1,20 @@
+/**
+ * All migrations, oldest first — the position is the version.
+ *
+ * To change the schema, add a file (002-what-it-does.ts) exporting a
+ * Migration and append it here. Never edit or reorder one that has
+ * shipped: deployed databases have already run it.
+ *
+ * SQLite can't alter a CHECK constraint or drop most columns in place;
+ * rebuild the table instead (create the new one, copy the rows, drop
+ * the old one, rename, recreate its indexes and triggers).
+ */
+
+import type { Migration } from '../migrate.js';
+import { baseline } from './001-baseline.js';
+import { adminSpamMarks } from './002-admin-spam-marks.js';
+
+export const MIGRATIONS: Migration[] = [
+  baseline,
+  adminSpamMarks,
+];
@@ -0,0 +1,55 @@
+/**
+ * `aure export` — archive conversations without the server running.
+ *
+ * JSON keeps everything and can be imported again (`npm run import`);
+ * markdown is a readable transcript, mbox opens in a mail client.
+ * Without ids, every conversation is exported (spam only with --spam).
+ *
+ * Usage: npm run export [-- --format json|markdown|mbox] [-- --spam] [-- --out file|-] [-- id ...]
+ */
+
+import 'dotenv/config';
+import { writeFileSync } from 'node:fs';
+import { resolve } from 'node:path';
+
+import * as db from './db/index.js';
+import { EXPORT_FORMATS, exportConversations, type ExportFormat } from './server/archive.js';
+
+const DB_PATH = process.env.AURE_DB_PATH ?? resolve(process.cwd(), 'aure.db');
+
+function main(): number {
+  const args = process.argv.slice(2);
+  const option = (name: string) => {
+    const i = args.indexOf(name);
+    return i === -1 ? undefined : args.splice(i, 2)[1];
+  };
+
+  const format = option('--format') ?? 'json';
+  const out = option('--out');
+  const spam = args.includes('--spam');
+  const ids = args.filter(a => !a.startsWith('--'));
+
+  if (!Object.hasOwn(EXPORT_FORMATS, format)) {
+    console.error(`  ✗ --format must be one of: ${Object.keys(EXPORT_FORMATS).join(', ')}`);
+    return 1;
+  }
+  const { extension } = EXPORT_FORMATS[format as ExportFormat];
+
+  db.initDatabase(DB_PATH);
+  const selected = ids.length > 0 ? ids : db.listConversationIds({ includeSpam: spam });
+  const missing = ids.filter(id => !db.getConversation(id));
+  for (const id of missing) console.error(`  ⚠  no conversation ${id}`);
+
+  const body = exportConversations(selected, format as ExportFormat);
+  if (out === '-') {
+    process.stdout.write(body);
+    return 0;
+  }
+
+  const file = resolve(out ?? `aure-${new Date().toISOString().slice(0, 10)}.${extension}`);
+  writeFileSync(file, body);
+  console.log(`  ✓ ${selected.length - missing.length} conversation(s) → ${file}`);
+  return 0;
+}
+
+process.exit(main());
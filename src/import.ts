@@ -0,0 +1,50 @@
+/**
+ * `aure import` — restore a JSON export into the database.
+ *
+ * Ids and timestamps are kept. Conversations already in the database
+ * are skipped as duplicates, so importing the same file twice is safe.
+ * Nothing is written if the file has any problem.
+ *
+ * Usage: npm run import -- aure-2026-10-19.json
+ */
+
+import 'dotenv/config';
+import { readFileSync } from 'node:fs';
+import { resolve } from 'node:path';
+
+import { initDatabase } from './db/index.js';
+import { ArchiveError, importArchive } from './server/archive.js';
+
+const DB_PATH = process.env.AURE_DB_PATH ?? resolve(process.cwd(), 'aure.db');
+
+function main(): number {
+  const file = process.argv[2];
+  if (!file) {
+    console.log('  Usage: npm run import -- <export.json>');
+    return 1;
+  }
+
+  console.log('');
+  console.log(`  aure import — ${resolve(file)} → ${DB_PATH}`);
+  console.log('');
+
+  try {
+    const archive = JSON.parse(readFileSync(file, 'utf-8'));
+    initDatabase(DB_PATH);
+    const { imported, duplicates } = importArchive(archive);
+    console.log(`  ✓ ${imported.length} imported`);
+    if (duplicates.length > 0) console.log(`  ·  ${duplicates.length} already there, skipped`);
+  } catch (error) {
+    const errors = error instanceof ArchiveError
+      ? error.errors
+      : [error instanceof Error ? error.message : String(error)];
+    for (const e of errors) console.log(`  ✗ ${e}`);
+    console.log('');
+    return 1;
+  }
+
+  console.log('');
+  return 0;
+}
+
+process.exit(main());
@@ -11,11 +11,21 @@ import { Hono } from 'hono';
 import { serveStatic } from '@hono/node-server/serve-static';
 import { resolve } from 'node:path';
 
-import { initDatabase } from './db/index.js';
+import { getOrCreateSetting, initDatabase } from './db/index.js';
 import { loadData } from './core/data-loader.js';
+import { ConfigValidationError } from './core/schema.js';
 import { createResponder } from './core/responder.js';
+import { createSourceRetriever, type SourceRetriever } from './core/retrieval.js';
+import { watchData } from './core/reloader.js';
 import { createLLMAdapter } from './llm/index.js';
 import { createAPI } from './server/api.js';
+import { startSummarizer } from './server/digest.js';
+import { configureQueue, recoverJobs } from './server/jobs.js';
+import { initRateLimit } from './server/ratelimit.js';
+import { initSessions } from './server/session.js';
+import { initAntibot } from './server/antibot.js';
+import { initClassifier } from './server/classifier.js';
+import { initNotifications } from './notify/index.js';
 
 const DATA_DIR = process.env.AURE_DATA_DIR ?? resolve(process.cwd(), 'data');
 const DB_PATH = process.env.AURE_DB_PATH ?? resolve(process.cwd(), 'aure.db');
@@ -31,13 +41,14 @@ async function main() {
   // 1. Load data
   console.log(`  data:  ${DATA_DIR}`);
   const data = loadData(DATA_DIR);
+  for (const warning of data.warnings) console.warn(`  ⚠  ${warning}`);
 
   // 2. Initialize database
   console.log(`  db:    ${DB_PATH}`);
   initDatabase(DB_PATH);
 
   // 3. Create LLM adapter
-  const llm = createLLMAdapter(data.config.provider);
+  const llm = createLLMAdapter(data.config.provider, data.config.fallback);
   console.log(`  llm:   ${llm.name}`);
 
   // Check LLM health
@@ -48,7 +59,14 @@ async function main() {
     console.log('  llm:   ✓ connected');
   }
 
-  // 4. Create responder
+  // 4. Index data sources (retrieval mode only)
+  let retriever: SourceRetriever | undefined;
+  if (data.config.retrieval?.enabled) {
+    console.log('  index: retrieval mode — ingesting sources...');
+    retriever = await createSourceRetriever(DATA_DIR, data.config.sources ?? [], data.config.retrieval);
+  }
+
+  // 5. Create responder
   const responder = createResponder({
     persona: data.persona,
     rules: data.rules,
@@ -56,9 +74,39 @@ async function main() {
     chunks: data.chunks,
     memories: data.memories,
     llm,
+    retriever,
   });
 
-  // 5. Create server
+  // Owner notifications (webhook, email, ntfy) — no-op when none configured
+  const notifications = data.config.notifications ?? [];
+  initNotifications(notifications);
+
+  // Visitor session tokens (secret from config, or generated and stored in the db)
+  initSessions(data.config.session);
+
+  // Throttle visitor routes (per IP, per conversation, global)
+  initRateLimit(data.config.rateLimit);
+
+  // Honeypot, timing and proof-of-work checks on first messages
+  // (not for conversations started before the first run that had them)
+  initAntibot(data.config.antibot, getOrCreateSetting('antibot_since', () => new Date().toISOString()));
+
+  // Spam classifier, trained on the spam marks so far
+  if (data.config.spamClassifier?.enabled) {
+    const trained = initClassifier(data.config.spamClassifier);
+    console.log(`  spam:  classifier trained on ${trained.spam} spam / ${trained.ham} other messages`);
+  }
+
+  // One reply queue for all conversations (default: one generation at a time)
+  configureQueue(data.config.queue?.concurrency ?? 1);
+
+  // Replies a restart interrupted: re-queue recent ones, fail the rest
+  const recovered = recoverJobs(responder);
+  if (recovered.requeued + recovered.failed > 0) {
+    console.log(`  jobs:  ${recovered.requeued} re-queued, ${recovered.failed} marked error`);
+  }
+
+  // 6. Create server
   const app = new Hono();
 
   // Static files (frontend) — must be before API so `/` serves index.html
@@ -73,7 +121,7 @@ async function main() {
   // Fallback to index.html for non-API, non-static paths
   app.get('*', serveStatic({ root: './web/dist', path: 'index.html' }));
 
-  // 6. Start
+  // 7. Start
   const port = data.config.server.port ?? 3000;
   const host = data.config.server.host ?? '0.0.0.0';
 
@@ -86,13 +134,29 @@ async function main() {
     console.log(`  ✓ listening on http://${host}:${port}`);
     console.log(`  ✓ persona: ${data.persona.name}`);
     console.log(`  ✓ rules: ${data.rules.length} active, ${data.spamRules.length} spam filters`);
-    console.log(`  ✓ data sources: ${data.chunks.length} chunks loaded`);
+    console.log(`  ✓ data sources: ${data.chunks.length} chunks loaded${retriever ? ' (retrieval mode)' : ''}`);
     console.log(`  ✓ memories: ${data.memories.length} loaded`);
+    if (notifications.length > 0) {
+      console.log(`  ✓ notifications: ${notifications.map(n => n.type).join(', ')}`);
+    }
     console.log('');
   });
+
+  // 8. Watch data directory — edits apply without a restart
+  watchData(DATA_DIR, responder, data.config, retriever);
+
+  // 9. Summarise quiet conversations for the admin digest
+  if (data.config.digest?.enabled !== false) {
+    startSummarizer(llm, data.config.digest);
+  }
 }
 
 main().catch((error) => {
+  if (error instanceof ConfigValidationError) {
+    console.error(`Failed to start aure. ${error.message}`);
+    console.error('Run `npm run check` after fixing to validate the data directory.');
+    process.exit(1);
+  }
   console.error('Failed to start aure:', error);
   process.exit(1);
 });
@@ -0,0 +1,166 @@
+import { describe, it, expect } from 'vitest';
+import { createAnthropicAdapter, toAnthropicMessages } from './anthropic.js';
+import { useHttpServer } from '../test/http-server.js';
+
+const server = useHttpServer('', (_req, _body, res) => {
+  res.writeHead(200, { 'Content-Type': 'application/json' });
+  res.end(JSON.stringify({
+    content: [{ type: 'text', text: 'Hello ' }, { type: 'text', text: 'there' }],
+    usage: { input_tokens: 30, output_tokens: 2 },
+  }));
+});
+
+describe('toAnthropicMessages', () => {
+  it('lifts system messages into the system field', () => {
+    const { system, turns } = toAnthropicMessages([
+      { role: 'system', content: 'You are aure.' },
+      { role: 'user', content: 'Hi' },
+    ]);
+    expect(system).toBe('You are aure.');
+    expect(turns).toEqual([{ role: 'user', content: 'Hi' }]);
+  });
+
+  it('merges consecutive same-role turns', () => {
+    const { turns } = toAnthropicMessages([
+      { role: 'user', content: 'What is this?' },
+      { role: 'assistant', content: 'An answering machine.' },
+      { role: 'assistant', content: 'Hey! Leave a message.' },
+      { role: 'user', content: 'First' },
+      { role: 'user', content: 'Second' },
+    ]);
+    expect(turns).toEqual([
+      { role: 'user', content: 'What is this?' },
+      { role: 'assistant', content: 'An answering machine.\n\nHey! Leave a message.' },
+      { role: 'user', content: 'First\n\nSecond' },
+    ]);
+  });
+
+  it('drops empty turns before merging', () => {
+    const { turns } = toAnthropicMessages([
+      { role: 'user', content: 'One' },
+      { role: 'assistant', content: '' },
+      { role: 'user', content: 'Two' },
+    ]);
+    expect(turns).toEqual([{ role: 'user', content: 'One\n\nTwo' }]);
+  });
+
+  it('opens with a user turn when history starts with the greeting', () => {
+    const { turns } = toAnthropicMessages([
+      { role: 'system', content: 'S' },
+      { role: 'assistant', content: 'Hey!' },
+      { role: 'user', content: 'Hi' },
+    ]);
+    expect(turns[0].role).toBe('user');
+    expect(turns[1]).toEqual({ role: 'assistant', content: 'Hey!' });
+    expect(turns[2]).toEqual({ role: 'user', content: 'Hi' });
+  });
+});
+
+describe('anthropic adapter', () => {
+  it('posts to /v1/messages with headers, system and turns', async () => {
+    const llm = createAnthropicAdapter({
+      type: 'anthropic', apiKey: 'sk-ant-test', baseUrl: server.baseUrl, model: 'claude-test', maxTokens: 100, temperature: 0.3,
+    });
+
+    const result = await llm.chat([
+      { role: 'system', content: 'Be brief.' },
+      { role: 'user', content: 'Hi' },
+    ]);
+
+    expect(server.requests[0].method).toBe('POST');
+    expect(server.requests[0].url).toBe('/v1/messages');
+    expect(server.requests[0].headers['x-api-key']).toBe('sk-ant-test');
+    expect(server.requests[0].headers['anthropic-version']).toBe('2023-06-01');
+
+    const body = JSON.parse(server.requests[0].body);
+    expect(body).toEqual({
+      model: 'claude-test',
+      max_tokens: 100,
+      temperature: 0.3,
+      system: 'Be brief.',
+      messages: [{ role: 'user', content: 'Hi' }],
+    });
+
+    expect(result.content).toBe('Hello there');
+    expect(result.usage).toEqual({ promptTokens: 30, completionTokens: 2 });
+  });
+
+  it('never sends an empty list of turns', async () => {
+    const llm = createAnthropicAdapter({ type: 'anthropic', apiKey: 'k', baseUrl: server.baseUrl });
+    await llm.chat([{ role: 'system', content: 'Summarize the day.' }, { role: 'assistant', content: '' }]);
+
+    const body = JSON.parse(server.requests[0].body);
+    expect(body.system).toBe('Summarize the day.');
+    expect(body.messages).toEqual([{ role: 'user', content: '(The visitor opened the chat.)' }]);
+  });
+
+  it('throws with status and body on non-ok response', async () => {
+    server.setHandler((_req, _body, res) => {
+      res.writeHead(529);
+      res.end('{"type":"error","error":{"type":"overloaded_error"}}');
+    });
+
+    const llm = createAnthropicAdapter({ type: 'anthropic', apiKey: 'k', baseUrl: server.baseUrl });
+    await expect(llm.chat([{ role: 'user', content: 'Hi' }]))
+      .rejects.toThrow('Anthropic error (529)');
+  });
+
+  it('aborts when the external signal fires', async () => {
+    server.setHandler(() => { /* never respond */ });
+
+    const llm = createAnthropicAdapter({ type: 'anthropic', apiKey: 'k', baseUrl: server.baseUrl });
+    const controller = new AbortController();
+    const pending = llm.chat([{ role: 'user', content: 'Hi' }], controller.signal);
+    setTimeout(() => controller.abort(), 20);
+
+    await expect(pending).rejects.toMatchObject({ name: 'AbortError' });
+  });
+
+  it('times out with a TimeoutError', async () => {
+    server.setHandler(() => { /* never respond */ });
+
+    const llm = createAnthropicAdapter({ type: 'anthropic', apiKey: 'k', baseUrl: server.baseUrl, timeout: 0.05 });
+    await expect(llm.chat([{ role: 'user', content: 'Hi' }]))
+      .rejects.toMatchObject({ name: 'TimeoutError' });
+  });
+
+  it('health() checks /v1/models', async () => {
+    const llm = createAnthropicAdapter({ type: 'anthropic', apiKey: 'k', baseUrl: server.baseUrl });
+    expect(await llm.health()).toBe(true);
+    expect(server.requests[0].url).toBe('/v1/models');
+  });
+
+  it('chatStream() yields text deltas then the full response with usage', async () => {
+    server.setHandler((_req, _body, res) => {
+      res.writeHead(200, { 'Content-Type': 'text/event-stream' });
+      res.write('event: message_start\ndata: {"type":"message_start","message":{"usage":{"input_tokens":11,"output_tokens":1}}}\n\n');
+      res.write('event: content_block_delta\ndata: {"type":"content_block_delta","index":0,"delta":{"type":"text_delta","text":"Hi "}}\n\n');
+      res.write('event: ping\ndata: {"type":"ping"}\n\n');
+      res.write('event: content_block_delta\ndata: {"type":"content_block_delta","index":0,"delta":{"type":"text_delta","text":"there"}}\n\n');
+      res.write('event: message_delta\ndata: {"type":"message_delta","usage":{"output_tokens":3}}\n\n');
+      res.end('event: message_stop\ndata: {"type":"message_stop"}\n\n');
+    });
+
+    const llm = createAnthropicAdapter({ type: 'anthropic', apiKey: 'k', baseUrl: server.baseUrl });
+    const events = [];
+    for await (const event of llm.chatStream([{ role: 'user', content: 'Hi' }])) events.push(event);
+
+    expect(JSON.parse(server.requests[0].body).stream).toBe(true);
+    expect(events).toEqual([
+      { type: 'token', content: 'Hi ' },
+      { type: 'token', content: 'there' },
+      { type: 'done', response: { content: 'Hi there', usage: { promptTokens: 11, completionTokens: 3 } } },
+    ]);
+  });
+
+  it('chatStream() throws on an error event', async () => {
+    server.setHandler((_req, _body, res) => {
+      res.writeHead(200, { 'Content-Type': 'text/event-stream' });
+      res.end('event: error\ndata: {"type":"error","error":{"type":"overloaded_error","message":"Overloaded"}}\n\n');
+    });
+
+    const llm = createAnthropicAdapter({ type: 'anthropic', apiKey: 'k', baseUrl: server.baseUrl });
+    const drain = async () => { for await (const _ of llm.chatStream([{ role: 'user', content: 'Hi' }])) { /* drain */ } };
+    await expect(drain()).rejects.toThrow('Anthropic error: Overloaded');
+  });
+});
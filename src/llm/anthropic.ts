@@ -0,0 +1,182 @@
+/**
+ * Anthropic adapter — talks to the Messages API.
+ *
+ * The Messages API is stricter than Ollama's /api/chat:
+ * the system prompt is a top-level field, and user/assistant
+ * turns must strictly alternate, starting with a user turn.
+ * Memories and queued visitor messages can produce consecutive
+ * same-role turns, so they are merged before sending.
+ */
+
+import type { AnthropicProvider } from '../types/index.js';
+import type { LLMAdapter, LLMMessage, LLMResponse, LLMStreamEvent } from './provider.js';
+import { withTimeout } from './signal.js';
+import { readSSEData } from './stream.js';
+
+const DEFAULTS = {
+  baseUrl: 'https://api.anthropic.com',
+  model: 'claude-sonnet-4-20250514',
+  maxTokens: 1024,
+  temperature: 0.7,
+  timeout: 120,
+};
+
+const API_VERSION = '2023-06-01';
+
+/** Stand-in first turn when the history opens with aure's greeting, or is empty */
+const OPENING_TURN = '(The visitor opened the chat.)';
+
+interface AnthropicTurn {
+  role: 'user' | 'assistant';
+  content: string;
+}
+
+export function createAnthropicAdapter(config: AnthropicProvider): LLMAdapter {
+  const baseUrl = (config.baseUrl ?? DEFAULTS.baseUrl).replace(/\/+$/, '');
+  const model = config.model ?? DEFAULTS.model;
+  const maxTokens = config.maxTokens ?? DEFAULTS.maxTokens;
+  const temperature = config.temperature ?? DEFAULTS.temperature;
+  const timeoutSec = config.timeout ?? DEFAULTS.timeout;
+
+  const headers = {
+    'Content-Type': 'application/json',
+    'x-api-key': config.apiKey,
+    'anthropic-version': API_VERSION,
+  };
+
+  async function request(messages: LLMMessage[], stream: boolean, signal?: AbortSignal): Promise<Response> {
+    const { system, turns } = toAnthropicMessages(messages);
+
+    const body: Record<string, unknown> = {
+      model,
+      max_tokens: maxTokens,
+      temperature,
+      messages: turns,
+    };
+    if (system) body.system = system;
+    if (stream) body.stream = true;
+
+    const response = await fetch(`${baseUrl}/v1/messages`, {
+      method: 'POST',
+      headers,
+      body: JSON.stringify(body),
+      signal: withTimeout(timeoutSec, signal),
+    });
+
+    if (!response.ok) {
+      const text = await response.text();
+      throw new Error(`Anthropic error (${response.status}): ${text}`);
+    }
+
+    return response;
+  }
+
+  return {
+    name: `anthropic/${model}`,
+    promptBudget: config.contextWindow ? config.contextWindow - maxTokens : undefined,
+
+    async chat(messages: LLMMessage[], signal?: AbortSignal): Promise<LLMResponse> {
+      const response = await request(messages, false, signal);
+      const data = await response.json() as any;
+      const content = Array.isArray(data.content)
+        ? data.content
+          .filter((block: any) => block.type === 'text')
+          .map((block: any) => block.text)
+          .join('')
+        : '';
+
+      return {
+        content,
+        usage: {
+          promptTokens: data.usage?.input_tokens,
+          completionTokens: data.usage?.output_tokens,
+        },
+      };
+    },
+
+    async *chatStream(messages: LLMMessage[], signal?: AbortSignal): AsyncIterable<LLMStreamEvent> {
+      const response = await request(messages, true, signal);
+      let content = '';
+      let promptTokens: number | undefined;
+      let completionTokens: number | undefined;
+
+      // Server-sent events — every data payload carries its own `type`
+      for await (const data of readSSEData(response)) {
+        let event: any;
+        try {
+          event = JSON.parse(data);
+        } catch {
+          continue; // skip malformed events
+        }
+
+        switch (event.type) {
+          case 'message_start':
+            promptTokens = event.message?.usage?.input_tokens;
+            break;
+
+          case 'content_block_delta':
+            if (event.delta?.type === 'text_delta' && event.delta.text) {
+              content += event.delta.text;
+              yield { type: 'token', content: event.delta.text };
+            }
+            break;
+
+          case 'message_delta':
+            completionTokens = event.usage?.output_tokens ?? completionTokens;
+            break;
+
+          case 'error':
+            throw new Error(`Anthropic error: ${event.error?.message ?? event.error?.type ?? 'unknown'}`);
+        }
+      }
+
+      yield { type: 'done', response: { content, usage: { promptTokens, completionTokens } } };
+    },
+
+    async health(): Promise<boolean> {
+      try {
+        const response = await fetch(`${baseUrl}/v1/models`, {
+          headers: { 'x-api-key': config.apiKey, 'anthropic-version': API_VERSION },
+        });
+        return response.ok;
+      } catch {
+        return false;
+      }
+    },
+  };
+}
+
+/**
+ * Map aure's message list to the Messages API shape.
+ *
+ * - system messages are joined into the top-level `system` field
+ * - empty turns are dropped (dropped/cancelled replies leave '' behind)
+ * - consecutive same-role turns are merged with a blank line
+ * - a leading assistant turn (the greeting) gets a stand-in user turn before it,
+ *   and so does a list with no turns at all — the API rejects `messages: []`
+ */
+export function toAnthropicMessages(messages: LLMMessage[]): { system: string; turns: AnthropicTurn[] } {
+  const systemParts: string[] = [];
+  const turns: AnthropicTurn[] = [];
+
+  for (const m of messages) {
+    if (m.role === 'system') {
+      if (m.content) systemParts.push(m.content);
+      continue;
+    }
+    if (!m.content.trim()) continue;
+
+    const last = turns[turns.length - 1];
+    if (last && last.role === m.role) {
+      last.content += '\n\n' + m.content;
+    } else {
+      turns.push({ role: m.role, content: m.content });
+    }
+  }
+
+  if (turns.length === 0 || turns[0].role === 'assistant') {
+    turns.unshift({ role: 'user', content: OPENING_TURN });
+  }
+
+  return { system: systemParts.join('\n\n'), turns };
+}
@@ -0,0 +1,159 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { createFallbackAdapter } from './fallback.js';
+import type { LLMAdapter, LLMStreamEvent } from './provider.js';
+
+function fakeAdapter(name: string, impl: LLMAdapter['chat'], healthy = true): LLMAdapter & { chat: ReturnType<typeof vi.fn> } {
+  const chat = vi.fn(impl);
+  return {
+    name,
+    chat,
+    async *chatStream(messages, signal) {
+      const response = await chat(messages, signal);
+      for (const word of response.content.split(' ')) {
+        yield { type: 'token' as const, content: word };
+      }
+      yield { type: 'done' as const, response };
+    },
+    health: async () => healthy,
+  };
+}
+
+async function drain(stream: AsyncIterable<LLMStreamEvent>): Promise<LLMStreamEvent[]> {
+  const events: LLMStreamEvent[] = [];
+  for await (const event of stream) events.push(event);
+  return events;
+}
+
+const ok = (content: string): LLMAdapter['chat'] => async () => ({ content });
+const fail = (message: string): LLMAdapter['chat'] => async () => { throw new Error(message); };
+
+afterEach(() => {
+  vi.useRealTimers();
+  vi.restoreAllMocks();
+});
+
+describe('fallback adapter', () => {
+  it('answers from the first healthy provider and records it', async () => {
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    const local = fakeAdapter('ollama/gemma3:1b', fail('connection refused'));
+    const lan = fakeAdapter('openai/qwen', ok('from LAN'));
+
+    const llm = createFallbackAdapter([local, lan]);
+    const result = await llm.chat([{ role: 'user', content: 'Hi' }]);
+
+    expect(result.content).toBe('from LAN');
+    expect(result.provider).toBe('openai/qwen');
+    expect(local.chat).toHaveBeenCalledOnce();
+  });
+
+  it('opens the breaker after the failure threshold and skips the provider', async () => {
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    const local = fakeAdapter('local', fail('OOM'));
+    const lan = fakeAdapter('lan', ok('ok'));
+
+    const llm = createFallbackAdapter([local, lan], { failureThreshold: 2, cooldown: 60 });
+    await llm.chat([]);
+    await llm.chat([]);
+    await llm.chat([]);
+
+    expect(local.chat).toHaveBeenCalledTimes(2);
+    expect(lan.chat).toHaveBeenCalledTimes(3);
+
+    const [localState, lanState] = llm.providers!();
+    expect(localState.state).toBe('open');
+    expect(localState.consecutiveFailures).toBe(2);
+    expect(localState.lastError).toBe('OOM');
+    expect(lanState.state).toBe('closed');
+    expect(lanState.lastSuccessAt).not.toBeNull();
+  });
+
+  it('retries a provider after the cooldown and closes on success', async () => {
+    vi.useFakeTimers();
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    let down = true;
+    const local = fakeAdapter('local', async () => {
+      if (down) throw new Error('stalled');
+      return { content: 'back' };
+    });
+    const lan = fakeAdapter('lan', ok('lan'));
+
+    const llm = createFallbackAdapter([local, lan], { failureThreshold: 1, cooldown: 30 });
+    await llm.chat([]);
+    expect(llm.providers!()[0].state).toBe('open');
+
+    down = false;
+    vi.advanceTimersByTime(31_000);
+
+    const result = await llm.chat([]);
+    expect(result.provider).toBe('local');
+    expect(llm.providers!()[0].state).toBe('closed');
+  });
+
+  it('tries every provider when all breakers are open', async () => {
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    const a = fakeAdapter('a', fail('a down'));
+    const b = fakeAdapter('b', fail('b down'));
+
+    const llm = createFallbackAdapter([a, b], { failureThreshold: 1 });
+    await expect(llm.chat([])).rejects.toThrow('b down');
+    await expect(llm.chat([])).rejects.toThrow('b down');
+
+    expect(a.chat).toHaveBeenCalledTimes(2);
+    expect(b.chat).toHaveBeenCalledTimes(2);
+  });
+
+  it('does not fall through or count a failure on cancellation', async () => {
+    const controller = new AbortController();
+    const local = fakeAdapter('local', async () => {
+      controller.abort();
+      throw new DOMException('aborted', 'AbortError');
+    });
+    const lan = fakeAdapter('lan', ok('lan'));
+
+    const llm = createFallbackAdapter([local, lan]);
+    await expect(llm.chat([], controller.signal)).rejects.toMatchObject({ name: 'AbortError' });
+
+    expect(lan.chat).not.toHaveBeenCalled();
+    expect(llm.providers!()[0].consecutiveFailures).toBe(0);
+  });
+
+  it('health() is true if any provider is reachable and records each probe', async () => {
+    const llm = createFallbackAdapter([
+      fakeAdapter('a', ok(''), false),
+      fakeAdapter('b', ok(''), true),
+    ]);
+
+    expect(await llm.health()).toBe(true);
+    expect(llm.providers!().map(p => p.reachable)).toEqual([false, true]);
+  });
+
+  it('chatStream() falls through before the first token and records the provider', async () => {
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    const llm = createFallbackAdapter([
+      fakeAdapter('local', fail('refused')),
+      fakeAdapter('lan', ok('hello there')),
+    ]);
+
+    const events = await drain(llm.chatStream([]));
+    expect(events.filter(e => e.type === 'token').map(e => e.type === 'token' && e.content)).toEqual(['hello', 'there']);
+    expect(events.at(-1)).toEqual({ type: 'done', response: { content: 'hello there', provider: 'lan' } });
+  });
+
+  it('chatStream() does not fall through once tokens were sent', async () => {
+    const broken: LLMAdapter = {
+      name: 'broken',
+      chat: ok(''),
+      async *chatStream() {
+        yield { type: 'token', content: 'partial' };
+        throw new Error('connection reset');
+      },
+      health: async () => true,
+    };
+    const lan = fakeAdapter('lan', ok('lan'));
+
+    const llm = createFallbackAdapter([broken, lan]);
+    await expect(drain(llm.chatStream([]))).rejects.toThrow('connection reset');
+    expect(lan.chat).not.toHaveBeenCalled();
+    expect(llm.providers!()[0].consecutiveFailures).toBe(1);
+  });
+});
@@ -0,0 +1,169 @@
+/**
+ * Fallback chain — an ordered list of providers behind one adapter.
+ *
+ * On a Pi, Ollama sometimes stalls or gets OOM-killed. Instead of
+ * failing the visitor's message, the chain tries the next provider
+ * (e.g. a LAN box, then a cloud API).
+ *
+ * Each provider has a simple circuit breaker: after `failureThreshold`
+ * consecutive failures it is skipped for `cooldown` seconds. After the
+ * cooldown it gets one more try (half-open) — success closes the
+ * breaker, failure opens it again. If every breaker is open, the chain
+ * tries them all anyway rather than fail without asking anyone.
+ *
+ * Cancellation is not a failure: if the caller's signal fired,
+ * the error propagates immediately and no breaker is touched.
+ *
+ * When streaming, a provider can only be skipped before its first
+ * token — once the visitor has seen tokens, a failure is final.
+ */
+
+import type { LLMAdapter, LLMMessage, LLMResponse, LLMStreamEvent, ProviderState } from './provider.js';
+
+export interface FallbackOptions {
+  /** Consecutive failures before a provider is skipped. Default: 2 */
+  failureThreshold?: number;
+  /** Seconds a failed provider is skipped. Default: 60 */
+  cooldown?: number;
+}
+
+const DEFAULTS = {
+  failureThreshold: 2,
+  cooldown: 60,
+};
+
+interface Entry {
+  adapter: LLMAdapter;
+  consecutiveFailures: number;
+  /** Epoch ms until which the breaker is open (0 = closed) */
+  openUntil: number;
+  lastError: string | null;
+  lastFailureAt: string | null;
+  lastSuccessAt: string | null;
+  reachable: boolean | null;
+}
+
+export function createFallbackAdapter(adapters: LLMAdapter[], options: FallbackOptions = {}): LLMAdapter {
+  if (adapters.length === 0) {
+    throw new Error('Fallback chain needs at least one provider');
+  }
+
+  const failureThreshold = options.failureThreshold ?? DEFAULTS.failureThreshold;
+  const cooldownMs = (options.cooldown ?? DEFAULTS.cooldown) * 1000;
+
+  const entries: Entry[] = adapters.map(adapter => ({
+    adapter,
+    consecutiveFailures: 0,
+    openUntil: 0,
+    lastError: null,
+    lastFailureAt: null,
+    lastSuccessAt: null,
+    reachable: null,
+  }));
+
+  function recordSuccess(entry: Entry): void {
+    entry.consecutiveFailures = 0;
+    entry.openUntil = 0;
+    entry.lastSuccessAt = new Date().toISOString();
+  }
+
+  function recordFailure(entry: Entry, error: unknown): void {
+    entry.consecutiveFailures++;
+    entry.lastError = error instanceof Error ? error.message : String(error);
+    entry.lastFailureAt = new Date().toISOString();
+    if (entry.consecutiveFailures >= failureThreshold) {
+      entry.openUntil = Date.now() + cooldownMs;
+    }
+  }
+
+  /** Breakers that allow a try right now; all of them if every breaker is open */
+  function candidates(): Entry[] {
+    const now = Date.now();
+    const ready = entries.filter(e => e.openUntil <= now);
+    return ready.length > 0 ? ready : entries;
+  }
+
+  // The prompt is built before we know who answers — fit the tightest budget
+  const budgets = adapters
+    .map(a => a.promptBudget)
+    .filter((b): b is number => b !== undefined);
+
+  return {
+    name: `fallback(${adapters.map(a => a.name).join(' → ')})`,
+    promptBudget: budgets.length > 0 ? Math.min(...budgets) : undefined,
+
+    async chat(messages: LLMMessage[], signal?: AbortSignal): Promise<LLMResponse> {
+      let lastError: unknown;
+      for (const entry of candidates()) {
+        try {
+          const response = await entry.adapter.chat(messages, signal);
+          recordSuccess(entry);
+          return { ...response, provider: response.provider ?? entry.adapter.name };
+        } catch (error) {
+          if (signal?.aborted) throw error;
+
+          recordFailure(entry, error);
+          lastError = error;
+          console.warn(`[aure] ${entry.adapter.name} failed: ${entry.lastError}`);
+        }
+      }
+
+      throw lastError;
+    },
+
+    async *chatStream(messages: LLMMessage[], signal?: AbortSignal): AsyncIterable<LLMStreamEvent> {
+      let lastError: unknown;
+      for (const entry of candidates()) {
+        let started = false;
+        try {
+          for await (const event of entry.adapter.chatStream(messages, signal)) {
+            if (event.type === 'token') {
+              started = true;
+              yield event;
+            } else {
+              recordSuccess(entry);
+              yield {
+                type: 'done',
+                response: { ...event.response, provider: event.response.provider ?? entry.adapter.name },
+              };
+              return;
+            }
+          }
+          throw new Error(`${entry.adapter.name} stream ended without a final response`);
+        } catch (error) {
+          if (signal?.aborted) throw error;
+
+          recordFailure(entry, error);
+          if (started) throw error;
+
+          lastError = error;
+          console.warn(`[aure] ${entry.adapter.name} failed: ${entry.lastError}`);
+        }
+      }
+
+      throw lastError;
+    },
+
+    async health(): Promise<boolean> {
+      const results = await Promise.all(entries.map(async entry => {
+        entry.reachable = await entry.adapter.health();
+        return entry.reachable;
+      }));
+      return results.some(Boolean);
+    },
+
+    providers(): ProviderState[] {
+      const now = Date.now();
+      return entries.map(entry => ({
+        name: entry.adapter.name,
+        state: entry.openUntil > now ? 'open' : 'closed',
+        consecutiveFailures: entry.consecutiveFailures,
+        openUntil: entry.openUntil > now ? new Date(entry.openUntil).toISOString() : null,
+        lastError: entry.lastError,
+        lastFailureAt: entry.lastFailureAt,
+        lastSuccessAt: entry.lastSuccessAt,
+        reachable: entry.reachable,
+      }));
+    },
+  };
+}
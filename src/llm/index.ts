@@ -8,27 +8,35 @@
 import type { LLMProvider } from '../types/index.js';
 import type { LLMAdapter } from './provider.js';
 import { createOllamaAdapter } from './ollama.js';
+import { createOpenAIAdapter } from './openai.js';
+import { createAnthropicAdapter } from './anthropic.js';
+import { createFallbackAdapter, type FallbackOptions } from './fallback.js';
 
-export type { LLMAdapter, LLMMessage, LLMResponse } from './provider.js';
+export type { LLMAdapter, LLMMessage, LLMResponse, ProviderState } from './provider.js';
+export type { FallbackOptions } from './fallback.js';
+
+/**
+ * A single provider gives a plain adapter. A list gives a fallback
+ * chain that tries them in order (see fallback.ts).
+ */
+export function createLLMAdapter(
+  config: LLMProvider | LLMProvider[],
+  fallback?: FallbackOptions
+): LLMAdapter {
+  if (Array.isArray(config)) {
+    if (config.length === 1) return createLLMAdapter(config[0]);
+    return createFallbackAdapter(config.map(p => createLLMAdapter(p)), fallback);
+  }
 
-export function createLLMAdapter(config: LLMProvider): LLMAdapter {
   switch (config.type) {
     case 'ollama':
       return createOllamaAdapter(config);
 
     case 'openai':
-      // Future: import { createOpenAIAdapter } from './openai.js';
-      throw new Error(
-        'OpenAI provider not yet implemented. ' +
-        'Contributions welcome — it\'s just a fetch() call to a different URL.'
-      );
+      return createOpenAIAdapter(config);
 
     case 'anthropic':
-      // Future: import { createAnthropicAdapter } from './anthropic.js';
-      throw new Error(
-        'Anthropic provider not yet implemented. ' +
-        'Contributions welcome — it\'s just a fetch() call to a different URL.'
-      );
+      return createAnthropicAdapter(config);
 
     default:
       throw new Error(`Unknown LLM provider type: ${(config as any).type}`);
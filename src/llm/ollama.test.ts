@@ -0,0 +1,81 @@
+import { describe, it, expect } from 'vitest';
+import { createOllamaAdapter } from './ollama.js';
+import type { LLMStreamEvent } from './provider.js';
+import { useHttpServer } from '../test/http-server.js';
+
+const server = useHttpServer();
+
+async function drain(stream: AsyncIterable<LLMStreamEvent>): Promise<LLMStreamEvent[]> {
+  const events: LLMStreamEvent[] = [];
+  for await (const event of stream) events.push(event);
+  return events;
+}
+
+describe('ollama adapter', () => {
+  it('chat() posts a non-streaming request', async () => {
+    server.setHandler((_req, _body, res) => {
+      res.writeHead(200, { 'Content-Type': 'application/json' });
+      res.end(JSON.stringify({ message: { content: 'Hi' }, prompt_eval_count: 5, eval_count: 1 }));
+    });
+
+    const llm = createOllamaAdapter({ type: 'ollama', baseUrl: server.baseUrl, model: 'gemma3:1b' });
+    const result = await llm.chat([{ role: 'user', content: 'Hello' }]);
+
+    expect(server.requests[0].url).toBe('/api/chat');
+    expect(JSON.parse(server.requests[0].body).stream).toBe(false);
+    expect(result).toEqual({ content: 'Hi', usage: { promptTokens: 5, completionTokens: 1 } });
+  });
+
+  it('chatStream() yields NDJSON tokens split across chunks', async () => {
+    server.setHandler((_req, _body, res) => {
+      res.writeHead(200, { 'Content-Type': 'application/x-ndjson' });
+      res.write('{"message":{"content":"Hel"},"done":false}\n{"message":{"con');
+      res.write('tent":"lo"},"done":false}\n');
+      res.end('{"message":{"content":""},"done":true,"prompt_eval_count":9,"eval_count":2}\n');
+    });
+
+    const llm = createOllamaAdapter({ type: 'ollama', baseUrl: server.baseUrl });
+    const events = await drain(llm.chatStream([{ role: 'user', content: 'Hello' }]));
+
+    expect(JSON.parse(server.requests[0].body).stream).toBe(true);
+    expect(events).toEqual([
+      { type: 'token', content: 'Hel' },
+      { type: 'token', content: 'lo' },
+      { type: 'done', response: { content: 'Hello', usage: { promptTokens: 9, completionTokens: 2 } } },
+    ]);
+  });
+
+  it('chatStream() throws on an in-stream error', async () => {
+    server.setHandler((_req, _body, res) => {
+      res.writeHead(200, { 'Content-Type': 'application/x-ndjson' });
+      res.end('{"error":"model runner has unexpectedly stopped"}\n');
+    });
+
+    const llm = createOllamaAdapter({ type: 'ollama', baseUrl: server.baseUrl });
+    await expect(drain(llm.chatStream([]))).rejects.toThrow('unexpectedly stopped');
+  });
+
+  it('chatStream() aborts mid-stream when the signal fires', async () => {
+    server.setHandler((_req, _body, res) => {
+      res.writeHead(200, { 'Content-Type': 'application/x-ndjson' });
+      res.write('{"message":{"content":"slow"},"done":false}\n');
+      // never finishes
+    });
+
+    const llm = createOllamaAdapter({ type: 'ollama', baseUrl: server.baseUrl });
+    const controller = new AbortController();
+    const tokens: string[] = [];
+
+    const run = async () => {
+      for await (const event of llm.chatStream([], controller.signal)) {
+        if (event.type === 'token') {
+          tokens.push(event.content);
+          controller.abort();
+        }
+      }
+    };
+
+    await expect(run()).rejects.toMatchObject({ name: 'AbortError' });
+    expect(tokens).toEqual(['slow']);
+  });
+});
@@ -7,7 +7,9 @@
  */
 
 import type { OllamaProvider } from '../types/index.js';
-import type { LLMAdapter, LLMMessage, LLMResponse } from './provider.js';
+import type { LLMAdapter, LLMMessage, LLMResponse, LLMStreamEvent } from './provider.js';
+import { withTimeout } from './signal.js';
+import { readLines } from './stream.js';
 
 const DEFAULTS = {
   baseUrl: 'http://localhost:11434',
@@ -24,46 +26,45 @@ export function createOllamaAdapter(config: OllamaProvider): LLMAdapter {
   const temperature = config.temperature ?? DEFAULTS.temperature;
   const timeoutSec = config.timeout ?? DEFAULTS.timeout;
 
-  return {
-    name: `ollama/${model}`,
+  async function request(messages: LLMMessage[], stream: boolean, signal?: AbortSignal): Promise<Response> {
+    const fetchOptions: RequestInit = {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({
+        model,
+        messages: messages.map(m => ({
+          role: m.role,
+          content: m.content,
+        })),
+        stream,
+        options: {
+          num_predict: maxTokens,
+          temperature,
+          ...(config.contextWindow && { num_ctx: config.contextWindow }),
+        },
+      }),
+    };
 
-    async chat(messages: LLMMessage[], signal?: AbortSignal): Promise<LLMResponse> {
-      const fetchOptions: RequestInit = {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({
-          model,
-          messages: messages.map(m => ({
-            role: m.role,
-            content: m.content,
-          })),
-          stream: false,
-          options: {
-            num_predict: maxTokens,
-            temperature,
-          },
-        }),
-      };
+    // Combine timeout + external cancel signal.
+    // When either fires, the fetch aborts and Ollama stops generation.
+    fetchOptions.signal = withTimeout(timeoutSec, signal);
 
-      // Combine timeout + external cancel signal.
-      // When either fires, the fetch aborts and Ollama stops generation.
-      const signals: AbortSignal[] = [];
-      if (timeoutSec > 0) signals.push(AbortSignal.timeout(timeoutSec * 1000));
-      if (signal) signals.push(signal);
+    const response = await fetch(`${baseUrl}/api/chat`, fetchOptions);
 
-      if (signals.length === 1) {
-        fetchOptions.signal = signals[0];
-      } else if (signals.length > 1) {
-        fetchOptions.signal = AbortSignal.any(signals);
-      }
+    if (!response.ok) {
+      const text = await response.text();
+      throw new Error(`Ollama error (${response.status}): ${text}`);
+    }
 
-      const response = await fetch(`${baseUrl}/api/chat`, fetchOptions);
+    return response;
+  }
 
-      if (!response.ok) {
-        const text = await response.text();
-        throw new Error(`Ollama error (${response.status}): ${text}`);
-      }
+  return {
+    name: `ollama/${model}`,
+    promptBudget: config.contextWindow ? config.contextWindow - maxTokens : undefined,
 
+    async chat(messages: LLMMessage[], signal?: AbortSignal): Promise<LLMResponse> {
+      const response = await request(messages, false, signal);
       const data = await response.json() as any;
 
       return {
@@ -75,6 +76,46 @@ export function createOllamaAdapter(config: OllamaProvider): LLMAdapter {
       };
     },
 
+    async *chatStream(messages: LLMMessage[], signal?: AbortSignal): AsyncIterable<LLMStreamEvent> {
+      const response = await request(messages, true, signal);
+      let content = '';
+
+      // Newline-delimited JSON — one object per token, the last has done: true
+      for await (const line of readLines(response)) {
+        let data: any;
+        try {
+          data = JSON.parse(line);
+        } catch {
+          continue; // skip malformed lines
+        }
+
+        if (data.error) throw new Error(`Ollama error: ${data.error}`);
+
+        const token = data.message?.content;
+        if (token) {
+          content += token;
+          yield { type: 'token', content: token };
+        }
+
+        if (data.done) {
+          yield {
+            type: 'done',
+            response: {
+              content,
+              usage: {
+                promptTokens: data.prompt_eval_count,
+                completionTokens: data.eval_count,
+              },
+            },
+          };
+          return;
+        }
+      }
+
+      // Stream ended without the done flag — keep what we have
+      yield { type: 'done', response: { content } };
+    },
+
     async health(): Promise<boolean> {
       try {
         const response = await fetch(`${baseUrl}/api/tags`);
@@ -0,0 +1,118 @@
+import { describe, it, expect } from 'vitest';
+import { createOpenAIAdapter } from './openai.js';
+import { useHttpServer } from '../test/http-server.js';
+
+const server = useHttpServer('/v1', (_req, _body, res) => {
+  res.writeHead(200, { 'Content-Type': 'application/json' });
+  res.end(JSON.stringify({
+    choices: [{ message: { role: 'assistant', content: 'Hello from the LAN' } }],
+    usage: { prompt_tokens: 12, completion_tokens: 4 },
+  }));
+});
+
+describe('openai adapter', () => {
+  it('posts to /chat/completions with model, messages and limits', async () => {
+    const llm = createOpenAIAdapter({
+      type: 'openai', apiKey: 'sk-test', baseUrl: server.baseUrl, model: 'llama3', maxTokens: 64, temperature: 0.2,
+    });
+
+    const result = await llm.chat([
+      { role: 'system', content: 'Be brief.' },
+      { role: 'user', content: 'Hi' },
+    ]);
+
+    expect(server.requests).toHaveLength(1);
+    expect(server.requests[0].method).toBe('POST');
+    expect(server.requests[0].url).toBe('/v1/chat/completions');
+    expect(server.requests[0].headers.authorization).toBe('Bearer sk-test');
+
+    const body = JSON.parse(server.requests[0].body);
+    expect(body.model).toBe('llama3');
+    expect(body.max_tokens).toBe(64);
+    expect(body.temperature).toBe(0.2);
+    expect(body.stream).toBe(false);
+    expect(body.messages).toEqual([
+      { role: 'system', content: 'Be brief.' },
+      { role: 'user', content: 'Hi' },
+    ]);
+
+    expect(result.content).toBe('Hello from the LAN');
+    expect(result.usage).toEqual({ promptTokens: 12, completionTokens: 4 });
+  });
+
+  it('omits the Authorization header when no key is configured', async () => {
+    const llm = createOpenAIAdapter({ type: 'openai', baseUrl: server.baseUrl });
+    await llm.chat([{ role: 'user', content: 'Hi' }]);
+    expect(server.requests[0].headers.authorization).toBeUndefined();
+  });
+
+  it('names itself after the model', () => {
+    expect(createOpenAIAdapter({ type: 'openai', baseUrl: server.baseUrl, model: 'qwen2.5' }).name).toBe('openai/qwen2.5');
+  });
+
+  it('throws with status and body on non-ok response', async () => {
+    server.setHandler((_req, _body, res) => {
+      res.writeHead(401);
+      res.end('invalid api key');
+    });
+
+    const llm = createOpenAIAdapter({ type: 'openai', apiKey: 'bad', baseUrl: server.baseUrl });
+    await expect(llm.chat([{ role: 'user', content: 'Hi' }]))
+      .rejects.toThrow('OpenAI error (401): invalid api key');
+  });
+
+  it('aborts when the external signal fires', async () => {
+    server.setHandler(() => { /* never respond */ });
+
+    const llm = createOpenAIAdapter({ type: 'openai', baseUrl: server.baseUrl });
+    const controller = new AbortController();
+    const pending = llm.chat([{ role: 'user', content: 'Hi' }], controller.signal);
+    setTimeout(() => controller.abort(), 20);
+
+    await expect(pending).rejects.toMatchObject({ name: 'AbortError' });
+  });
+
+  it('times out with a TimeoutError', async () => {
+    server.setHandler(() => { /* never respond */ });
+
+    const llm = createOpenAIAdapter({ type: 'openai', baseUrl: server.baseUrl, timeout: 0.05 });
+    await expect(llm.chat([{ role: 'user', content: 'Hi' }]))
+      .rejects.toMatchObject({ name: 'TimeoutError' });
+  });
+
+  it('health() checks /models', async () => {
+    const llm = createOpenAIAdapter({ type: 'openai', baseUrl: server.baseUrl });
+    expect(await llm.health()).toBe(true);
+    expect(server.requests[0].url).toBe('/v1/models');
+
+    server.setHandler((_req, _body, res) => { res.writeHead(500); res.end(); });
+    expect(await llm.health()).toBe(false);
+  });
+
+  it('health() returns false when the server is unreachable', async () => {
+    const llm = createOpenAIAdapter({ type: 'openai', baseUrl: 'http://127.0.0.1:1/v1' });
+    expect(await llm.health()).toBe(false);
+  });
+
+  it('chatStream() yields deltas then the full response with usage', async () => {
+    server.setHandler((_req, _body, res) => {
+      res.writeHead(200, { 'Content-Type': 'text/event-stream' });
+      res.write('data: {"choices":[{"delta":{"role":"assistant"}}]}\n\n');
+      res.write('data: {"choices":[{"delta":{"content":"Hel"}}]}\n\n');
+      res.write('data: {"choices":[{"delta":{"content":"lo"}}]}\n\n');
+      res.write('data: {"choices":[],"usage":{"prompt_tokens":7,"completion_tokens":2}}\n\n');
+      res.end('data: [DONE]\n\n');
+    });
+
+    const llm = createOpenAIAdapter({ type: 'openai', baseUrl: server.baseUrl });
+    const events = [];
+    for await (const event of llm.chatStream([{ role: 'user', content: 'Hi' }])) events.push(event);
+
+    expect(JSON.parse(server.requests[0].body).stream).toBe(true);
+    expect(events).toEqual([
+      { type: 'token', content: 'Hel' },
+      { type: 'token', content: 'lo' },
+      { type: 'done', response: { content: 'Hello', usage: { promptTokens: 7, completionTokens: 2 } } },
+    ]);
+  });
+});
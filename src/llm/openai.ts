@@ -0,0 +1,119 @@
+/**
+ * OpenAI-compatible adapter — talks to any /v1/chat/completions endpoint.
+ *
+ * Besides OpenAI itself, `baseUrl` can point at llama.cpp server,
+ * vLLM or LM Studio on the LAN. Those usually ignore the API key,
+ * so it is optional.
+ */
+
+import type { OpenAIProvider } from '../types/index.js';
+import type { LLMAdapter, LLMMessage, LLMResponse, LLMStreamEvent } from './provider.js';
+import { withTimeout } from './signal.js';
+import { readSSEData } from './stream.js';
+
+const DEFAULTS = {
+  baseUrl: 'https://api.openai.com/v1',
+  model: 'gpt-4o-mini',
+  maxTokens: 512,
+  temperature: 0.7,
+  timeout: 600, // same as Ollama — a LAN box may be just as slow
+};
+
+export function createOpenAIAdapter(config: OpenAIProvider): LLMAdapter {
+  const baseUrl = (config.baseUrl ?? DEFAULTS.baseUrl).replace(/\/+$/, '');
+  const model = config.model ?? DEFAULTS.model;
+  const maxTokens = config.maxTokens ?? DEFAULTS.maxTokens;
+  const temperature = config.temperature ?? DEFAULTS.temperature;
+  const timeoutSec = config.timeout ?? DEFAULTS.timeout;
+
+  const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+  if (config.apiKey) headers.Authorization = `Bearer ${config.apiKey}`;
+
+  async function request(messages: LLMMessage[], stream: boolean, signal?: AbortSignal): Promise<Response> {
+    const response = await fetch(`${baseUrl}/chat/completions`, {
+      method: 'POST',
+      headers,
+      body: JSON.stringify({
+        model,
+        messages: messages.map(m => ({
+          role: m.role,
+          content: m.content,
+        })),
+        stream,
+        ...(stream && { stream_options: { include_usage: true } }),
+        max_tokens: maxTokens,
+        temperature,
+      }),
+      signal: withTimeout(timeoutSec, signal),
+    });
+
+    if (!response.ok) {
+      const text = await response.text();
+      throw new Error(`OpenAI error (${response.status}): ${text}`);
+    }
+
+    return response;
+  }
+
+  return {
+    name: `openai/${model}`,
+    promptBudget: config.contextWindow ? config.contextWindow - maxTokens : undefined,
+
+    async chat(messages: LLMMessage[], signal?: AbortSignal): Promise<LLMResponse> {
+      const response = await request(messages, false, signal);
+      const data = await response.json() as any;
+
+      return {
+        content: data.choices?.[0]?.message?.content ?? '',
+        usage: {
+          promptTokens: data.usage?.prompt_tokens,
+          completionTokens: data.usage?.completion_tokens,
+        },
+      };
+    },
+
+    async *chatStream(messages: LLMMessage[], signal?: AbortSignal): AsyncIterable<LLMStreamEvent> {
+      const response = await request(messages, true, signal);
+      let content = '';
+      let usage: LLMResponse['usage'];
+
+      // Server-sent events — deltas, an optional usage chunk, then [DONE]
+      for await (const data of readSSEData(response)) {
+        if (data === '[DONE]') break;
+
+        let chunk: any;
+        try {
+          chunk = JSON.parse(data);
+        } catch {
+          continue; // skip malformed events
+        }
+
+        if (chunk.error) throw new Error(`OpenAI error: ${chunk.error.message ?? JSON.stringify(chunk.error)}`);
+
+        const token = chunk.choices?.[0]?.delta?.content;
+        if (token) {
+          content += token;
+          yield { type: 'token', content: token };
+        }
+
+        if (chunk.usage) {
+          usage = {
+            promptTokens: chunk.usage.prompt_tokens,
+            completionTokens: chunk.usage.completion_tokens,
+          };
+        }
+      }
+
+      yield { type: 'done', response: { content, usage } };
+    },
+
+    async health(): Promise<boolean> {
+      try {
+        const response = await fetch(`${baseUrl}/models`, { headers });
+        return response.ok;
+      } catch {
+        return false;
+      }
+    },
+  };
+}
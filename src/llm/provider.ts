@@ -4,9 +4,10 @@
  * A provider takes a system prompt + conversation history
  * and returns a response string. That's it.
  *
- * No streaming for now — aure is an answering machine,
- * not a real-time chat. The visitor sends a message,
- * aure thinks, aure responds.
+ * aure is an answering machine, not a real-time chat —
+ * but on a Pi an answer can take minutes, so adapters can
+ * also stream tokens as they are generated. The final
+ * response is the same either way.
  */
 
 export interface LLMMessage {
@@ -21,12 +22,36 @@ export interface LLMResponse {
     promptTokens?: number;
     completionTokens?: number;
   };
+  /** Which adapter actually answered (set by the fallback chain) */
+  provider?: string;
+}
+
+/** One event from a streaming chat: a token, then a final response */
+export type LLMStreamEvent =
+  | { type: 'token'; content: string }
+  | { type: 'done'; response: LLMResponse };
+
+/** Circuit-breaker state of one provider in a fallback chain */
+export interface ProviderState {
+  name: string;
+  /** 'open' = skipped until `openUntil` */
+  state: 'closed' | 'open';
+  consecutiveFailures: number;
+  openUntil: string | null;
+  lastError: string | null;
+  lastFailureAt: string | null;
+  lastSuccessAt: string | null;
+  /** Result of the last health() probe, null if never probed */
+  reachable: boolean | null;
 }
 
 export interface LLMAdapter {
   /** Human-readable name for logs */
   name: string;
 
+  /** Max prompt tokens (context window minus reply), if configured */
+  promptBudget?: number;
+
   /**
    * Generate a response from a conversation.
    * The first message should be the system prompt.
@@ -34,6 +59,16 @@ export interface LLMAdapter {
    */
   chat(messages: LLMMessage[], signal?: AbortSignal): Promise<LLMResponse>;
 
+  /**
+   * Same as chat(), but yields tokens as they arrive and ends
+   * with a single 'done' event carrying the full response.
+   * Errors (including aborts) are thrown, not yielded.
+   */
+  chatStream(messages: LLMMessage[], signal?: AbortSignal): AsyncIterable<LLMStreamEvent>;
+
   /** Check if the provider is reachable */
   health(): Promise<boolean>;
+
+  /** Per-provider breaker state — only composite adapters implement this */
+  providers?(): ProviderState[];
 }
@@ -0,0 +1,18 @@
+/**
+ * Abort signal helpers shared by the HTTP adapters.
+ */
+
+/**
+ * Combine a request timeout with an optional external cancel signal.
+ * When either fires, the fetch aborts and the provider stops generation.
+ * Returns undefined when there is nothing to abort on.
+ */
+export function withTimeout(timeoutSec: number, signal?: AbortSignal): AbortSignal | undefined {
+  const signals: AbortSignal[] = [];
+  if (timeoutSec > 0) signals.push(AbortSignal.timeout(timeoutSec * 1000));
+  if (signal) signals.push(signal);
+
+  if (signals.length === 0) return undefined;
+  if (signals.length === 1) return signals[0];
+  return AbortSignal.any(signals);
+}
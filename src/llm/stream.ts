@@ -0,0 +1,67 @@
+/**
+ * Streaming helpers shared by the HTTP adapters.
+ *
+ * Ollama streams newline-delimited JSON, the OpenAI and Anthropic
+ * APIs stream server-sent events. Both are read line by line.
+ */
+
+import type { LLMResponse, LLMStreamEvent } from './provider.js';
+
+/**
+ * Yield non-empty lines from a streaming response body.
+ * Cancels the body if the consumer stops early.
+ */
+export async function* readLines(response: Response): AsyncGenerator<string> {
+  if (!response.body) throw new Error('No response body');
+
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+
+  try {
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) break;
+
+      buffer += decoder.decode(value, { stream: true });
+      const lines = buffer.split('\n');
+      buffer = lines.pop() ?? '';
+
+      for (const line of lines) {
+        if (line.trim()) yield line.trimEnd();
+      }
+    }
+
+    buffer += decoder.decode();
+    if (buffer.trim()) yield buffer.trimEnd();
+  } finally {
+    await reader.cancel().catch(() => {});
+  }
+}
+
+/**
+ * Yield the `data:` payloads of a server-sent event stream.
+ */
+export async function* readSSEData(response: Response): AsyncGenerator<string> {
+  for await (const line of readLines(response)) {
+    if (line.startsWith('data:')) yield line.slice(5).trimStart();
+  }
+}
+
+/**
+ * Drain a token stream into a final response, calling onToken per token.
+ * Throws if the stream ends without a 'done' event.
+ */
+export async function collectStream(
+  events: AsyncIterable<LLMStreamEvent>,
+  onToken: (token: string) => void | Promise<void>
+): Promise<LLMResponse> {
+  for await (const event of events) {
+    if (event.type === 'token') {
+      await onToken(event.content);
+    } else {
+      return event.response;
+    }
+  }
+  throw new Error('Stream ended without a final response');
+}
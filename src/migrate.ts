@@ -0,0 +1,73 @@
+/**
+ * `aure migrate` — bring the database up to date without starting the server.
+ *
+ * Startup runs pending migrations too; this is for doing it by hand,
+ * e.g. before restarting the service. With --dry-run it only lists
+ * what would run — the database isn't touched.
+ *
+ * Usage: npm run migrate [-- --dry-run] [-- path/to/aure.db]
+ */
+
+import 'dotenv/config';
+import { existsSync } from 'node:fs';
+import { resolve } from 'node:path';
+import Database from 'better-sqlite3';
+
+import { initDatabase } from './db/index.js';
+import { getSchemaVersion, pendingMigrations, type PendingMigration } from './db/migrate.js';
+import { MIGRATIONS } from './db/migrations/index.js';
+
+const args = process.argv.slice(2);
+const DRY_RUN = args.includes('--dry-run');
+const pathArg = args.find(a => !a.startsWith('--'));
+const DB_PATH = pathArg
+  ? resolve(pathArg)
+  : process.env.AURE_DB_PATH ?? resolve(process.cwd(), 'aure.db');
+
+function main(): number {
+  console.log('');
+  console.log(`  aure migrate${DRY_RUN ? ' --dry-run' : ''} — ${DB_PATH}`);
+  console.log('');
+
+  let version = 0;
+  let pending: PendingMigration[];
+  try {
+    if (existsSync(DB_PATH)) {
+      const db = new Database(DB_PATH, { readonly: true, fileMustExist: true });
+      version = getSchemaVersion(db);
+      pending = pendingMigrations(db);
+      db.close();
+    } else {
+      pending = MIGRATIONS.map((m, i) => ({ version: i + 1, name: m.name }));
+    }
+  } catch (error) {
+    console.log(`  ✗ ${error instanceof Error ? error.message : error}`);
+    console.log('');
+    return 1;
+  }
+
+  if (pending.length === 0) {
+    console.log(`  ✓ up to date (version ${version})`);
+    console.log('');
+    return 0;
+  }
+
+  console.log(`  version ${version}, ${pending.length} pending:`);
+  for (const m of pending) console.log(`    ${m.version}. ${m.name}`);
+  console.log('');
+  if (DRY_RUN) return 0;
+
+  try {
+    const db = initDatabase(DB_PATH);
+    console.log(`  ✓ now at version ${getSchemaVersion(db)}`);
+    db.close();
+  } catch (error) {
+    console.log(`  ✗ ${error instanceof Error ? error.message : error}`);
+    console.log('');
+    return 1;
+  }
+  console.log('');
+  return 0;
+}
+
+process.exit(main());
@@ -0,0 +1,53 @@
+/**
+ * Notification channel interface.
+ *
+ * A channel delivers a list of events — one, or a batch collected
+ * over a few minutes. Filtering, quiet hours and batching happen in
+ * the dispatcher (index.ts), so channels only know how to send.
+ */
+
+import type { NotifyEventType } from '../types/index.js';
+
+export interface NotifyEvent {
+  type: NotifyEventType;
+  conversationId: string;
+  /** One line for the owner, e.g. "Rule matched: Hiring inquiry" */
+  title: string;
+  /** The visitor's message, or the error */
+  message?: string;
+  /** Rule id ('rule' and 'spam' events) */
+  rule?: string;
+  at: string;
+}
+
+export interface NotificationChannel {
+  /** For logs, e.g. "webhook", "email" */
+  name: string;
+  send(events: NotifyEvent[]): Promise<void>;
+}
+
+/** Requests to notification services shouldn't hang a batch forever */
+export const SEND_TIMEOUT_MS = 30_000;
+
+/** Subject / title line for one event or a batch */
+export function headline(events: NotifyEvent[]): string {
+  return events.length === 1 ? events[0].title : `${events.length} new notifications`;
+}
+
+/** Plain-text body listing every event */
+export function formatEvents(events: NotifyEvent[]): string {
+  return events
+    .map(e => {
+      let text = `${e.title}\n${e.at} · conversation ${e.conversationId}`;
+      if (e.message) text += `\n\n${e.message}`;
+      return text;
+    })
+    .join('\n\n---\n\n');
+}
+
+/** RFC 2047 encoding for non-ASCII header values (email subjects, ntfy titles) */
+export function encodeHeader(value: string): string {
+  return /^[\x20-\x7e]*$/.test(value)
+    ? value
+    : `=?UTF-8?B?${Buffer.from(value, 'utf-8').toString('base64')}?=`;
+}
@@ -0,0 +1,179 @@
+import { describe, it, expect, beforeAll, afterAll, beforeEach } from 'vitest';
+import { createServer as createNetServer, type AddressInfo, type Server as NetServer } from 'node:net';
+import { createWebhookChannel, sign } from './webhook.js';
+import { createNtfyChannel } from './ntfy.js';
+import { createEmailChannel } from './email.js';
+import type { NotifyEvent } from './channel.js';
+import { useHttpServer } from '../test/http-server.js';
+
+const server = useHttpServer();
+
+const hire: NotifyEvent = {
+  type: 'rule',
+  conversationId: 'c1',
+  title: 'Rule matched: Hiring inquiry',
+  message: 'Are you open to a role?',
+  rule: 'hire',
+  at: '2026-10-19T09:00:00.000Z',
+};
+
+const failure: NotifyEvent = {
+  type: 'error',
+  conversationId: 'c2',
+  title: 'LLM error',
+  message: 'Ollama error (500): boom',
+  at: '2026-10-19T09:01:00.000Z',
+};
+
+describe('webhook channel', () => {
+  it('posts events signed with the secret', async () => {
+    await createWebhookChannel({ type: 'webhook', url: `${server.baseUrl}/hook`, secret: 's3cret' }).send([hire]);
+
+    const { url, headers, body } = server.requests[0];
+    expect(url).toBe('/hook');
+    expect(JSON.parse(body)).toEqual({ events: [hire] });
+
+    const timestamp = headers['x-aure-timestamp'] as string;
+    expect(headers['x-aure-signature']).toBe(`sha256=${sign('s3cret', timestamp, body)}`);
+  });
+
+  it('sends no signature without a secret', async () => {
+    await createWebhookChannel({ type: 'webhook', url: server.baseUrl }).send([hire]);
+    expect(server.requests[0].headers['x-aure-signature']).toBeUndefined();
+  });
+
+  it('throws on a non-2xx response', async () => {
+    server.setHandler((_req, _body, res) => {
+      res.writeHead(503);
+      res.end('down');
+    });
+    await expect(createWebhookChannel({ type: 'webhook', url: server.baseUrl }).send([hire]))
+      .rejects.toThrow('Webhook error (503): down');
+  });
+});
+
+describe('ntfy channel', () => {
+  it('pushes a titled message with the highest priority in the batch', async () => {
+    await createNtfyChannel({ type: 'ntfy', url: `${server.baseUrl}/aure`, token: 'tk' }).send([
+      { ...hire, type: 'conversation', title: 'New conversation' },
+      failure,
+    ]);
+
+    const { url, headers, body } = server.requests[0];
+    expect(url).toBe('/aure');
+    expect(headers['title']).toBe('2 new notifications');
+    expect(headers['priority']).toBe('high');
+    expect(headers['tags']).toBe('speech_balloon,warning');
+    expect(headers['authorization']).toBe('Bearer tk');
+    expect(body).toContain('Ollama error (500): boom');
+  });
+
+  it('encodes non-ASCII titles', async () => {
+    await createNtfyChannel({ type: 'ntfy', url: server.baseUrl }).send([{ ...hire, title: 'Règle: embauche' }]);
+    expect(server.requests[0].headers['title']).toMatch(/^=\?UTF-8\?B\?/);
+  });
+});
+
+describe('email channel', () => {
+  let smtp: NetServer;
+  let port: number;
+  let commands: string[];
+  let data: string;
+  let rejectRcpt: boolean;
+
+  beforeAll(async () => {
+    // Minimal SMTP sink: accepts everything, records the conversation
+    smtp = createNetServer(socket => {
+      let buffer = '';
+      let inData = false;
+      socket.write('220 sink ESMTP\r\n');
+      socket.on('data', chunk => {
+        buffer += chunk.toString();
+        let index: number;
+        while ((index = buffer.indexOf('\r\n')) !== -1) {
+          const line = buffer.slice(0, index);
+          buffer = buffer.slice(index + 2);
+          if (inData) {
+            if (line === '.') {
+              inData = false;
+              socket.write('250 queued\r\n');
+            } else {
+              data += `${line}\n`;
+            }
+            continue;
+          }
+          commands.push(line);
+          const verb = line.split(' ')[0].toUpperCase();
+          if (verb === 'EHLO') socket.write('250-sink\r\n250-AUTH PLAIN\r\n250 8BITMIME\r\n');
+          else if (verb === 'AUTH') socket.write('235 ok\r\n');
+          else if (verb === 'RCPT' && rejectRcpt) socket.write('550 no such user\r\n');
+          else if (verb === 'DATA') {
+            inData = true;
+            socket.write('354 go ahead\r\n');
+          } else if (verb === 'QUIT') socket.end('221 bye\r\n');
+          else socket.write('250 ok\r\n');
+        }
+      });
+    });
+    await new Promise<void>(resolve => smtp.listen(0, '127.0.0.1', resolve));
+    port = (smtp.address() as AddressInfo).port;
+  });
+
+  afterAll(async () => {
+    await new Promise<void>(resolve => smtp.close(() => resolve()));
+  });
+
+  beforeEach(() => {
+    commands = [];
+    data = '';
+    rejectRcpt = false;
+  });
+
+  it('delivers one digest email for a batch', async () => {
+    const channel = createEmailChannel({
+      type: 'email',
+      host: '127.0.0.1',
+      port,
+      user: 'me',
+      pass: 'pw',
+      allowInsecureAuth: true,
+      from: 'aure <aure@example.com>',
+      to: ['me@example.com', 'Other <other@example.com>'],
+    });
+
+    await channel.send([hire, failure]);
+
+    expect(commands).toEqual([
+      'EHLO aure',
+      `AUTH PLAIN ${Buffer.from('\0me\0pw').toString('base64')}`,
+      'MAIL FROM:<aure@example.com>',
+      'RCPT TO:<me@example.com>',
+      'RCPT TO:<other@example.com>',
+      'DATA',
+      'QUIT',
+    ]);
+
+    const [headers, body] = data.split('\n\n');
+    expect(headers).toContain('Subject: [aure] 2 new notifications');
+    expect(headers).toContain('To: me@example.com, Other <other@example.com>');
+    const text = Buffer.from(body.replace(/\n/g, ''), 'base64').toString('utf-8');
+    expect(text).toContain('Rule matched: Hiring inquiry');
+    expect(text).toContain('Ollama error (500): boom');
+  });
+
+  it('refuses to log in without TLS unless allowed', async () => {
+    const channel = createEmailChannel({
+      type: 'email', host: '127.0.0.1', port, user: 'me', pass: 'pw', from: 'a@example.com', to: 'b@example.com',
+    });
+
+    await expect(channel.send([hire])).rejects.toThrow('offers no TLS');
+    expect(commands.some(line => line.startsWith('AUTH'))).toBe(false);
+  });
+
+  it('throws on a rejected recipient', async () => {
+    rejectRcpt = true;
+    const channel = createEmailChannel({ type: 'email', host: '127.0.0.1', port, from: 'a@example.com', to: 'b@example.com' });
+
+    await expect(channel.send([hire])).rejects.toThrow('SMTP error (550): no such user');
+  });
+});
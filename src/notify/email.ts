@@ -0,0 +1,211 @@
+/**
+ * Email channel — a minimal SMTP client, no mail library.
+ *
+ * Speaks just enough SMTP for a provider's submission port or a local
+ * relay: STARTTLS when the server offers it (port 587), implicit TLS
+ * with `secure: true` (port 465), and AUTH PLAIN when a user is set.
+ * The password is only sent over TLS: a server that doesn't offer
+ * STARTTLS (or an attacker who stripped it) gets no login unless
+ * `allowInsecureAuth` says so.
+ * The body is plain text, base64-encoded so any UTF-8 survives.
+ */
+
+import { connect as netConnect, type Socket } from 'node:net';
+import { connect as tlsConnect } from 'node:tls';
+import { randomUUID } from 'node:crypto';
+import type { EmailChannel } from '../types/index.js';
+import { SEND_TIMEOUT_MS, headline, formatEvents, encodeHeader, type NotificationChannel, type NotifyEvent } from './channel.js';
+
+export interface Mail {
+  from: string;
+  to: string[];
+  subject: string;
+  text: string;
+}
+
+interface Reply {
+  code: number;
+  lines: string[];
+}
+
+export function createEmailChannel(config: EmailChannel): NotificationChannel {
+  const to = Array.isArray(config.to) ? config.to : [config.to];
+
+  return {
+    name: 'email',
+
+    async send(events: NotifyEvent[]): Promise<void> {
+      await sendMail(config, {
+        from: config.from,
+        to,
+        subject: `[aure] ${headline(events)}`,
+        text: formatEvents(events),
+      });
+    },
+  };
+}
+
+/**
+ * Deliver one message. Throws "SMTP error (code): text" on any
+ * unexpected reply, or on connection failure / timeout.
+ */
+export async function sendMail(config: EmailChannel, mail: Mail): Promise<void> {
+  const secure = config.secure ?? false;
+  const port = config.port ?? (secure ? 465 : 587);
+
+  const socket = secure
+    ? tlsConnect({ host: config.host, port, servername: config.host })
+    : netConnect({ host: config.host, port });
+  const session = createSession(socket);
+
+  try {
+    await session.expect([220]);
+    const ehlo = await session.command('EHLO aure', [250]);
+
+    let encrypted = secure;
+    if (!secure && ehlo.lines.some(line => /^STARTTLS\b/i.test(line))) {
+      await session.command('STARTTLS', [220]);
+      await session.upgrade(config.host);
+      await session.command('EHLO aure', [250]);
+      encrypted = true;
+    }
+
+    if (config.user) {
+      if (!encrypted && !config.allowInsecureAuth) {
+        throw new Error(`SMTP server ${config.host} offers no TLS; not sending the password in the clear (set allowInsecureAuth to allow it)`);
+      }
+      const credentials = Buffer.from(`\0${config.user}\0${config.pass ?? ''}`, 'utf-8').toString('base64');
+      await session.command(`AUTH PLAIN ${credentials}`, [235]);
+    }
+
+    await session.command(`MAIL FROM:<${address(mail.from)}>`, [250]);
+    for (const recipient of mail.to) {
+      await session.command(`RCPT TO:<${address(recipient)}>`, [250, 251]);
+    }
+    await session.command('DATA', [354]);
+    await session.command(`${buildMessage(mail)}\r\n.`, [250]);
+    await session.command('QUIT', [221]).catch(() => {});
+  } finally {
+    session.close();
+  }
+}
+
+/** RFC 5322 message with a base64 text body (no dot-stuffing needed) */
+export function buildMessage(mail: Mail): string {
+  const body = Buffer.from(mail.text, 'utf-8').toString('base64').replace(/.{76}/g, '$&\r\n');
+  const oneLine = (value: string) => value.replace(/[\r\n]+/g, ' ');
+
+  return [
+    `From: ${oneLine(mail.from)}`,
+    `To: ${oneLine(mail.to.join(', '))}`,
+    `Subject: ${encodeHeader(oneLine(mail.subject))}`,
+    `Date: ${new Date().toUTCString()}`,
+    `Message-ID: <${randomUUID()}@aure>`,
+    'MIME-Version: 1.0',
+    'Content-Type: text/plain; charset=utf-8',
+    'Content-Transfer-Encoding: base64',
+    '',
+    body,
+  ].join('\r\n');
+}
+
+/** "Owner <me@example.com>" → "me@example.com" */
+function address(value: string): string {
+  return /<([^>]+)>/.exec(value)?.[1] ?? value.trim();
+}
+
+/**
+ * Line-based SMTP conversation over a socket that can be upgraded
+ * to TLS mid-session (STARTTLS).
+ */
+function createSession(initial: Socket) {
+  let socket = initial;
+  let buffer = '';
+  let pending: string[] = [];
+  const replies: Reply[] = [];
+  let failure: Error | null = null;
+  let waiter: { resolve: (reply: Reply) => void; reject: (error: Error) => void } | null = null;
+
+  const deliver = () => {
+    if (!waiter) return;
+    const w = waiter;
+    if (replies.length > 0) {
+      waiter = null;
+      w.resolve(replies.shift()!);
+    } else if (failure) {
+      waiter = null;
+      w.reject(failure);
+    }
+  };
+
+  const onData = (chunk: Buffer) => {
+    buffer += chunk.toString('utf-8');
+    let index: number;
+    while ((index = buffer.indexOf('\n')) !== -1) {
+      const line = buffer.slice(0, index).replace(/\r$/, '');
+      buffer = buffer.slice(index + 1);
+      pending.push(line.slice(4));
+      // "250-..." continues a multi-line reply, "250 ..." ends it
+      if (line[3] !== '-') {
+        replies.push({ code: parseInt(line.slice(0, 3), 10), lines: pending });
+        pending = [];
+      }
+    }
+    deliver();
+  };
+  const onError = (error: Error) => {
+    failure = error;
+    deliver();
+  };
+  const onClose = () => {
+    failure ??= new Error('SMTP connection closed');
+    deliver();
+  };
+
+  const attach = (s: Socket) => {
+    s.setTimeout(SEND_TIMEOUT_MS, () => s.destroy(new Error('SMTP timeout')));
+    s.on('data', onData);
+    s.on('error', onError);
+    s.on('close', onClose);
+  };
+  attach(socket);
+
+  const read = () => new Promise<Reply>((resolve, reject) => {
+    waiter = { resolve, reject };
+    deliver();
+  });
+
+  const expect = async (codes: number[]): Promise<Reply> => {
+    const reply = await read();
+    if (!codes.includes(reply.code)) {
+      throw new Error(`SMTP error (${reply.code}): ${reply.lines.join(' ')}`);
+    }
+    return reply;
+  };
+
+  return {
+    expect,
+
+    command(line: string, codes: number[]): Promise<Reply> {
+      socket.write(`${line}\r\n`);
+      return expect(codes);
+    },
+
+    async upgrade(servername: string): Promise<void> {
+      socket.removeListener('data', onData);
+      socket.removeListener('close', onClose);
+      socket.setTimeout(0);
+      const secure = tlsConnect({ socket, servername });
+      await new Promise<void>((resolve, reject) => {
+        secure.once('secureConnect', resolve);
+        secure.once('error', reject);
+      });
+      socket = secure;
+      attach(socket);
+    },
+
+    close(): void {
+      socket.destroy();
+    },
+  };
+}
@@ -0,0 +1,101 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { createDispatcher, parseQuietHours } from './index.js';
+import type { NotificationChannel, NotifyEvent } from './channel.js';
+
+function event(overrides: Partial<NotifyEvent> = {}): NotifyEvent {
+  return {
+    type: 'conversation',
+    conversationId: 'c1',
+    title: 'New conversation',
+    at: new Date().toISOString(),
+    ...overrides,
+  };
+}
+
+let sent: NotifyEvent[][];
+let channel: NotificationChannel;
+
+beforeEach(() => {
+  vi.useFakeTimers();
+  vi.setSystemTime(new Date(2026, 9, 19, 12, 0));
+  sent = [];
+  channel = {
+    name: 'test',
+    send: async (events) => { sent.push(events); },
+  };
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+describe('createDispatcher', () => {
+  it('sends immediately without batching', async () => {
+    const dispatcher = createDispatcher(channel, {});
+    dispatcher.push(event());
+    await vi.runAllTimersAsync();
+
+    expect(sent).toHaveLength(1);
+  });
+
+  it('filters by event type and rule id', async () => {
+    const dispatcher = createDispatcher(channel, { events: ['rule'], rules: ['hire'] });
+    dispatcher.push(event());
+    dispatcher.push(event({ type: 'rule', rule: 'pricing' }));
+    dispatcher.push(event({ type: 'rule', rule: 'hire' }));
+    await vi.runAllTimersAsync();
+
+    expect(sent.flat().map(e => e.rule)).toEqual(['hire']);
+  });
+
+  it('collects events for the batch window into one send', async () => {
+    const dispatcher = createDispatcher(channel, { batch: 5 });
+    dispatcher.push(event());
+    await vi.advanceTimersByTimeAsync(2 * 60_000);
+    dispatcher.push(event({ conversationId: 'c2' }));
+    expect(sent).toHaveLength(0);
+
+    await vi.advanceTimersByTimeAsync(3 * 60_000);
+    expect(sent).toHaveLength(1);
+    expect(sent[0].map(e => e.conversationId)).toEqual(['c1', 'c2']);
+  });
+
+  it('holds events during quiet hours and sends them when they end', async () => {
+    vi.setSystemTime(new Date(2026, 9, 19, 23, 30));
+    const dispatcher = createDispatcher(channel, { quietHours: '22:00-08:00' });
+    dispatcher.push(event());
+    dispatcher.push(event({ conversationId: 'c2' }));
+
+    await vi.advanceTimersByTimeAsync(8 * 60 * 60_000);
+    expect(sent).toHaveLength(0);
+
+    await vi.advanceTimersByTimeAsync(30 * 60_000);
+    expect(sent).toHaveLength(1);
+    expect(sent[0]).toHaveLength(2);
+  });
+
+  it('logs delivery failures instead of throwing', async () => {
+    const error = vi.spyOn(console, 'error').mockImplementation(() => {});
+    const dispatcher = createDispatcher({ name: 'broken', send: async () => { throw new Error('nope'); } }, {});
+
+    dispatcher.push(event());
+    await vi.runAllTimersAsync();
+
+    expect(error).toHaveBeenCalledWith('[aure] Notification via broken failed (1 event):', 'nope');
+    error.mockRestore();
+  });
+});
+
+describe('parseQuietHours', () => {
+  it('handles windows within a day and across midnight', () => {
+    const day = parseQuietHours('09:00-17:30');
+    expect(day.includes(new Date(2026, 9, 19, 9, 0))).toBe(true);
+    expect(day.includes(new Date(2026, 9, 19, 17, 30))).toBe(false);
+
+    const night = parseQuietHours('22:00-08:00');
+    expect(night.includes(new Date(2026, 9, 19, 23, 0))).toBe(true);
+    expect(night.includes(new Date(2026, 9, 19, 7, 59))).toBe(true);
+    expect(night.includes(new Date(2026, 9, 19, 12, 0))).toBe(false);
+    expect(night.msUntilEnd(new Date(2026, 9, 19, 23, 0))).toBe(9 * 60 * 60_000);
+  });
+});
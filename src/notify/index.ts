@@ -0,0 +1,148 @@
+/**
+ * Notifications — tell the owner when something happens, instead of
+ * making them poll the digest.
+ *
+ * Events come from the API and background jobs via notify(). Each
+ * configured channel gets its own dispatcher that:
+ *   1. drops events the channel didn't ask for (events, rules)
+ *   2. holds events during quiet hours, sending them when they end
+ *   3. optionally collects events for `batch` minutes into one message
+ *
+ * Delivery failures are logged, never thrown — a broken webhook
+ * must not break a visitor's chat.
+ */
+
+import type { NotificationChannelConfig } from '../types/index.js';
+import type { NotificationChannel, NotifyEvent } from './channel.js';
+import { createWebhookChannel } from './webhook.js';
+import { createEmailChannel } from './email.js';
+import { createNtfyChannel } from './ntfy.js';
+
+export type { NotificationChannel, NotifyEvent } from './channel.js';
+
+type ChannelOptions = Pick<NotificationChannelConfig, 'events' | 'rules' | 'quietHours' | 'batch'>;
+
+export interface Dispatcher {
+  push(event: NotifyEvent): void;
+  /** Send whatever is queued now (unless in quiet hours) */
+  flush(): Promise<void>;
+  stop(): void;
+}
+
+let dispatchers: Dispatcher[] = [];
+
+/** Set up the configured channels. Replaces any previous setup. */
+export function initNotifications(configs: NotificationChannelConfig[] = []): void {
+  for (const d of dispatchers) d.stop();
+  dispatchers = configs.map(config => createDispatcher(createChannel(config), config));
+}
+
+/** Queue an event for every channel that wants it */
+export function notify(event: Omit<NotifyEvent, 'at'>): void {
+  const full: NotifyEvent = { ...event, at: new Date().toISOString() };
+  for (const d of dispatchers) d.push(full);
+}
+
+export function createChannel(config: NotificationChannelConfig): NotificationChannel {
+  switch (config.type) {
+    case 'webhook':
+      return createWebhookChannel(config);
+    case 'email':
+      return createEmailChannel(config);
+    case 'ntfy':
+      return createNtfyChannel(config);
+    default:
+      throw new Error(`Unknown notification channel: ${(config as any).type}`);
+  }
+}
+
+export function createDispatcher(
+  channel: NotificationChannel,
+  options: ChannelOptions,
+  now: () => Date = () => new Date()
+): Dispatcher {
+  const queue: NotifyEvent[] = [];
+  const quiet = options.quietHours ? parseQuietHours(options.quietHours) : null;
+  const batchMs = (options.batch ?? 0) * 60_000;
+  let timer: ReturnType<typeof setTimeout> | null = null;
+
+  const schedule = (ms: number) => {
+    if (timer) return;
+    timer = setTimeout(() => {
+      timer = null;
+      void flush();
+    }, ms);
+    timer.unref();
+  };
+
+  async function flush(): Promise<void> {
+    if (queue.length === 0) return;
+
+    if (quiet?.includes(now())) {
+      schedule(quiet.msUntilEnd(now()));
+      return;
+    }
+
+    const events = queue.splice(0);
+    try {
+      await channel.send(events);
+    } catch (error) {
+      console.error(
+        `[aure] Notification via ${channel.name} failed (${events.length} event${events.length === 1 ? '' : 's'}):`,
+        error instanceof Error ? error.message : error
+      );
+    }
+  }
+
+  return {
+    push(event: NotifyEvent): void {
+      if (options.events && !options.events.includes(event.type)) return;
+      if (event.type === 'rule' && options.rules && !(event.rule && options.rules.includes(event.rule))) return;
+
+      queue.push(event);
+
+      if (quiet?.includes(now())) {
+        schedule(quiet.msUntilEnd(now()));
+      } else if (batchMs > 0) {
+        schedule(batchMs);
+      } else {
+        void flush();
+      }
+    },
+
+    flush,
+
+    stop(): void {
+      if (timer) clearTimeout(timer);
+      timer = null;
+    },
+  };
+}
+
+/**
+ * "22:00-08:00" → local-time window, possibly spanning midnight.
+ * Format is checked by config validation.
+ */
+export function parseQuietHours(range: string) {
+  const [start, end] = range.split('-').map(part => {
+    const [h, m] = part.trim().split(':').map(Number);
+    return h * 60 + m;
+  });
+
+  return {
+    includes(date: Date): boolean {
+      const minutes = date.getHours() * 60 + date.getMinutes();
+      return start < end
+        ? minutes >= start && minutes < end
+        : minutes >= start || minutes < end;
+    },
+
+    /** Milliseconds until the window next ends */
+    msUntilEnd(date: Date): number {
+      const until = new Date(date);
+      until.setHours(Math.floor(end / 60), end % 60, 0, 0);
+      if (until <= date) until.setDate(until.getDate() + 1);
+      return until.getTime() - date.getTime();
+    },
+  };
+}
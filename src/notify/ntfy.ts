@@ -0,0 +1,57 @@
+/**
+ * ntfy channel — push notifications to a phone via ntfy.sh
+ * or a self-hosted ntfy server (or anything with the same API).
+ */
+
+import type { NtfyChannel } from '../types/index.js';
+import { SEND_TIMEOUT_MS, headline, formatEvents, encodeHeader, type NotificationChannel, type NotifyEvent } from './channel.js';
+
+/** Errors, rule matches (a hiring inquiry!) and answers to the owner get a louder push */
+const PRIORITY: Record<NotifyEvent['type'], string> = {
+  rule: 'high',
+  error: 'high',
+  reply: 'high',
+  conversation: 'default',
+  spam: 'low',
+};
+
+const TAGS: Record<NotifyEvent['type'], string> = {
+  rule: 'bell',
+  error: 'warning',
+  conversation: 'speech_balloon',
+  reply: 'leftwards_arrow_with_hook',
+  spam: 'wastebasket',
+};
+
+const PRIORITY_ORDER = ['min', 'low', 'default', 'high', 'urgent'];
+
+export function createNtfyChannel(config: NtfyChannel): NotificationChannel {
+  return {
+    name: 'ntfy',
+
+    async send(events: NotifyEvent[]): Promise<void> {
+      const priority = events
+        .map(e => PRIORITY[e.type])
+        .reduce((a, b) => (PRIORITY_ORDER.indexOf(b) > PRIORITY_ORDER.indexOf(a) ? b : a));
+
+      const headers: Record<string, string> = {
+        'Title': encodeHeader(headline(events)),
+        'Priority': priority,
+        'Tags': [...new Set(events.map(e => TAGS[e.type]))].join(','),
+      };
+      if (config.token) headers['Authorization'] = `Bearer ${config.token}`;
+
+      const response = await fetch(config.url, {
+        method: 'POST',
+        headers,
+        body: formatEvents(events),
+        signal: AbortSignal.timeout(SEND_TIMEOUT_MS),
+      });
+
+      if (!response.ok) {
+        const text = await response.text();
+        throw new Error(`ntfy error (${response.status}): ${text}`);
+      }
+    },
+  };
+}
@@ -0,0 +1,46 @@
+/**
+ * Webhook channel — POSTs events as JSON to any URL.
+ *
+ * With a secret, each request is signed so the receiver can check it
+ * came from aure and isn't a replay:
+ *   X-Aure-Timestamp: 1760000000
+ *   X-Aure-Signature: sha256=<hex HMAC-SHA256(secret, timestamp + "." + body)>
+ */
+
+import { createHmac } from 'node:crypto';
+import type { WebhookChannel } from '../types/index.js';
+import { SEND_TIMEOUT_MS, type NotificationChannel, type NotifyEvent } from './channel.js';
+
+export function createWebhookChannel(config: WebhookChannel): NotificationChannel {
+  return {
+    name: 'webhook',
+
+    async send(events: NotifyEvent[]): Promise<void> {
+      const body = JSON.stringify({ events });
+      const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+
+      if (config.secret) {
+        const timestamp = Math.floor(Date.now() / 1000).toString();
+        headers['X-Aure-Timestamp'] = timestamp;
+        headers['X-Aure-Signature'] = `sha256=${sign(config.secret, timestamp, body)}`;
+      }
+
+      const response = await fetch(config.url, {
+        method: 'POST',
+        headers,
+        body,
+        signal: AbortSignal.timeout(SEND_TIMEOUT_MS),
+      });
+
+      if (!response.ok) {
+        const text = await response.text();
+        throw new Error(`Webhook error (${response.status}): ${text}`);
+      }
+    },
+  };
+}
+
+/** HMAC-SHA256 hex signature — exported so receivers in JS can reuse it */
+export function sign(secret: string, timestamp: string, body: string): string {
+  return createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex');
+}
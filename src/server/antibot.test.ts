@@ -0,0 +1,90 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { createHash } from 'node:crypto';
+import { initSessions } from './session.js';
+import { initAntibot, issueChallenge, checkFirstMessage, leadingZeroBits } from './antibot.js';
+
+const START = Date.parse('2026-03-01T12:00:00.000Z');
+const conversation = { id: 'c1', createdAt: new Date(START).toISOString() };
+
+/** Brute-force a nonce, as the browser does */
+function solve(challenge: string, difficulty: number): string {
+  for (let nonce = 0; ; nonce++) {
+    const hash = createHash('sha256').update(`${challenge}:${nonce}`).digest();
+    if (leadingZeroBits(hash) >= difficulty) return String(nonce);
+  }
+}
+
+beforeEach(() => {
+  initSessions({ secret: 'test-secret-0123456789' });
+  initAntibot({ enabled: true });
+});
+
+describe('leadingZeroBits', () => {
+  it('counts zero bits across bytes', () => {
+    expect(leadingZeroBits(Buffer.from([0x80]))).toBe(0);
+    expect(leadingZeroBits(Buffer.from([0x00, 0x0f]))).toBe(12);
+    expect(leadingZeroBits(Buffer.from([0x00, 0x00]))).toBe(16);
+  });
+});
+
+describe('checkFirstMessage', () => {
+  it('lets a normal first message through', () => {
+    const { challenge } = issueChallenge('c1', 0, false);
+    expect(checkFirstMessage(conversation, { challenge, website: '' }, START + 10_000)).toBeNull();
+  });
+
+  it('flags a filled honeypot, at start or with the message', () => {
+    const atStart = issueChallenge('c1', 0, true).challenge;
+    expect(checkFirstMessage(conversation, { challenge: atStart }, START + 10_000)?.rule.id).toBe('antibot:honeypot');
+
+    const { challenge } = issueChallenge('c1', 0, false);
+    expect(checkFirstMessage(conversation, { challenge, website: 'http://spam.example' }, START + 10_000))
+      .toEqual({ rule: { id: 'antibot:honeypot', label: 'Honeypot field filled in' }, action: 'flag' });
+  });
+
+  it('flags messages sent faster than minSeconds', () => {
+    initAntibot({ enabled: true, minSeconds: 5, action: 'drop' });
+    const { challenge } = issueChallenge('c1', 0, false);
+    expect(checkFirstMessage(conversation, { challenge }, START + 2_000))
+      .toEqual({ rule: { id: 'antibot:too-fast', label: 'First message sent too fast' }, action: 'drop' });
+    expect(checkFirstMessage(conversation, { challenge }, START + 5_000)).toBeNull();
+  });
+
+  it('rejects missing, forged or borrowed challenges', () => {
+    const other = issueChallenge('c2', 0, false).challenge;
+    const forged = `${Buffer.from(JSON.stringify({ c: 'c1', d: 0, h: false })).toString('base64url')}.${other.split('.')[1]}`;
+
+    for (const challenge of [undefined, 'garbage', other, forged]) {
+      expect(checkFirstMessage(conversation, { challenge }, START + 10_000)?.rule.id).toBe('antibot:challenge');
+    }
+  });
+
+  it('lets through conversations started before the checks were switched on', () => {
+    initAntibot({ enabled: true }, new Date(START + 1_000).toISOString());
+    expect(checkFirstMessage(conversation, {}, START + 10_000)).toBeNull();
+
+    initAntibot({ enabled: true }, new Date(START).toISOString());
+    expect(checkFirstMessage(conversation, {}, START + 10_000)?.rule.id).toBe('antibot:challenge');
+  });
+
+  it('requires a proof-of-work when enabled', () => {
+    initAntibot({ enabled: true, pow: { enabled: true, difficulty: 8 } });
+    const { challenge, difficulty } = issueChallenge('c1', 0, false);
+    expect(difficulty).toBe(8);
+
+    expect(checkFirstMessage(conversation, { challenge }, START + 10_000)?.rule.id).toBe('antibot:pow');
+    expect(checkFirstMessage(conversation, { challenge, nonce: solve(challenge, 8) }, START + 10_000)).toBeNull();
+  });
+
+  it('scales difficulty with the queue, up to the cap', () => {
+    initAntibot({ enabled: true, pow: { enabled: true, difficulty: 10, maxDifficulty: 14 } });
+    expect(issueChallenge('c1', 2, false).difficulty).toBe(12);
+    expect(issueChallenge('c1', 50, false).difficulty).toBe(14);
+  });
+
+  it('does nothing unless enabled', () => {
+    initAntibot({ pow: { enabled: true } });
+    expect(issueChallenge('c1', 0, false)).toMatchObject({ difficulty: 0, minSeconds: 0 });
+    expect(checkFirstMessage(conversation, { website: 'filled' }, START)).toBeNull();
+  });
+});
@@ -0,0 +1,148 @@
+/**
+ * Bot checks before the LLM is involved.
+ *
+ * Spam rules only catch known words; a bot that avoids them still
+ * costs minutes of Pi CPU per message. These checks run on a
+ * conversation's first message, once `enabled: true` switches them on:
+ *   honeypot    — a hidden "website" field only bots fill in
+ *   minSeconds  — nobody reads the greeting and types in under 3s
+ *   pow         — optional hashcash: the browser finds a nonce so that
+ *                 sha256(challenge + ":" + nonce) starts with N zero
+ *                 bits. N grows with the reply queue.
+ *
+ * /api/chat/start returns a signed challenge (bound to the conversation,
+ * carrying the difficulty and whether the honeypot was filled at start);
+ * the first message sends it back with the nonce. A failure is handled
+ * like a spam rule match, with the configured flag/drop action.
+ * Conversations started before the checks were first switched on never
+ * got a challenge, so they're let through.
+ */
+
+import { createHash, timingSafeEqual } from 'node:crypto';
+import type { AntibotConfig } from '../types/index.js';
+import type { SpamVerdict } from '../core/rules-engine.js';
+import { sign } from './session.js';
+
+/** What the first message brings along */
+export interface FirstMessageProof {
+  challenge?: unknown;
+  nonce?: unknown;
+  /** Honeypot field */
+  website?: unknown;
+}
+
+interface ChallengeClaims {
+  /** Conversation id */
+  c: string;
+  /** Difficulty in leading zero bits (0 = no proof-of-work) */
+  d: number;
+  /** Honeypot filled in at start */
+  h: boolean;
+}
+
+const DEFAULTS = {
+  minSeconds: 3,
+  difficulty: 16,
+  maxDifficulty: 20,
+};
+
+let config: AntibotConfig = {};
+/** When the checks were first switched on (ms), or null to check every conversation */
+let since: number | null = null;
+
+export function initAntibot(next: AntibotConfig = {}, firstEnabledAt: string | null = null): void {
+  config = next;
+  since = firstEnabledAt ? Date.parse(firstEnabledAt) : null;
+}
+
+/** Did the visitor fill in the hidden field? */
+export function honeypotFilled(body: { website?: unknown }): boolean {
+  return config.honeypot !== false && typeof body.website === 'string' && body.website.trim() !== '';
+}
+
+/**
+ * Challenge for a new conversation. `waiting` is the number of replies
+ * in the queue — each one makes the proof-of-work twice as hard.
+ */
+export function issueChallenge(
+  conversationId: string,
+  waiting: number,
+  honeypot: boolean
+): { challenge: string; difficulty: number; minSeconds: number } {
+  const base = config.pow?.difficulty ?? DEFAULTS.difficulty;
+  const max = Math.max(base, config.pow?.maxDifficulty ?? DEFAULTS.maxDifficulty);
+  const difficulty = config.enabled === true && config.pow?.enabled ? Math.min(max, base + waiting) : 0;
+
+  const claims: ChallengeClaims = { c: conversationId, d: difficulty, h: honeypot };
+  const payload = Buffer.from(JSON.stringify(claims)).toString('base64url');
+  return {
+    challenge: `${payload}.${sign(payload)}`,
+    difficulty,
+    minSeconds: config.enabled === true ? config.minSeconds ?? DEFAULTS.minSeconds : 0,
+  };
+}
+
+/**
+ * Check a conversation's first message. Returns null when it looks
+ * human, or the verdict to handle like a spam match.
+ */
+export function checkFirstMessage(
+  conversation: { id: string; createdAt: string },
+  proof: FirstMessageProof,
+  now = Date.now()
+): SpamVerdict | null {
+  if (config.enabled !== true) return null;
+  if (since !== null && Date.parse(conversation.createdAt) < since) return null;
+
+  const fail = (id: string, label: string): SpamVerdict => ({
+    rule: { id: `antibot:${id}`, label },
+    action: config.action ?? 'flag',
+  });
+
+  const claims = readChallenge(proof.challenge, conversation.id);
+  if (!claims) return fail('challenge', 'Missing or invalid bot challenge');
+
+  if (claims.h || honeypotFilled(proof)) return fail('honeypot', 'Honeypot field filled in');
+
+  const elapsed = (now - new Date(conversation.createdAt).getTime()) / 1000;
+  if (elapsed < (config.minSeconds ?? DEFAULTS.minSeconds)) {
+    return fail('too-fast', 'First message sent too fast');
+  }
+
+  if (claims.d > 0 && !(typeof proof.nonce === 'string' && proof.nonce.length <= 64
+    && leadingZeroBits(createHash('sha256').update(`${proof.challenge}:${proof.nonce}`).digest()) >= claims.d)) {
+    return fail('pow', 'Proof-of-work missing or wrong');
+  }
+
+  return null;
+}
+
+function readChallenge(challenge: unknown, conversationId: string): ChallengeClaims | null {
+  if (typeof challenge !== 'string') return null;
+
+  const [payload, signature, ...rest] = challenge.split('.');
+  if (!payload || !signature || rest.length > 0) return null;
+
+  const expected = Buffer.from(sign(payload));
+  const given = Buffer.from(signature);
+  if (expected.length !== given.length || !timingSafeEqual(expected, given)) return null;
+
+  try {
+    const claims = JSON.parse(Buffer.from(payload, 'base64url').toString('utf-8')) as ChallengeClaims;
+    return claims.c === conversationId ? claims : null;
+  } catch {
+    return null;
+  }
+}
+
+export function leadingZeroBits(hash: Buffer): number {
+  let bits = 0;
+  for (const byte of hash) {
+    if (byte === 0) {
+      bits += 8;
+      continue;
+    }
+    return bits + Math.clz32(byte) - 24;
+  }
+  return bits;
+}
@@ -0,0 +1,214 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import * as db from '../db/index.js';
+import { createResponder } from '../core/responder.js';
+import type { LLMAdapter, LLMMessage } from '../llm/provider.js';
+import type { NotifyEvent } from '../notify/index.js';
+import { createAPI } from './api.js';
+import { initSessions } from './session.js';
+import { initAntibot } from './antibot.js';
+import { initRateLimit, stopRateLimit } from './ratelimit.js';
+
+const notified = vi.hoisted(() => [] as Omit<NotifyEvent, 'at'>[]);
+vi.mock('../notify/index.js', () => ({ notify: (event: Omit<NotifyEvent, 'at'>) => notified.push(event) }));
+
+const ADMIN_TOKEN = 'admin-token-0123456789';
+
+function fakeLLM(): LLMAdapter {
+  return {
+    name: 'fake/model',
+    async chat() {
+      return { content: 'answer' };
+    },
+    async *chatStream() {
+      yield { type: 'done', response: { content: 'answer' } };
+    },
+    async health() { return true; },
+  };
+}
+
+/** An LLM that only ever finishes by being cancelled */
+function hangingLLM(): LLMAdapter {
+  const chat = (_messages: LLMMessage[], signal?: AbortSignal) => new Promise<never>((_, reject) => {
+    signal?.addEventListener('abort', () => reject(signal.reason), { once: true });
+  });
+  return {
+    name: 'fake/hanging',
+    chat,
+    async *chatStream(messages, signal) {
+      yield await chat(messages, signal);
+    },
+    async health() { return true; },
+  };
+}
+
+function createApp(llm: LLMAdapter = fakeLLM()) {
+  const responder = createResponder({
+    persona: {
+      name: 'aure', description: '', systemPrompt: 'You are aure.', greeting: 'Hi',
+      fallback: 'No idea', languages: [], blockedTopics: [],
+    },
+    rules: [{
+      id: 'hello', label: 'Hello', match: { type: 'keywords', keywords: ['hello'] },
+      response: 'Hello to you too', priority: 1, enabled: true,
+    }],
+    spamRules: [],
+    chunks: [],
+    memories: [],
+    llm,
+  });
+  return createAPI(responder, ADMIN_TOKEN, llm);
+}
+
+function json(body: unknown, token?: string): RequestInit {
+  return {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json', ...(token ? { Authorization: `Bearer ${token}` } : {}) },
+    body: JSON.stringify(body),
+  };
+}
+
+async function start(api: ReturnType<typeof createApp>): Promise<{ conversationId: string; token: string }> {
+  return (await api.request('/api/chat/start', json({}))).json();
+}
+
+function reply(api: ReturnType<typeof createApp>, conversationId: string, body: unknown) {
+  return api.request(`/api/admin/conversations/${conversationId}/reply`, json(body, ADMIN_TOKEN));
+}
+
+/** Read server-sent events one at a time */
+function events(res: Response) {
+  const reader = res.body!.pipeThrough(new TextDecoderStream()).getReader();
+  let buffer = '';
+
+  return {
+    async next(): Promise<{ event: string; data: string }> {
+      while (!buffer.includes('\n\n')) {
+        const { value, done } = await reader.read();
+        if (done) throw new Error('stream ended');
+        buffer += value;
+      }
+      const end = buffer.indexOf('\n\n');
+      const block = buffer.slice(0, end);
+      buffer = buffer.slice(end + 2);
+      const field = (name: string) => block.split('\n').find(line => line.startsWith(`${name}: `))?.slice(name.length + 2) ?? '';
+      return { event: field('event'), data: field('data') };
+    },
+    close: () => reader.cancel(),
+  };
+}
+
+/** Let background jobs run until `done` holds */
+async function until(done: () => boolean) {
+  for (let i = 0; i < 100 && !done(); i++) await new Promise(resolve => setTimeout(resolve, 5));
+  expect(done()).toBe(true);
+}
+
+beforeEach(() => {
+  db.initDatabase(':memory:');
+  initSessions({ secret: 'test-secret-0123456789' });
+  initAntibot();
+  notified.length = 0;
+});
+
+afterEach(() => {
+  vi.restoreAllMocks();
+  stopRateLimit();
+});
+
+describe('bot checks', () => {
+  it('let a first message without a challenge through unless enabled', async () => {
+    const api = createApp();
+    const { conversationId, token } = await start(api);
+
+    const res = await api.request(`/api/chat/${conversationId}/message`, json({ message: 'hello' }, token));
+    expect(await res.json()).toMatchObject({ status: 'received', response: 'Hello to you too' });
+    expect(db.getConversation(conversationId)?.spam).toBe(false);
+  });
+
+  it('flag a first message without a challenge when enabled', async () => {
+    initAntibot({ enabled: true, minSeconds: 0 });
+    const api = createApp();
+    const { conversationId, token } = await start(api);
+
+    const res = await api.request(`/api/chat/${conversationId}/message`, json({ message: 'hello' }, token));
+    expect(await res.json()).toMatchObject({ status: 'received', response: 'No idea' });
+    expect(db.getConversation(conversationId)?.spam).toBe(true);
+  });
+});
+
+describe('rate limits', () => {
+  it('charge a conversation only for messages with its own token', async () => {
+    initRateLimit({ conversation: { burst: 1, perMinute: 1 } });
+    const api = createApp();
+    const { conversationId, token } = await start(api);
+
+    for (let i = 0; i < 3; i++) {
+      const forged = await api.request(`/api/chat/${conversationId}/message`, json({ message: 'hello' }, 'forged'));
+      expect(forged.status).toBe(401);
+    }
+    const res = await api.request(`/api/chat/${conversationId}/message`, json({ message: 'hello' }, token));
+    expect(res.status).toBe(200);
+    expect((await api.request(`/api/chat/${conversationId}/message`, json({ message: 'hello' }, token))).status).toBe(429);
+  });
+});
+
+describe('owner replies', () => {
+  it('deliver the reply live over SSE and pause auto-replies', async () => {
+    const api = createApp();
+    const { conversationId, token } = await start(api);
+    const stream = events(await api.request(`/api/chat/${conversationId}/events?token=${token}`));
+    expect((await stream.next()).event).toBe('connected');
+
+    const res = await reply(api, conversationId, { message: 'Hi, it is me in person.' });
+    expect(await res.json()).toMatchObject({ paused: true });
+
+    const { event, data } = await stream.next();
+    expect(event).toBe('message');
+    expect(JSON.parse(data)).toMatchObject({ role: 'aure', content: 'Hi, it is me in person.', source: 'owner' });
+    await stream.close();
+
+    expect(db.getConversation(conversationId)?.paused).toBe(true);
+    expect(db.getAllMessages(conversationId).at(-1)?.metadata).toEqual({ source: 'owner' });
+  });
+
+  it('cancel the reply being generated', async () => {
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    const api = createApp(hangingLLM());
+    const { conversationId, token } = await start(api);
+    const sent = await api.request(`/api/chat/${conversationId}/message`, json({ message: 'what is new?' }, token));
+    const { messageId } = await sent.json();
+    expect(sent.status).toBe(202);
+
+    await reply(api, conversationId, { message: 'Let me answer this one.' });
+
+    await until(() => db.hasPendingAureMessage(conversationId) === null);
+    expect(db.getAllMessages(conversationId).find(m => m.id === messageId)).toMatchObject({
+      status: 'error',
+      metadata: { error: 'cancelled' },
+    });
+  });
+
+  it('leave auto-replies on with pause: false, and reject a pause that is not a boolean', async () => {
+    const api = createApp();
+    const { conversationId } = await start(api);
+
+    expect((await reply(api, conversationId, { message: 'Just chiming in', pause: 'false' })).status).toBe(400);
+    expect(await (await reply(api, conversationId, { message: 'Just chiming in', pause: false })).json())
+      .toMatchObject({ paused: false });
+    expect(db.getConversation(conversationId)?.paused).toBe(false);
+  });
+
+  it('tell the owner when the visitor answers in a paused conversation', async () => {
+    const api = createApp();
+    const { conversationId, token } = await start(api);
+    await reply(api, conversationId, { message: 'Hi, it is me in person.' });
+
+    const res = await api.request(`/api/chat/${conversationId}/message`, json({ message: 'hello, great!' }, token));
+    const body = await res.json();
+    expect(body.status).toBe('received');
+    expect(body.response).toBeUndefined();
+
+    expect(notified).toContainEqual(expect.objectContaining({ type: 'reply', conversationId, message: 'hello, great!' }));
+    expect(db.getAllMessages(conversationId).at(-1)).toMatchObject({ role: 'visitor', content: 'hello, great!' });
+  });
+});
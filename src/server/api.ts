@@ -6,39 +6,69 @@
  *   /api/admin/*  — author-facing (token-protected)
  */
 
-import { Hono } from 'hono';
+import { Hono, type Context } from 'hono';
 import { streamSSE } from 'hono/streaming';
 import * as db from '../db/index.js';
 import type { createResponder } from '../core/responder.js';
 import type { LLMAdapter } from '../llm/provider.js';
-import { addListener, processInBackground, cancelJob } from './jobs.js';
+import { addListener, processInBackground, cancelJob, notifyListeners, getQueue, moveInQueue } from './jobs.js';
+import { buildDigest } from './digest.js';
+import { rateLimit } from './ratelimit.js';
+import { issueToken, requireSession, sessionStatus } from './session.js';
+import { checkFirstMessage, honeypotFilled, issueChallenge } from './antibot.js';
+import { classify, classifierVerdict, getClassifierStats, learnConversation } from './classifier.js';
+import { ruleContext } from './rule-context.js';
+import { continueMessageForm, isEmail, startMessageForm } from './message-form.js';
+import { ArchiveError, EXPORT_FORMATS, exportConversations, importArchive, type ExportFormat } from './archive.js';
+import { notify } from '../notify/index.js';
+import { getConfig, getReloadStatus, reloadData } from '../core/reloader.js';
+import type { AureConfig, Conversation, Message } from '../types/index.js';
 
 type Responder = ReturnType<typeof createResponder>;
 
+const REDACTED = '[redacted]';
+const DATE = /^\d{4}-\d{2}-\d{2}$/;
+const SEARCH_SOURCES = new Set(['rule', 'llm', 'fallback', 'owner', 'form']);
+const VISITOR_METADATA = new Set(['source', 'error', 'type']);
+const FORMAT_ERROR = `format must be one of: ${Object.keys(EXPORT_FORMATS).join(', ')}`;
+
 export function createAPI(responder: Responder, adminToken: string, llm: LLMAdapter) {
   const api = new Hono();
 
   // ── Visitor routes ─────────────────────────────────────
 
   /** Start a new conversation */
-  api.post('/api/chat/start', async (c) => {
+  api.post('/api/chat/start', rateLimit('start'), async (c) => {
     const body = await c.req.json().catch(() => ({}));
-    const conversation = db.createConversation(body.name, body.email);
+    const email = body.email || undefined;
+    if (email !== undefined && (typeof email !== 'string' || !isEmail(email))) {
+      return c.json({ error: 'Invalid email address' }, 400);
+    }
+    const conversation = db.createConversation(body.name, email);
 
-    const greeting = responder.greeting();
+    // Accept-Language: "ru-RU,ru;q=0.9,en;q=0.8" → "ru"
+    const language = c.req.header('Accept-Language')?.split(/[,;-]/)[0].trim().toLowerCase() || null;
+    const greeting = responder.greeting({ name: body.name, language });
     db.addMessage(conversation.id, 'aure', greeting);
 
+    // Harder proof-of-work while replies are waiting
+    const bot = issueChallenge(conversation.id, getQueue().waiting.length, honeypotFilled(body));
+
     return c.json({
       conversationId: conversation.id,
       greeting,
+      token: issueToken(conversation.id),
+      ...bot,
     });
   });
 
   /** Send a message in an existing conversation.
    *  Non-blocking: visitors can send multiple messages while LLM processes.
    *  Returns 200+received (instant rule match), 200+queued (LLM already working),
-   *  or 202+pending (LLM job started). */
-  api.post('/api/chat/:conversationId/message', async (c) => {
+   *  or 202+pending (LLM job started).
+   *  The session is checked before the rate limit, so forged tokens can't
+   *  use up a conversation's (or everyone's) message budget. */
+  api.post('/api/chat/:conversationId/message', requireSession('write'), rateLimit('message'), async (c) => {
     const { conversationId } = c.req.param();
     const body = await c.req.json();
     const { message } = body;
@@ -53,24 +83,60 @@ export function createAPI(responder: Responder, adminToken: string, llm: LLMAdap
     }
 
     // Save the visitor's message
-    const visitorMsg = db.addMessage(conversationId, 'visitor', message);
+    const firstMessage = !db.getMessages(conversationId).some(m => m.role === 'visitor');
+    // The classifier's score is kept with the message to audit false positives
+    const classified = classify(message);
+    const visitorMsg = db.addMessage(conversationId, 'visitor', message, classified ? { classifier: classified } : undefined);
+
+    // Bot checks (honeypot, timing, proof-of-work) count as a spam match
+    const bot = firstMessage ? checkFirstMessage(conversation, body) : null;
+
+    // Owner took over — keep the message for them, no auto-reply
+    if (conversation.paused) {
+      if (bot ?? responder.checkSpam(message) ?? classifierVerdict(classified)) {
+        db.updateConversation(conversationId, { spam: true });
+      } else {
+        const who = conversation.visitorName ?? 'The visitor';
+        notify({ type: 'reply', conversationId, title: `${who} replied`, message });
+      }
+      return c.json({ messageId: visitorMsg.id, status: 'received' });
+    }
 
-    // Fast path: spam check (instant, no LLM)
-    const spam = responder.checkSpam(message);
+    // Fast path: spam check (instant, no LLM) — rules first, then the classifier
+    const spam = bot ?? responder.checkSpam(message) ?? classifierVerdict(classified);
     if (spam) {
       db.updateConversation(conversationId, { spam: true });
+      notify({ type: 'spam', conversationId, title: `Spam flagged: ${spam.rule.label}`, message, rule: spam.rule.id });
       if (spam.action === 'drop') {
         return c.json({ messageId: null, status: 'dropped' });
       }
-      const aureMsg = db.addMessage(conversationId, 'aure', responder.persona.fallback);
-      return c.json({ messageId: aureMsg.id, status: 'received', response: responder.persona.fallback });
+      const fallback = responder.fallback(message, conversation.visitorName);
+      const aureMsg = db.addMessage(conversationId, 'aure', fallback, { source: 'fallback' });
+      return c.json({ messageId: aureMsg.id, status: 'received', response: fallback });
+    }
+
+    if (firstMessage) {
+      const who = conversation.visitorName ? ` from ${conversation.visitorName}` : '';
+      notify({ type: 'conversation', conversationId, title: `New conversation${who}`, message });
+    }
+
+    // An open message form takes the answer (instant, no LLM)
+    const formReply = continueMessageForm(conversation, responder.persona, message);
+    if (formReply !== null) {
+      const aureMsg = db.addMessage(conversationId, 'aure', formReply, { source: 'form' });
+      return c.json({ messageId: aureMsg.id, status: 'received', response: formReply });
     }
 
     // Fast path: keyword rules (instant, no LLM)
-    const rule = responder.checkRules(message);
+    const rule = responder.checkRules(message, ruleContext(conversationId));
     if (rule) {
-      const aureMsg = db.addMessage(conversationId, 'aure', rule.response);
-      return c.json({ messageId: aureMsg.id, status: 'received', response: rule.response });
+      notify({ type: 'rule', conversationId, title: `Rule matched: ${rule.rule.label}`, message, rule: rule.rule.id });
+      const response = rule.rule.action === 'takeMessage'
+        ? startMessageForm(conversation, responder.persona, message, rule.response)
+        : rule.response;
+      // The rule id lets later `ruleFired` conditions see it
+      const aureMsg = db.addMessage(conversationId, 'aure', response, { source: 'rule', rule: rule.rule.id });
+      return c.json({ messageId: aureMsg.id, status: 'received', response });
     }
 
     // Check if LLM is already processing for this conversation
@@ -97,7 +163,7 @@ export function createAPI(responder: Responder, adminToken: string, llm: LLMAdap
   });
 
   /** SSE stream for real-time updates on a conversation */
-  api.get('/api/chat/:conversationId/events', (c) => {
+  api.get('/api/chat/:conversationId/events', requireSession('read'), (c) => {
     const { conversationId } = c.req.param();
     const conversation = db.getConversation(conversationId);
     if (!conversation) {
@@ -133,7 +199,7 @@ export function createAPI(responder: Responder, adminToken: string, llm: LLMAdap
   });
 
   /** Cancel a pending response — aborts Ollama generation */
-  api.delete('/api/chat/:conversationId/pending', (c) => {
+  api.delete('/api/chat/:conversationId/pending', requireSession('write'), (c) => {
     const { conversationId } = c.req.param();
     const conversation = db.getConversation(conversationId);
     if (!conversation) {
@@ -156,7 +222,7 @@ export function createAPI(responder: Responder, adminToken: string, llm: LLMAdap
   });
 
   /** Poll for messages (fallback, or catch-up after reconnect) */
-  api.get('/api/chat/:conversationId/messages', (c) => {
+  api.get('/api/chat/:conversationId/messages', requireSession('read'), (c) => {
     const { conversationId } = c.req.param();
     const conversation = db.getConversation(conversationId);
     if (!conversation) {
@@ -168,19 +234,20 @@ export function createAPI(responder: Responder, adminToken: string, llm: LLMAdap
       ? db.getMessagesSince(conversationId, after)
       : db.getMessages(conversationId);
 
-    return c.json({ messages });
+    return c.json({ messages: messages.map(visitorMessage) });
   });
 
-  /** Get conversation history (for reconnecting visitors) */
-  api.get('/api/chat/:conversationId', (c) => {
+  /** Get conversation history (for reconnecting visitors).
+   *  readOnly: the session expired — history only, no new messages. */
+  api.get('/api/chat/:conversationId', requireSession('read'), (c) => {
     const { conversationId } = c.req.param();
     const conversation = db.getConversation(conversationId);
     if (!conversation) {
       return c.json({ error: 'Conversation not found' }, 404);
     }
 
-    const messages = db.getMessages(conversationId);
-    return c.json({ conversation, messages });
+    const messages = db.getMessages(conversationId).map(visitorMessage);
+    return c.json({ conversation: visitorConversation(conversation), messages, readOnly: sessionStatus(c) === 'expired' });
   });
 
   // ── Admin routes ───────────────────────────────────────
@@ -197,28 +264,58 @@ export function createAPI(responder: Responder, adminToken: string, llm: LLMAdap
   /** Get admin digest — summary since last visit */
   api.get('/api/admin/digest', adminAuth, async (c) => {
     const lastVisit = db.getLastAdminVisit();
-    const conversations = db.listConversations({ includeSpam: false });
+    const digest = buildDigest(lastVisit);
 
     db.recordAdminVisit();
 
-    for (const conv of conversations.filter(c => !c.seen)) {
-      db.updateConversation(conv.id, { seen: true });
+    for (const { conversation } of digest.conversations.filter(p => !p.conversation.seen)) {
+      db.updateConversation(conversation.id, { seen: true });
     }
 
-    return c.json({
-      since: lastVisit,
-      conversations,
-      newCount: conversations.filter(c => !c.seen).length,
-    });
+    return c.json(digest);
   });
 
-  /** List all conversations */
+  /** List all conversations — ?spam=true, ?unseen=true, ?limit=&offset= */
   api.get('/api/admin/conversations', adminAuth, (c) => {
-    const includeSpam = c.req.query('spam') === 'true';
-    const conversations = db.listConversations({ includeSpam });
+    const conversations = db.listConversations({
+      includeSpam: c.req.query('spam') === 'true',
+      unseenOnly: c.req.query('unseen') === 'true',
+      limit: intParam(c.req.query('limit'), 50, 200),
+      offset: intParam(c.req.query('offset'), 0),
+    });
     return c.json({ conversations });
   });
 
+  /** Full-text search — ?q= plus from, until, tags, pinned, seen, spam, source, limit, offset */
+  api.get('/api/admin/search', adminAuth, (c) => {
+    const q = c.req.query('q')?.trim();
+    if (!q) return c.json({ error: 'q is required' }, 400);
+
+    const { from, until, source } = c.req.query();
+    for (const [name, value] of [['from', from], ['until', until]]) {
+      if (value !== undefined && !DATE.test(value)) {
+        return c.json({ error: `${name} must be a date like 2026-08-31` }, 400);
+      }
+    }
+    if (source !== undefined && !SEARCH_SOURCES.has(source)) {
+      return c.json({ error: `source must be one of: ${[...SEARCH_SOURCES].join(', ')}` }, 400);
+    }
+
+    const results = db.searchConversations({
+      query: q,
+      from,
+      until,
+      source,
+      tags: c.req.query('tags')?.split(',').map(t => t.trim()).filter(Boolean),
+      pinned: boolParam(c.req.query('pinned')),
+      seen: boolParam(c.req.query('seen')),
+      spam: c.req.query('spam') === 'true',
+      limit: intParam(c.req.query('limit'), 20, 100),
+      offset: intParam(c.req.query('offset'), 0),
+    });
+    return c.json({ results });
+  });
+
   /** Get a specific conversation with all messages */
   api.get('/api/admin/conversations/:id', adminAuth, (c) => {
     const conversation = db.getConversation(c.req.param('id'));
@@ -228,28 +325,250 @@ export function createAPI(responder: Responder, adminToken: string, llm: LLMAdap
     return c.json({ conversation, messages });
   });
 
-  /** Update conversation (pin, mark spam, etc.) */
+  /** Update conversation (pin, mark spam, pause/resume auto-replies, etc.) */
   api.patch('/api/admin/conversations/:id', adminAuth, async (c) => {
     const body = await c.req.json();
-    db.updateConversation(c.req.param('id'), body);
+    const { spam, ...updates } = body;
+    db.updateConversation(c.req.param('id'), updates);
+    // Only marks made here teach the classifier — not automatic spam flags
+    if (typeof spam === 'boolean') {
+      db.markSpam(c.req.param('id'), spam);
+      learnConversation(c.req.param('id'), spam);
+    }
     return c.json({ ok: true });
   });
 
+  /** Export one conversation — ?format=json (default), markdown or mbox */
+  api.get('/api/admin/conversations/:id/export', adminAuth, (c) => {
+    const conversation = db.getConversation(c.req.param('id'));
+    if (!conversation) return c.json({ error: 'Not found' }, 404);
+
+    const format = exportFormat(c.req.query('format'));
+    if (!format) return c.json({ error: FORMAT_ERROR }, 400);
+    return download(c, exportConversations([conversation.id], format), format, conversation.id.slice(0, 8));
+  });
+
+  /** Export many — ?ids=a,b or all (spam too with ?spam=true), ?format= as above */
+  api.get('/api/admin/export', adminAuth, (c) => {
+    const format = exportFormat(c.req.query('format'));
+    if (!format) return c.json({ error: FORMAT_ERROR }, 400);
+
+    const ids = c.req.query('ids')?.split(',').map(id => id.trim()).filter(Boolean)
+      ?? db.listConversationIds({ includeSpam: c.req.query('spam') === 'true' });
+    return download(c, exportConversations(ids, format), format, new Date().toISOString().slice(0, 10));
+  });
+
+  /** Restore a JSON export — conversations already here are skipped as duplicates */
+  api.post('/api/admin/import', adminAuth, async (c) => {
+    const body = await c.req.json().catch(() => undefined);
+    try {
+      return c.json(importArchive(body));
+    } catch (error) {
+      if (error instanceof ArchiveError) return c.json({ error: 'Invalid archive', errors: error.errors }, 400);
+      return c.json({ error: error instanceof Error ? error.message : String(error) }, 409);
+    }
+  });
+
   /** Delete conversation */
   api.delete('/api/admin/conversations/:id', adminAuth, (c) => {
     db.deleteConversation(c.req.param('id'));
     return c.json({ ok: true });
   });
 
+  /** Reply personally in a visitor's conversation (delivered live over SSE).
+   *  Pauses auto-replies unless `pause: false`; a response in progress is cancelled. */
+  api.post('/api/admin/conversations/:id/reply', adminAuth, async (c) => {
+    const id = c.req.param('id');
+    const conversation = db.getConversation(id);
+    if (!conversation) return c.json({ error: 'Not found' }, 404);
+
+    const body = await c.req.json().catch(() => ({}));
+    const { message, pause = true } = body;
+    if (!message || typeof message !== 'string') {
+      return c.json({ error: 'Message is required' }, 400);
+    }
+    if (typeof pause !== 'boolean') {
+      return c.json({ error: 'pause must be true or false' }, 400);
+    }
+
+    if (pause) {
+      db.updateConversation(id, { paused: true });
+      const pending = db.hasPendingAureMessage(id);
+      if (pending) cancelJob(pending.id);
+    }
+
+    const ownerMsg = db.addMessage(id, 'aure', message, { source: 'owner' });
+    await notifyListeners(id, 'message', {
+      id: ownerMsg.id,
+      role: 'aure',
+      content: message,
+      status: 'received',
+      source: 'owner',
+      createdAt: ownerMsg.createdAt,
+    });
+
+    return c.json({ messageId: ownerMsg.id, paused: pause ? true : conversation.paused });
+  });
+
+  /** Throttled visitor requests per IP and hour — who is hammering the chat? */
+  api.get('/api/admin/throttled', adminAuth, (c) => {
+    const hours = Number(c.req.query('hours') ?? 24);
+    return c.json({ throttled: db.listThrottled(Number.isFinite(hours) && hours > 0 ? hours : 24) });
+  });
+
+  /** Spam classifier training size (messages per class, distinct words) */
+  api.get('/api/admin/classifier', adminAuth, (c) => {
+    return c.json({ classifier: getClassifierStats() });
+  });
+
+  /** Replies being generated and waiting, in order */
+  api.get('/api/admin/queue', adminAuth, (c) => {
+    return c.json({ queue: getQueue() });
+  });
+
+  /** Move a waiting reply to another (1-based) position, e.g. 1 to serve it next */
+  api.post('/api/admin/queue/:id/move', adminAuth, async (c) => {
+    const body = await c.req.json().catch(() => ({}));
+    if (typeof body.position !== 'number' || body.position < 1) {
+      return c.json({ error: 'position must be a number from 1' }, 400);
+    }
+    if (!moveInQueue(c.req.param('id'), body.position)) {
+      return c.json({ error: 'Not waiting in the queue' }, 404);
+    }
+    return c.json({ queue: getQueue() });
+  });
+
+  /** Dead-letter list: replies that failed after all retries */
+  api.get('/api/admin/jobs/failed', adminAuth, (c) => {
+    return c.json({ jobs: db.listFailedJobs() });
+  });
+
+  /** Try a failed reply again (as a new pending message) */
+  api.post('/api/admin/jobs/:id/retry', adminAuth, async (c) => {
+    const job = db.getJob(c.req.param('id'));
+    if (!job || job.status !== 'failed') return c.json({ error: 'Not found' }, 404);
+
+    const conversation = db.getConversation(job.conversationId);
+    if (conversation?.paused) {
+      return c.json({ error: 'Conversation is paused' }, 409);
+    }
+    if (db.hasPendingAureMessage(job.conversationId)) {
+      return c.json({ error: 'A reply is already in progress' }, 409);
+    }
+
+    db.deleteJob(job.id);
+    const pendingMsg = db.addPendingMessage(job.conversationId, 'aure');
+    processInBackground(pendingMsg.id, job.conversationId, responder);
+    await notifyListeners(job.conversationId, 'processing', { pendingMessageId: pendingMsg.id });
+
+    return c.json({ pendingMessageId: pendingMsg.id }, 202);
+  });
+
+  /** Dismiss a failed reply */
+  api.delete('/api/admin/jobs/:id', adminAuth, (c) => {
+    const job = db.getJob(c.req.param('id'));
+    if (!job || job.status !== 'failed') return c.json({ error: 'Not found' }, 404);
+
+    db.deleteJob(job.id);
+    return c.json({ ok: true });
+  });
+
+  /** Result of the last data reload (file watcher or manual) */
+  api.get('/api/admin/reload', adminAuth, (c) => {
+    return c.json({ reload: getReloadStatus() });
+  });
+
+  /** Reload the data directory now */
+  api.post('/api/admin/reload', adminAuth, async (c) => {
+    const reload = await reloadData('admin');
+    return c.json({ reload }, reload.ok ? 200 : 422);
+  });
+
+  /** Effective config, after env interpolation — secrets redacted */
+  api.get('/api/admin/config', adminAuth, (c) => {
+    const config = getConfig();
+    return c.json({ config: config && redactConfig(config) });
+  });
+
   /** Health check */
   api.get('/api/health', async (c) => {
     const llmHealthy = await llm.health();
     return c.json({
       status: llmHealthy ? 'ok' : 'degraded',
       llm: llmHealthy ? 'connected' : 'unreachable',
+      ...(llm.providers && { providers: llm.providers() }),
       version: '0.1.0',
     });
   });
 
   return api;
 }
+
+/** What a visitor may see of their conversation — not the owner's summary, tags or flags */
+function visitorConversation(conversation: Conversation): Pick<Conversation, 'id' | 'visitorName' | 'createdAt'> {
+  return { id: conversation.id, visitorName: conversation.visitorName, createdAt: conversation.createdAt };
+}
+
+/**
+ * A message as the visitor's chat sees it. Metadata is for the owner
+ * (classifier scores, prompt sources, ...) — only what the chat needs
+ * to show a message or a failed reply stays.
+ */
+function visitorMessage(message: Message): Message {
+  const metadata = Object.fromEntries(
+    Object.entries(message.metadata ?? {}).filter(([key]) => VISITOR_METADATA.has(key))
+  );
+  return { ...message, metadata };
+}
+
+/** An export as a file download: aure-<name>.<extension> */
+function download(c: Context, body: string, format: ExportFormat, name: string) {
+  const { contentType, extension } = EXPORT_FORMATS[format];
+  return c.body(body, 200, {
+    'Content-Type': contentType,
+    'Content-Disposition': `attachment; filename="aure-${name}.${extension}"`,
+  });
+}
+
+/** ?format= of an export, json by default; null if unknown */
+function exportFormat(value = 'json'): ExportFormat | null {
+  return Object.hasOwn(EXPORT_FORMATS, value) ? value as ExportFormat : null;
+}
+
+/** A non-negative integer query parameter, capped at max */
+function intParam(value: string | undefined, fallback: number, max = Infinity): number {
+  const n = Number(value);
+  return value !== undefined && Number.isInteger(n) && n >= 0 ? Math.min(n, max) : fallback;
+}
+
+/** "true" / "false", anything else: no filter */
+function boolParam(value: string | undefined): boolean | undefined {
+  return value === 'true' ? true : value === 'false' ? false : undefined;
+}
+
+/**
+ * Copy of the config that is safe to show: the admin token, provider
+ * API keys, session secret and notification credentials are replaced,
+ * whether typed in or from ${VAR}.
+ */
+function redactConfig(config: AureConfig): AureConfig {
+  const providers = Array.isArray(config.provider) ? config.provider : [config.provider];
+  const redacted = providers.map(p => ('apiKey' in p && p.apiKey ? { ...p, apiKey: REDACTED } : p));
+
+  const notifications = config.notifications?.map(n => {
+    switch (n.type) {
+      case 'webhook': return n.secret ? { ...n, secret: REDACTED } : n;
+      case 'email': return n.pass ? { ...n, pass: REDACTED } : n;
+      case 'ntfy': return n.token ? { ...n, token: REDACTED } : n;
+      default: return n;
+    }
+  });
+
+  return {
+    ...config,
+    provider: Array.isArray(config.provider) ? redacted : redacted[0],
+    admin: { ...config.admin, token: REDACTED },
+    ...(config.session?.secret && { session: { ...config.session, secret: REDACTED } }),
+    ...(notifications && { notifications }),
+  };
+}
@@ -0,0 +1,128 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import * as db from '../db/index.js';
+import { exportConversations, importArchive, parseArchive, ArchiveError } from './archive.js';
+
+beforeEach(() => {
+  db.initDatabase(':memory:');
+});
+
+function sample() {
+  const conv = db.createConversation('Анна', 'anna@example.com');
+  db.addMessage(conv.id, 'visitor', 'Do you write Rust?\nFrom what I read, yes.');
+  db.addMessage(conv.id, 'aure', 'Yes, mostly at work.', { source: 'llm', provider: 'ollama' });
+  const pending = db.addPendingMessage(conv.id, 'aure');
+  db.resolvePendingMessage(pending.id, '', 'error', { error: 'timeout' });
+  db.updateConversation(conv.id, { tags: ['job'], pinned: true });
+  return conv;
+}
+
+describe('JSON export and import', () => {
+  it('fails replies that were still pending, so the conversation is not busy forever', () => {
+    const conv = db.createConversation();
+    db.addMessage(conv.id, 'visitor', 'hello?');
+    const pending = db.addPendingMessage(conv.id, 'aure');
+    const archive = JSON.parse(exportConversations([conv.id], 'json'));
+
+    db.initDatabase(':memory:');
+    importArchive(archive);
+
+    expect(db.hasPendingAureMessage(conv.id)).toBeNull();
+    expect(db.getAllMessages(conv.id).find(m => m.id === pending.id)).toMatchObject({
+      status: 'error',
+      metadata: { error: 'interrupted (imported while pending)' },
+    });
+  });
+
+  it('restores ids, timestamps, statuses and metadata, skipping duplicates', () => {
+    const conv = sample();
+    const before = { conversation: db.getConversation(conv.id), messages: db.getAllMessages(conv.id) };
+    const archive = JSON.parse(exportConversations([conv.id, 'missing'], 'json'));
+    expect(archive.conversations).toHaveLength(1);
+
+    db.initDatabase(':memory:');
+    expect(importArchive(archive)).toEqual({ imported: [conv.id], duplicates: [] });
+    expect({ conversation: db.getConversation(conv.id), messages: db.getAllMessages(conv.id) }).toEqual(before);
+    expect(db.searchConversations({ query: 'rust' })).toHaveLength(1);
+
+    expect(importArchive(archive)).toEqual({ imported: [], duplicates: [conv.id] });
+  });
+
+  it('reports every problem and writes nothing', () => {
+    const archive = JSON.parse(exportConversations([sample().id], 'json'));
+    archive.conversations[0].conversation.id = 'new-id';
+    archive.conversations[0].messages[0].role = 'bot';
+    archive.conversations.push({ conversation: {} });
+
+    expect(() => parseArchive({ conversations: [] })).toThrow(/not an aure archive/);
+    try {
+      importArchive(archive);
+      expect.unreachable();
+    } catch (error) {
+      expect((error as ArchiveError).errors).toEqual([
+        'conversations[0].messages[0].role must be visitor or aure',
+        'conversations[1] must have a conversation and a list of messages',
+      ]);
+    }
+    expect(db.getConversation('new-id')).toBeNull();
+  });
+
+  it('rejects ids that could inject mbox headers', () => {
+    const archive = JSON.parse(exportConversations([sample().id], 'json'));
+    archive.conversations[0].conversation.id = 'c1\r\nBcc: victim@example.com';
+    archive.conversations[0].messages[0].id = 'm1>\nX-Injected: yes';
+
+    try {
+      importArchive(archive);
+      expect.unreachable();
+    } catch (error) {
+      expect((error as ArchiveError).errors).toEqual([
+        "conversations[0].conversation.id may only contain letters, digits, '.', '_' and '-'",
+        "conversations[0].messages[0].id may only contain letters, digits, '.', '_' and '-'",
+      ]);
+    }
+  });
+
+  it('aborts when a message id belongs to another conversation', () => {
+    const archive = JSON.parse(exportConversations([sample().id], 'json'));
+    archive.conversations[0].conversation.id = 'copy';
+
+    expect(() => importArchive(archive)).toThrow(/already exists in another conversation/);
+    expect(db.getConversation('copy')).toBeNull();
+  });
+});
+
+describe('readable exports', () => {
+  it('writes a Markdown transcript without failed replies', () => {
+    const markdown = exportConversations([sample().id], 'markdown');
+
+    expect(markdown).toMatch(/^# Conversation with Анна\n\n- Started: \d{4}-\d{2}-\d{2} \d{2}:\d{2} UTC\n- Email: anna@example.com\n- Tags: job\n/);
+    expect(markdown).toContain('> Do you write Rust?\n> From what I read, yes.');
+    expect(markdown).toMatch(/\*\*aure\*\* · .* UTC · llm\n\n> Yes, mostly at work\./);
+    expect(markdown).not.toContain('timeout');
+  });
+
+  it('writes threaded mbox mail with encoded names and escaped From lines', () => {
+    const conv = sample();
+    const [question, answer] = db.getAllMessages(conv.id);
+    const mbox = exportConversations([conv.id], 'mbox');
+    const mails = mbox.split(/^(?=From \S+ \w{3} \w{3} [ \d]\d \d\d:\d\d:\d\d \d{4}$)/m);
+
+    expect(mails).toHaveLength(2);
+    expect(mails[0]).toContain('From: =?UTF-8?B?0JDQvdC90LA=?= <anna@example.com>\nTo: "aure" <aure@aure.invalid>');
+    expect(mails[0]).toContain('Subject: =?UTF-8?B?');
+    expect(mails[0]).toContain('\n\nDo you write Rust?\n>From what I read, yes.\n');
+    expect(mails[1]).toContain(`In-Reply-To: <${question.id}@aure>`);
+    expect(mails[1]).toContain(`Message-ID: <${answer.id}@aure>`);
+  });
+
+  it('replaces an email that could break out of the headers', () => {
+    const conv = db.createConversation('Eve', 'eve@example.com\r\nBcc: all@example.com');
+    db.addMessage(conv.id, 'visitor', 'hi');
+    const mbox = exportConversations([conv.id], 'mbox');
+    const address = `visitor-${conv.id.slice(0, 8)}@aure.invalid`;
+
+    expect(mbox).not.toContain('Bcc:');
+    expect(mbox.startsWith(`From ${address} `)).toBe(true);
+    expect(mbox).toContain(`From: "Eve" <${address}>`);
+  });
+});
@@ -0,0 +1,279 @@
+/**
+ * Conversation archives — to move conversations off the Pi, or share one.
+ *
+ *   json      everything, as stored (metadata, statuses, ids): the only
+ *             format that imports back
+ *   markdown  a readable transcript
+ *   mbox      one mail per message, threaded, for a mail client
+ *
+ * Import restores a JSON archive into aure.db with its ids and
+ * timestamps; conversations already there count as duplicates.
+ */
+
+import * as db from '../db/index.js';
+import { isEmail } from './message-form.js';
+import type { Conversation, Message, MessageStatus } from '../types/index.js';
+
+export type ExportFormat = 'json' | 'markdown' | 'mbox';
+
+export const EXPORT_FORMATS: Record<ExportFormat, { contentType: string; extension: string }> = {
+  json: { contentType: 'application/json; charset=utf-8', extension: 'json' },
+  markdown: { contentType: 'text/markdown; charset=utf-8', extension: 'md' },
+  mbox: { contentType: 'application/mbox', extension: 'mbox' },
+};
+
+export interface ArchivedConversation {
+  conversation: Conversation;
+  messages: Message[];
+}
+
+export interface Archive {
+  format: 'aure-archive';
+  version: 1;
+  exportedAt: string;
+  conversations: ArchivedConversation[];
+}
+
+export class ArchiveError extends Error {
+  constructor(public errors: string[]) {
+    super(`Invalid archive:\n  ${errors.join('\n  ')}`);
+    this.name = 'ArchiveError';
+  }
+}
+
+const STATUSES = new Set<MessageStatus>(['received', 'read', 'archived', 'spam', 'pending', 'error']);
+const AURE_ADDRESS = 'aure@aure.invalid';
+/** Ids end up in URLs and mbox headers (Message-ID, X-Aure-Conversation) */
+const ID_PATTERN = /^[A-Za-z0-9._-]+$/;
+
+/** Conversations by id, in the given format (unknown ids are skipped) */
+export function exportConversations(ids: string[], format: ExportFormat): string {
+  const conversations = ids.flatMap(id => {
+    const conversation = db.getConversation(id);
+    return conversation ? [{ conversation, messages: db.getAllMessages(id) }] : [];
+  });
+
+  switch (format) {
+    case 'json': {
+      const archive: Archive = { format: 'aure-archive', version: 1, exportedAt: new Date().toISOString(), conversations };
+      return JSON.stringify(archive, null, 2);
+    }
+    case 'markdown': return conversations.map(toMarkdown).join('\n---\n\n');
+    case 'mbox': return conversations.map(toMbox).join('');
+  }
+}
+
+/** Restore a JSON archive. Throws ArchiveError (nothing written) if it doesn't check out. */
+export function importArchive(raw: unknown): { imported: string[]; duplicates: string[] } {
+  return db.importConversations(parseArchive(raw));
+}
+
+/** Check a parsed JSON archive, filling in optional fields */
+export function parseArchive(raw: unknown): ArchivedConversation[] {
+  if (!isObject(raw) || raw.format !== 'aure-archive') {
+    throw new ArchiveError(['not an aure archive (export one with format=json)']);
+  }
+  if (raw.version !== 1) throw new ArchiveError([`unsupported archive version ${raw.version}`]);
+  if (!Array.isArray(raw.conversations)) throw new ArchiveError(['conversations must be a list']);
+
+  const errors: string[] = [];
+  const result = raw.conversations.map((entry: unknown, i): ArchivedConversation | null => {
+    const path = `conversations[${i}]`;
+    if (!isObject(entry) || !isObject(entry.conversation) || !Array.isArray(entry.messages)) {
+      errors.push(`${path} must have a conversation and a list of messages`);
+      return null;
+    }
+
+    const c = entry.conversation;
+    const before = errors.length;
+    for (const key of ['id', 'createdAt', 'updatedAt'] as const) {
+      if (typeof c[key] !== 'string' || c[key] === '') errors.push(`${path}.conversation.${key} is required`);
+    }
+    if (typeof c.id === 'string' && c.id !== '' && !ID_PATTERN.test(c.id)) {
+      errors.push(`${path}.conversation.id may only contain letters, digits, '.', '_' and '-'`);
+    }
+    for (const key of ['visitorName', 'visitorEmail', 'summary', 'leftMessage', 'messageLeftAt'] as const) {
+      if (c[key] !== undefined && c[key] !== null && typeof c[key] !== 'string') {
+        errors.push(`${path}.conversation.${key} must be a string or null`);
+      }
+    }
+    if (c.tags !== undefined && !(Array.isArray(c.tags) && c.tags.every(t => typeof t === 'string'))) {
+      errors.push(`${path}.conversation.tags must be a list of strings`);
+    }
+
+    entry.messages.forEach((m: unknown, j) => {
+      const at = `${path}.messages[${j}]`;
+      if (!isObject(m)) {
+        errors.push(`${at} must be an object`);
+        return;
+      }
+      if (typeof m.id !== 'string' || m.id === '') errors.push(`${at}.id is required`);
+      else if (!ID_PATTERN.test(m.id)) errors.push(`${at}.id may only contain letters, digits, '.', '_' and '-'`);
+      if (m.role !== 'visitor' && m.role !== 'aure') errors.push(`${at}.role must be visitor or aure`);
+      if (typeof m.content !== 'string') errors.push(`${at}.content must be a string`);
+      if (!STATUSES.has(m.status as MessageStatus)) errors.push(`${at}.status must be one of: ${[...STATUSES].join(', ')}`);
+      if (typeof m.createdAt !== 'string') errors.push(`${at}.createdAt is required`);
+      if (m.metadata !== undefined && !isObject(m.metadata)) errors.push(`${at}.metadata must be an object`);
+    });
+    if (errors.length > before) return null;
+
+    const conversation: Conversation = {
+      id: c.id as string,
+      visitorName: (c.visitorName as string | undefined) ?? null,
+      visitorEmail: (c.visitorEmail as string | undefined) ?? null,
+      summary: (c.summary as string | undefined) ?? null,
+      tags: (c.tags as string[] | undefined) ?? [],
+      spam: !!c.spam,
+      spamMark: typeof c.spamMark === 'boolean' ? c.spamMark : null,
+      seen: !!c.seen,
+      pinned: !!c.pinned,
+      paused: !!c.paused,
+      leftMessage: (c.leftMessage as string | undefined) ?? null,
+      messageLeftAt: (c.messageLeftAt as string | undefined) ?? null,
+      createdAt: c.createdAt as string,
+      updatedAt: c.updatedAt as string,
+    };
+    const messages = (entry.messages as Record<string, unknown>[]).map((m): Message => ({
+      id: m.id as string,
+      conversationId: conversation.id,
+      role: m.role as Message['role'],
+      content: m.content as string,
+      status: m.status as MessageStatus,
+      createdAt: m.createdAt as string,
+      metadata: (m.metadata as Record<string, unknown> | undefined) ?? {},
+    }));
+    return { conversation, messages };
+  });
+
+  if (errors.length > 0) throw new ArchiveError(errors);
+  return result as ArchivedConversation[];
+}
+
+// ── Markdown ───────────────────────────────────────────────
+
+function toMarkdown({ conversation: c, messages }: ArchivedConversation): string {
+  const lines = [`# ${title(c)}`, ''];
+
+  lines.push(`- Started: ${formatTime(c.createdAt)}`);
+  if (c.visitorEmail) lines.push(`- Email: ${c.visitorEmail}`);
+  if (c.tags.length > 0) lines.push(`- Tags: ${c.tags.join(', ')}`);
+  if (c.spam) lines.push('- Marked as spam');
+  if (c.summary) lines.push(`- Summary: ${c.summary}`);
+  lines.push('');
+
+  if (c.leftMessage) {
+    lines.push(`## Message left ${c.messageLeftAt ? `(${formatTime(c.messageLeftAt)})` : ''}`.trim(), '', quote(c.leftMessage), '');
+  }
+
+  for (const m of transcript(messages)) {
+    const source = m.role === 'aure' && typeof m.metadata?.source === 'string' ? ` · ${m.metadata.source}` : '';
+    lines.push(`**${speaker(c, m)}** · ${formatTime(m.createdAt)}${source}`, '', quote(m.content), '');
+  }
+
+  return lines.join('\n');
+}
+
+function quote(text: string): string {
+  return text.trimEnd().split('\n').map(line => (line ? `> ${line}` : '>')).join('\n');
+}
+
+// ── mbox ───────────────────────────────────────────────────
+
+/** mboxrd: every message a mail, replies threaded on the one before */
+function toMbox({ conversation: c, messages }: ArchivedConversation): string {
+  const address = visitorAddress(c);
+  const visitor = mailbox(c.visitorName ?? 'Visitor', address);
+  const aure = mailbox('aure', AURE_ADDRESS);
+  const subject = encodeWord(title(c));
+
+  let root: string | null = null;
+  let previous: string | null = null;
+  let out = '';
+
+  for (const m of transcript(messages)) {
+    const date = parseTime(m.createdAt);
+    const [from, to] = m.role === 'visitor' ? [visitor, aure] : [mailbox(speaker(c, m), AURE_ADDRESS), visitor];
+    const id = `<${m.id}@aure>`;
+
+    out += [
+      `From ${m.role === 'visitor' ? address : AURE_ADDRESS} ${asctime(date)}`,
+      `From: ${from}`,
+      `To: ${to}`,
+      `Subject: ${previous ? 'Re: ' : ''}${subject}`,
+      `Date: ${date.toUTCString()}`,
+      `Message-ID: ${id}`,
+      ...(previous ? [`In-Reply-To: ${previous}`, `References: ${root === previous ? root : `${root} ${previous}`}`] : []),
+      `X-Aure-Conversation: ${c.id}`,
+      'MIME-Version: 1.0',
+      'Content-Type: text/plain; charset=utf-8',
+      'Content-Transfer-Encoding: 8bit',
+      '',
+      // mboxrd: a body line starting with "From " (after any ">") gets one more ">"
+      m.content.trimEnd().replace(/^(>*From )/gm, '>$1'),
+      '',
+      '',
+    ].join('\n');
+
+    root ??= id;
+    previous = id;
+  }
+  return out;
+}
+
+/**
+ * The visitor's email if it's a plain address. Anything else (imported
+ * archives aren't checked, older conversations weren't either) could
+ * break out of the header, so it gets a made-up one.
+ */
+function visitorAddress(c: Conversation): string {
+  const email = c.visitorEmail;
+  return email && isEmail(email) && !/[<>"]/.test(email) ? email : `visitor-${c.id.slice(0, 8)}@aure.invalid`;
+}
+
+function mailbox(name: string, address: string): string {
+  return `${encodeWord(name, true)} <${address}>`;
+}
+
+/** RFC 2047 for non-ASCII header text; a quoted string for display names */
+function encodeWord(text: string, phrase = false): string {
+  if (/^[\x20-\x7e]*$/.test(text)) {
+    return phrase ? `"${text.replace(/["\\]/g, '\\$&')}"` : text;
+  }
+  return `=?UTF-8?B?${Buffer.from(text).toString('base64')}?=`;
+}
+
+/** "Mon Oct 19 19:13:00 2026" for the mbox From line */
+function asctime(date: Date): string {
+  const [weekday, day, month, year, time] = date.toUTCString().replace(',', '').split(' ');
+  return `${weekday} ${month} ${day.padStart(2, ' ')} ${time} ${year}`;
+}
+
+// ── Shared ─────────────────────────────────────────────────
+
+/** Messages worth reading — not the placeholders of pending or failed replies */
+function transcript(messages: Message[]): Message[] {
+  return messages.filter(m => m.content !== '' && m.status !== 'pending' && m.status !== 'error');
+}
+
+function title(c: Conversation): string {
+  return `Conversation with ${c.visitorName ?? 'a visitor'}`;
+}
+
+function speaker(c: Conversation, m: Message): string {
+  if (m.role === 'visitor') return c.visitorName ?? 'Visitor';
+  return m.metadata?.source === 'owner' ? 'Owner' : 'aure';
+}
+
+/** Timestamps are ISO or SQLite's "2026-10-19 19:13:00" (UTC, no zone) */
+function parseTime(value: string): Date {
+  return new Date(value.includes('T') ? value : `${value.replace(' ', 'T')}Z`);
+}
+
+function formatTime(value: string): string {
+  const date = parseTime(value);
+  return Number.isNaN(date.getTime()) ? value : `${date.toISOString().slice(0, 16).replace('T', ' ')} UTC`;
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
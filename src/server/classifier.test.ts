@@ -0,0 +1,92 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import * as db from '../db/index.js';
+import { tokenize, createClassifier, initClassifier, classify, classifierVerdict, learnConversation, getClassifierStats } from './classifier.js';
+
+const SPAM = ['buy cheap crypto now', 'cheap seo backlinks for sale', 'crypto investment guaranteed returns'];
+const HAM = ['are you open to a frontend role', 'loved your talk on rust', 'can we grab coffee next week'];
+
+describe('tokenize', () => {
+  it('lowercases, dedupes and marks links', () => {
+    expect(tokenize('Buy BUY now! https://spam.example/x a')).toEqual(['buy', 'now', '__url__']);
+  });
+});
+
+describe('createClassifier', () => {
+  it('scores by the words seen in each class', () => {
+    const model = createClassifier();
+    SPAM.forEach(text => model.learn(text, 'spam'));
+    HAM.forEach(text => model.learn(text, 'ham'));
+
+    expect(model.score('cheap crypto').score).toBeGreaterThan(0.8);
+    expect(model.score('coffee next week, frontend role?').score).toBeLessThan(0.1);
+    expect(model.score('cheap crypto').features.map(f => f.token)).toEqual(['cheap', 'crypto']);
+  });
+
+  it('unlearns an example', () => {
+    const model = createClassifier();
+    model.learn('cheap crypto', 'spam');
+    model.learn('cheap crypto', 'spam', -1);
+    expect(model.stats()).toEqual({ spam: 0, ham: 0, tokens: 0 });
+  });
+});
+
+describe('classifier module', () => {
+  function conversation(messages: string[], spam: boolean): string {
+    const { id } = db.createConversation();
+    messages.forEach(text => db.addMessage(id, 'visitor', text));
+    db.markSpam(id, spam);
+    return id;
+  }
+
+  beforeEach(() => {
+    db.initDatabase(':memory:');
+  });
+
+  it('trains from spam marks in the database', () => {
+    conversation(SPAM, true);
+    conversation(HAM, false);
+
+    expect(initClassifier({ enabled: true, minExamples: 3 })).toEqual({ spam: 3, ham: 3 });
+    const result = classify('cheap crypto for sale');
+    expect(result).toMatchObject({ spam: true });
+    expect(classifierVerdict(result)).toEqual({
+      rule: { id: 'classifier', label: `Spam classifier (score ${result!.score})` },
+      action: 'flag',
+    });
+    expect(classify('coffee next week?')).toMatchObject({ spam: false });
+  });
+
+  it('stays silent until both classes have enough examples', () => {
+    conversation(SPAM, true);
+    initClassifier({ enabled: true, minExamples: 3 });
+    expect(classify('cheap crypto')).toBeNull();
+
+    initClassifier({ enabled: false });
+    expect(classify('cheap crypto')).toBeNull();
+  });
+
+  it('ignores spam flags an admin did not set', () => {
+    const { id } = db.createConversation();
+    db.addMessage(id, 'visitor', 'cheap crypto');
+    db.updateConversation(id, { spam: true });
+    db.addMessage(db.createConversation().id, 'visitor', 'hello there');
+
+    expect(initClassifier({ enabled: true })).toEqual({ spam: 0, ham: 0 });
+  });
+
+  it('moves a conversation between classes when an admin marks it', () => {
+    const id = conversation(['cheap backlinks', 'cheap crypto'], false);
+    initClassifier({ enabled: true });
+    expect(getClassifierStats()).toMatchObject({ spam: 0, ham: 2 });
+
+    db.addMessage(id, 'visitor', 'buy now');
+    db.markSpam(id, true);
+    learnConversation(id, true);
+    expect(getClassifierStats()).toMatchObject({ spam: 3, ham: 0 });
+
+    learnConversation(id, true);
+    db.markSpam(id, false);
+    learnConversation(id, false);
+    expect(getClassifierStats()).toMatchObject({ spam: 0, ham: 3 });
+  });
+});
@@ -0,0 +1,170 @@
+/**
+ * Spam classifier — naive Bayes learned from the admin's spam marks.
+ *
+ * Spam rules catch what the owner thought of; the classifier catches
+ * what they keep marking by hand. Visitor messages in conversations
+ * an admin marked spam are spam examples, those they marked not spam
+ * are non-spam ("ham") examples. Automatic flags (spam rules, bot
+ * checks, the classifier itself) never count, so the model doesn't
+ * learn its own verdicts. The model is built from the database on
+ * startup and updated whenever an admin marks or unmarks a conversation.
+ *
+ * Each scored message keeps its score and the words that weighed most
+ * in its metadata, so a false positive can be traced.
+ */
+
+import * as db from '../db/index.js';
+import type { SpamClassifierConfig } from '../types/index.js';
+import type { SpamVerdict } from '../core/rules-engine.js';
+
+export type Label = 'spam' | 'ham';
+
+export interface Feature {
+  token: string;
+  /** Log-likelihood ratio: > 0 points to spam, < 0 to ham */
+  weight: number;
+}
+
+export interface Classification {
+  /** Spam probability, 0–1 */
+  score: number;
+  spam: boolean;
+  /** Up to five tokens with the largest weight either way */
+  features: Feature[];
+}
+
+const DEFAULTS = {
+  threshold: 0.9,
+  minExamples: 20,
+};
+
+const MAX_FEATURES = 5;
+
+/** Lowercased words (2+ letters or digits), once each; links become "__url__" */
+export function tokenize(text: string): string[] {
+  const lower = text.toLowerCase();
+  const tokens = new Set(lower.replace(/https?:\/\/\S+/g, ' __url__ ').match(/__url__|[\p{L}\p{N}]{2,30}/gu) ?? []);
+  return [...tokens];
+}
+
+/**
+ * In-memory model. Counts, per class, the messages and the messages
+ * containing each token; learn() with -1 takes an example back out.
+ */
+export function createClassifier() {
+  const docs = { spam: 0, ham: 0 };
+  const tokens = new Map<string, { spam: number; ham: number }>();
+
+  return {
+    learn(text: string, label: Label, weight: 1 | -1 = 1): void {
+      docs[label] = Math.max(0, docs[label] + weight);
+      for (const token of tokenize(text)) {
+        const counts = tokens.get(token) ?? { spam: 0, ham: 0 };
+        counts[label] = Math.max(0, counts[label] + weight);
+        if (counts.spam + counts.ham === 0) tokens.delete(token);
+        else tokens.set(token, counts);
+      }
+    },
+
+    /** Spam probability with Laplace smoothing; tokens never seen are ignored */
+    score(text: string): { score: number; features: Feature[] } {
+      let logOdds = Math.log((docs.spam + 1) / (docs.ham + 1));
+      const features: Feature[] = [];
+
+      for (const token of tokenize(text)) {
+        const counts = tokens.get(token);
+        if (!counts) continue;
+        const weight = Math.log(((counts.spam + 1) / (docs.spam + 2)) / ((counts.ham + 1) / (docs.ham + 2)));
+        logOdds += weight;
+        features.push({ token, weight });
+      }
+
+      return {
+        score: 1 / (1 + Math.exp(-logOdds)),
+        features: features
+          .sort((a, b) => Math.abs(b.weight) - Math.abs(a.weight))
+          .slice(0, MAX_FEATURES)
+          .map(f => ({ token: f.token, weight: Math.round(f.weight * 100) / 100 })),
+      };
+    },
+
+    stats() {
+      return { ...docs, tokens: tokens.size };
+    },
+  };
+}
+
+// ── Module state ───────────────────────────────────────────
+
+let config: SpamClassifierConfig = {};
+let model = createClassifier();
+/** How each conversation is counted in the model, and how many of its messages */
+const learned = new Map<string, { label: Label; count: number }>();
+
+/** Build the model from every visitor message in the database */
+export function initClassifier(next: SpamClassifierConfig = {}): { spam: number; ham: number } {
+  config = next;
+  model = createClassifier();
+  learned.clear();
+
+  if (!config.enabled) return { spam: 0, ham: 0 };
+
+  for (const row of db.getVisitorMessagesForTraining()) {
+    const label = row.spam ? 'spam' : 'ham';
+    model.learn(row.content, label);
+    const entry = learned.get(row.conversationId);
+    learned.set(row.conversationId, { label, count: (entry?.count ?? 0) + 1 });
+  }
+
+  const { spam, ham } = model.stats();
+  return { spam, ham };
+}
+
+/**
+ * Score a message. Null while disabled or until both classes have
+ * `minExamples` messages — an undertrained model flags everything.
+ */
+export function classify(message: string): Classification | null {
+  if (!config.enabled) return null;
+
+  const minExamples = config.minExamples ?? DEFAULTS.minExamples;
+  const { spam, ham } = model.stats();
+  if (spam < minExamples || ham < minExamples) return null;
+
+  const { score, features } = model.score(message);
+  return {
+    score: Math.round(score * 1000) / 1000,
+    spam: score >= (config.threshold ?? DEFAULTS.threshold),
+    features,
+  };
+}
+
+/** A spam classification as a verdict for the spam path (null when not spam) */
+export function classifierVerdict(result: Classification | null): SpamVerdict | null {
+  if (!result?.spam) return null;
+  return {
+    rule: { id: 'classifier', label: `Spam classifier (score ${result.score})` },
+    action: config.action ?? 'flag',
+  };
+}
+
+/** An admin marked (or unmarked) a conversation — move its messages to that class */
+export function learnConversation(conversationId: string, spam: boolean): void {
+  if (!config.enabled) return;
+
+  const label: Label = spam ? 'spam' : 'ham';
+  const previous = learned.get(conversationId);
+  if (previous?.label === label) return;
+
+  // Messages arrive in rowid order, so the first `count` are the ones learned before
+  const rows = db.getVisitorMessagesForTraining(conversationId);
+  rows.forEach((row, i) => {
+    if (previous && i < previous.count) model.learn(row.content, previous.label, -1);
+    model.learn(row.content, label);
+  });
+  learned.set(conversationId, { label, count: rows.length });
+}
+
+export function getClassifierStats() {
+  return { enabled: !!config.enabled, ...model.stats() };
+}
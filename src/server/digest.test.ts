@@ -0,0 +1,188 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import * as db from '../db/index.js';
+import type { LLMAdapter, LLMMessage } from '../llm/provider.js';
+import { summarizePending, buildDigest, parseSummary } from './digest.js';
+
+/** Fake LLM: replies with JSON for conversations, plain text for the overall paragraph */
+function fakeLLM(reply: (messages: LLMMessage[]) => string = defaultReply) {
+  const calls: LLMMessage[][] = [];
+  const llm: LLMAdapter = {
+    name: 'fake',
+    async chat(messages) {
+      calls.push(messages);
+      return { content: reply(messages) };
+    },
+    async *chatStream() {
+      throw new Error('not used');
+    },
+    async health() {
+      return true;
+    },
+  };
+  return { llm, calls };
+}
+
+function defaultReply(messages: LLMMessage[]): string {
+  const text = messages[1].content;
+  if (messages[0].content.includes('one short paragraph')) return 'Overall: ' + text.split('\n').length + ' items.';
+  const job = text.includes('hire');
+  return JSON.stringify({
+    summary: job ? 'A recruiter asked about a role.' : 'Someone said hi.',
+    topic: job ? 'Job offer' : 'Greeting',
+    tags: job ? ['Job', 'recruiter'] : ['smalltalk'],
+    relevance: job ? 0.9 : 0.1,
+  });
+}
+
+function conversation(...messages: string[]) {
+  const conv = db.createConversation();
+  messages.forEach((content, i) => db.addMessage(conv.id, i % 2 === 0 ? 'visitor' : 'aure', content));
+  return conv;
+}
+
+beforeEach(() => {
+  db.initDatabase(':memory:');
+});
+
+describe('summarizePending', () => {
+  it('summarises quiet conversations and stores summary, tags, topic and relevance', async () => {
+    const conv = conversation('Do you want to hire me? I mean, can I hire you?', 'I will pass it on.');
+    const { llm } = fakeLLM();
+
+    expect(await summarizePending(llm, 0)).toBe(1);
+
+    const stored = db.getConversation(conv.id)!;
+    expect(stored.summary).toBe('A recruiter asked about a role.');
+    expect(stored.tags).toEqual(['job', 'recruiter']);
+    expect(db.getSummary(conv.id)).toMatchObject({ topic: 'Job offer', relevance: 0.9 });
+  });
+
+  it('waits until a conversation goes quiet', async () => {
+    conversation('hello');
+    const { llm, calls } = fakeLLM();
+
+    expect(await summarizePending(llm, 600)).toBe(0);
+    expect(calls).toHaveLength(0);
+  });
+
+  it('uses the cache until new messages arrive', async () => {
+    const conv = conversation('hello', 'hi!');
+    const { llm } = fakeLLM();
+
+    expect(await summarizePending(llm, 0)).toBe(1);
+    expect(await summarizePending(llm, 0)).toBe(0);
+
+    db.addMessage(conv.id, 'visitor', 'actually, can I hire you?');
+    expect(await summarizePending(llm, 0)).toBe(1);
+    expect(db.getSummary(conv.id)?.topic).toBe('Job offer');
+  });
+
+  it('skips spam and conversations with a pending response', async () => {
+    const spam = conversation('buy crypto');
+    db.updateConversation(spam.id, { spam: true });
+    const busy = conversation('hello');
+    db.addPendingMessage(busy.id, 'aure');
+    const { llm } = fakeLLM();
+
+    expect(await summarizePending(llm, 0)).toBe(0);
+  });
+
+  it('skips a conversation whose summary fails and carries on with the rest', async () => {
+    const broken = conversation('this one breaks the model');
+    const fine = conversation('hello');
+    const { llm, calls } = fakeLLM((messages) => {
+      if (messages[1].content.includes('breaks')) throw new Error('model crashed');
+      return defaultReply(messages);
+    });
+
+    expect(await summarizePending(llm, 0)).toBe(1);
+    expect(db.getConversation(fine.id)?.summary).toBe('Someone said hi.');
+    expect(db.getSummary(broken.id)).toBeNull();
+
+    // Not retried on every run, only once it has something new
+    const before = calls.length;
+    expect(await summarizePending(llm, 0)).toBe(0);
+    expect(calls.length).toBe(before);
+  });
+
+  it('keeps a non-JSON reply as the summary', async () => {
+    const conv = conversation('What do you think about Rust?');
+    const { llm } = fakeLLM(() => 'The visitor asked about Rust.');
+
+    await summarizePending(llm, 0);
+
+    expect(db.getConversation(conv.id)?.summary).toBe('The visitor asked about Rust.');
+    expect(db.getSummary(conv.id)).toMatchObject({ topic: 'What do you think about Rust?', relevance: 0.5 });
+  });
+});
+
+describe('buildDigest', () => {
+  it('sorts by relevance and uses the prepared overall paragraph', async () => {
+    const hello = conversation('hello');
+    const job = conversation('can I hire you?');
+    const { llm } = fakeLLM();
+
+    await summarizePending(llm, 0);
+    const digest = buildDigest(null);
+
+    expect(digest.conversations.map(p => p.conversation.id)).toEqual([job.id, hello.id]);
+    expect(digest.conversations[0]).toMatchObject({ topic: 'Job offer', relevance: 0.9 });
+    expect(digest.conversations[0].recentMessages.map(m => m.content)).toEqual(['can I hire you?']);
+    expect(digest.overallSummary).toBe('Overall: 2 items.');
+    expect(digest.newMessageCount).toBe(2);
+  });
+
+  it('lists topics until the overall paragraph is ready', () => {
+    conversation('Is the Pi fast enough?');
+    const digest = buildDigest(null);
+
+    expect(digest.overallSummary).toBe('1 new conversation: Is the Pi fast enough?.');
+    expect(digest.conversations[0].relevance).toBe(0.5);
+  });
+
+  it('says so when nothing is new', () => {
+    const conv = conversation('hello');
+    db.updateConversation(conv.id, { seen: true });
+
+    expect(buildDigest(null).overallSummary).toBe('Nothing new since your last visit.');
+  });
+
+  it('keeps pinned conversations on top', async () => {
+    const hello = conversation('hello');
+    conversation('can I hire you?');
+    db.updateConversation(hello.id, { pinned: true });
+
+    await summarizePending(fakeLLM().llm, 0);
+
+    expect(buildDigest(null).conversations[0].conversation.id).toBe(hello.id);
+  });
+
+  it('puts messages left through the form first and mentions them', () => {
+    conversation('hello');
+    const left = conversation('can I leave a message?');
+    db.saveLeftMessage(left.id, { name: 'Mari', email: 'mari@example.com', message: 'Call me' });
+
+    const digest = buildDigest(null);
+    expect(digest.messagesLeft.map(p => p.conversation.id)).toEqual([left.id]);
+    expect(digest.conversations[0].conversation.id).toBe(left.id);
+    expect(digest.overallSummary).toMatch(/^1 message left for you\. 2 new conversations/);
+  });
+});
+
+describe('parseSummary', () => {
+  it('finds JSON wrapped in prose or code fences', () => {
+    const reply = 'Sure!\n```json\n{"summary": "Asked about CV.", "topic": "CV", "tags": ["cv"], "relevance": 0.4}\n```';
+    expect(parseSummary(reply)).toEqual({ summary: 'Asked about CV.', topic: 'CV', tags: ['cv'], relevance: 0.4 });
+  });
+
+  it('clamps relevance and tolerates missing fields', () => {
+    expect(parseSummary('{"summary": "x", "relevance": 7}')).toEqual({ summary: 'x', topic: '', tags: [], relevance: 1 });
+    expect(parseSummary('{"summary": "x", "relevance": "high"}')?.relevance).toBe(0.5);
+  });
+
+  it('returns null without a summary', () => {
+    expect(parseSummary('no json here')).toBeNull();
+    expect(parseSummary('{"topic": "x"}')).toBeNull();
+    expect(parseSummary('{broken')).toBeNull();
+  });
+});
@@ -0,0 +1,285 @@
+/**
+ * Admin digest — LLM summaries of what visitors talked about.
+ *
+ * A background summarizer picks up conversations once they go quiet
+ * and asks the LLM for a summary, topic, tags and a relevance score.
+ * Results are cached in the DB and only regenerated when new messages
+ * arrive. Visitors come first: a run is skipped while a response is
+ * being generated, and each LLM call waits for a queue slot no reply
+ * wants.
+ *
+ * After each run the summarizer also prepares the overall paragraph
+ * for conversations the author hasn't seen yet, so the digest is
+ * instant when they open it.
+ */
+
+import type { AdminDigest, Conversation, ConversationPreview, Message } from '../types/index.js';
+import type { LLMAdapter } from '../llm/provider.js';
+import * as db from '../db/index.js';
+import { hasActiveJobs, whenIdle } from './jobs.js';
+
+const DEFAULTS = {
+  quietMinutes: 10,
+  interval: 60,
+};
+
+/** Conversations summarised per run — a Pi takes a while for each */
+const BATCH_SIZE = 5;
+
+/** Only the end of very long conversations goes into the summary prompt */
+const MAX_TRANSCRIPT_MESSAGES = 40;
+const MAX_MESSAGE_CHARS = 1000;
+
+/** Relevance of conversations without a summary yet */
+const UNKNOWN_RELEVANCE = 0.5;
+
+const RECENT_MESSAGES = 3;
+
+/** A conversation whose summary failed is tried again after this, or once it has new messages */
+const RETRY_FAILED_MS = 60 * 60 * 1000;
+
+export interface SummarizerOptions {
+  quietMinutes?: number;
+  /** Seconds between runs */
+  interval?: number;
+}
+
+/** Cached overall paragraph, keyed by the conversations it covers */
+let overall: { key: string; text: string } | null = null;
+let running = false;
+/** Conversations whose summary failed: the message it failed at, and when */
+const failed = new Map<string, { lastRowid: number; at: number }>();
+
+const CONVERSATION_PROMPT = `You summarise conversations from the answering machine on a personal website, for the site owner.
+Reply with JSON only, no other text:
+{"summary": "2-3 sentences: who wrote, what they want, what was answered", "topic": "3-6 words", "tags": ["1-4 lowercase tags"], "relevance": 0.0}
+relevance is how much the owner should care, from 0 to 1:
+1 = needs the owner personally (job offer, collaboration, a question only they can answer),
+0.5 = genuine but answered, 0 = small talk, tests or junk.`;
+
+const OVERALL_PROMPT = `You brief the owner of a personal website on what visitors said to the site's answering machine.
+Write one short paragraph, most important first. Plain text, no lists, no greeting.`;
+
+/**
+ * Start summarizing in the background. Returns a function that stops it.
+ */
+export function startSummarizer(llm: LLMAdapter, options: SummarizerOptions = {}): () => void {
+  const quietSeconds = Math.round((options.quietMinutes ?? DEFAULTS.quietMinutes) * 60);
+  const interval = (options.interval ?? DEFAULTS.interval) * 1000;
+
+  const timer = setInterval(() => {
+    void summarizePending(llm, quietSeconds).catch((error) => {
+      console.error('[aure] Summarizer failed:', error instanceof Error ? error.message : error);
+    });
+  }, interval);
+  timer.unref();
+
+  return () => clearInterval(timer);
+}
+
+/**
+ * One summarizer run: summarise quiet conversations with new messages,
+ * then refresh the overall paragraph. Returns how many were summarised.
+ */
+export async function summarizePending(llm: LLMAdapter, quietSeconds: number): Promise<number> {
+  if (running || hasActiveJobs()) return 0;
+  running = true;
+
+  try {
+    let count = 0;
+    const due = db.getConversationsToSummarize(quietSeconds, BATCH_SIZE + failed.size)
+      .filter(({ id, lastRowid }) => !recentlyFailed(id, lastRowid))
+      .slice(0, BATCH_SIZE);
+
+    for (const { id, lastRowid } of due) {
+      // A visitor showed up mid-run — let their response go first
+      if (hasActiveJobs()) break;
+
+      // One conversation the LLM chokes on mustn't hold up the others
+      try {
+        const messages = db.getMessagesUpTo(id, lastRowid);
+        db.saveSummary(id, { ...await summarizeConversation(llm, messages), messageRowid: lastRowid });
+        failed.delete(id);
+        count++;
+      } catch (error) {
+        failed.set(id, { lastRowid, at: Date.now() });
+        console.warn(`[aure] Could not summarise conversation ${id}:`, error instanceof Error ? error.message : error);
+      }
+    }
+
+    if (!hasActiveJobs()) await refreshOverall(llm);
+    return count;
+  } finally {
+    running = false;
+  }
+}
+
+/** Did this conversation's summary fail lately, with no new messages since? */
+function recentlyFailed(id: string, lastRowid: number): boolean {
+  const failure = failed.get(id);
+  if (!failure) return false;
+  if (failure.lastRowid === lastRowid && Date.now() - failure.at < RETRY_FAILED_MS) return true;
+  failed.delete(id);
+  return false;
+}
+
+/**
+ * Ask the LLM for a summary. If the reply isn't the JSON we asked for
+ * (small models drift), keep its text as the summary rather than retry
+ * forever on every run.
+ */
+async function summarizeConversation(
+  llm: LLMAdapter,
+  messages: Message[]
+): Promise<Omit<db.ConversationSummary, 'messageRowid'>> {
+  const transcript = messages
+    .slice(-MAX_TRANSCRIPT_MESSAGES)
+    .filter(m => m.content)
+    .map(m => `${speaker(m)}: ${truncate(m.content, MAX_MESSAGE_CHARS)}`)
+    .join('\n');
+
+  const response = await whenIdle(() => llm.chat([
+    { role: 'system', content: CONVERSATION_PROMPT },
+    { role: 'user', content: transcript },
+  ]));
+
+  const parsed = parseSummary(response.content);
+  return parsed ?? {
+    summary: truncate(response.content.trim(), 500),
+    tags: [],
+    topic: fallbackTopic(messages),
+    relevance: UNKNOWN_RELEVANCE,
+  };
+}
+
+/** Pull the JSON object out of an LLM reply, or null if there isn't a usable one */
+export function parseSummary(content: string): Omit<db.ConversationSummary, 'messageRowid'> | null {
+  const start = content.indexOf('{');
+  const end = content.lastIndexOf('}');
+  if (start === -1 || end <= start) return null;
+
+  let data: any;
+  try {
+    data = JSON.parse(content.slice(start, end + 1));
+  } catch {
+    return null;
+  }
+
+  if (typeof data?.summary !== 'string' || !data.summary.trim()) return null;
+
+  const relevance = Number(data.relevance);
+  return {
+    summary: data.summary.trim(),
+    topic: typeof data.topic === 'string' ? data.topic.trim() : '',
+    tags: Array.isArray(data.tags)
+      ? data.tags.filter((t: unknown) => typeof t === 'string' && t.trim()).map((t: string) => t.trim().toLowerCase()).slice(0, 4)
+      : [],
+    relevance: Number.isFinite(relevance) ? Math.min(1, Math.max(0, relevance)) : UNKNOWN_RELEVANCE,
+  };
+}
+
+/**
+ * Regenerate the overall paragraph if the set of unseen, summarised
+ * conversations changed since it was last written.
+ */
+async function refreshOverall(llm: LLMAdapter): Promise<void> {
+  const previews = buildPreviews(db.listConversations({ unseenOnly: true }));
+  const summarised = previews.filter(p => p.conversation.summary);
+  const key = overallKey(previews);
+
+  if (summarised.length === 0 || overall?.key === key) return;
+
+  const briefing = summarised
+    .map(p => `- ${p.topic || 'Untitled'} (relevance ${p.relevance.toFixed(1)}): ${p.conversation.summary}`)
+    .join('\n');
+
+  const response = await whenIdle(() => llm.chat([
+    { role: 'system', content: OVERALL_PROMPT },
+    { role: 'user', content: briefing },
+  ]));
+
+  overall = { key, text: response.content.trim() };
+}
+
+/**
+ * Build the digest since the author's last visit. Uses the prepared
+ * overall paragraph when it matches; otherwise lists the topics.
+ */
+export function buildDigest(since: string | null): AdminDigest {
+  const previews = buildPreviews(db.listConversations({ includeSpam: false }));
+  const unseen = previews.filter(p => !p.conversation.seen);
+  const messagesLeft = unseen
+    .filter(p => p.conversation.messageLeftAt)
+    .sort((a, b) => b.conversation.messageLeftAt!.localeCompare(a.conversation.messageLeftAt!));
+
+  let overallSummary: string;
+  if (unseen.length === 0) {
+    overallSummary = 'Nothing new since your last visit.';
+  } else if (overall && overall.key === overallKey(unseen)) {
+    overallSummary = overall.text;
+  } else {
+    const topics = unseen.map(p => p.topic).filter(Boolean);
+    overallSummary = `${unseen.length} new conversation${unseen.length === 1 ? '' : 's'}` +
+      (topics.length > 0 ? `: ${topics.join('; ')}.` : '.');
+  }
+  if (messagesLeft.length > 0) {
+    overallSummary = `${messagesLeft.length} message${messagesLeft.length === 1 ? '' : 's'} left for you. ${overallSummary}`;
+  }
+
+  return {
+    since: since ?? new Date(0).toISOString(),
+    newMessageCount: db.countVisitorMessagesSince(since),
+    conversations: previews,
+    overallSummary,
+    messagesLeft,
+  };
+}
+
+/** Pinned first, then unseen left messages, then most relevant, then most recent */
+function buildPreviews(conversations: ReturnType<typeof db.listConversations>): ConversationPreview[] {
+  return conversations
+    .map(conversation => {
+      const messages = db.getMessages(conversation.id).filter(m => m.status !== 'pending');
+      const cached = db.getSummary(conversation.id);
+      return {
+        conversation,
+        recentMessages: messages.slice(-RECENT_MESSAGES),
+        topic: cached?.topic || fallbackTopic(messages),
+        relevance: cached?.relevance ?? UNKNOWN_RELEVANCE,
+      };
+    })
+    .sort((a, b) =>
+      Number(b.conversation.pinned) - Number(a.conversation.pinned) ||
+      Number(hasNewMessageLeft(b.conversation)) - Number(hasNewMessageLeft(a.conversation)) ||
+      b.relevance - a.relevance ||
+      b.conversation.updatedAt.localeCompare(a.conversation.updatedAt)
+    );
+}
+
+/** Identifies the conversations (and summary versions) an overall paragraph covers */
+function overallKey(previews: ConversationPreview[]): string {
+  return previews
+    .map(p => `${p.conversation.id}:${db.getSummary(p.conversation.id)?.messageRowid ?? 'new'}`)
+    .sort()
+    .join(',');
+}
+
+function hasNewMessageLeft(conversation: Conversation): boolean {
+  return !conversation.seen && conversation.messageLeftAt !== null;
+}
+
+function speaker(message: Message): string {
+  if (message.role === 'visitor') return 'Visitor';
+  return message.metadata?.source === 'owner' ? 'Owner' : 'Aure';
+}
+
+/** The visitor's first message, shortened */
+function fallbackTopic(messages: Message[]): string {
+  const first = messages.find(m => m.role === 'visitor' && m.content);
+  return first ? truncate(first.content.replace(/\s+/g, ' '), 60) : '';
+}
+
+function truncate(text: string, max: number): string {
+  return text.length > max ? text.slice(0, max - 1).trimEnd() + '…' : text;
+}
+
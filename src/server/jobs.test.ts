@@ -0,0 +1,124 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import * as db from '../db/index.js';
+import type { createResponder, RespondResult } from '../core/responder.js';
+import { processInBackground, recoverJobs, hasActiveJobs, isTransient } from './jobs.js';
+
+type Responder = ReturnType<typeof createResponder>;
+
+/** Fake responder: each call takes the next outcome (an error is thrown) */
+function fakeResponder(...outcomes: (string | Error)[]) {
+  const calls: string[] = [];
+  const responder = {
+    async respond(message: string): Promise<RespondResult> {
+      calls.push(message);
+      const outcome = outcomes.shift() ?? 'ok';
+      if (outcome instanceof Error) throw outcome;
+      return { content: outcome, source: 'llm', spam: false, drop: false };
+    },
+  } as unknown as Responder;
+  return { responder, calls };
+}
+
+function waiting(message = 'Hello?') {
+  const conv = db.createConversation();
+  db.addMessage(conv.id, 'visitor', message);
+  const pending = db.addPendingMessage(conv.id, 'aure');
+  return { conv, pending };
+}
+
+function message(id: string) {
+  return db.getDatabase().prepare('SELECT content, status, metadata FROM messages WHERE id = ?').get(id) as any;
+}
+
+/** Run fake time forward until every job (and its retries) is done */
+async function settle() {
+  for (let i = 0; i < 120 && hasActiveJobs(); i++) {
+    await vi.advanceTimersByTimeAsync(1_000);
+  }
+  expect(hasActiveJobs()).toBe(false);
+}
+
+beforeEach(() => {
+  db.initDatabase(':memory:');
+  vi.useFakeTimers();
+  vi.spyOn(console, 'log').mockImplementation(() => {});
+  vi.spyOn(console, 'warn').mockImplementation(() => {});
+  vi.spyOn(console, 'error').mockImplementation(() => {});
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+  vi.restoreAllMocks();
+});
+
+describe('processInBackground', () => {
+  it('retries a transient failure with backoff, then answers', async () => {
+    const { conv, pending } = waiting();
+    const { responder, calls } = fakeResponder(new Error('Ollama error (503): busy'), 'Hi there');
+
+    processInBackground(pending.id, conv.id, responder);
+    await settle();
+
+    expect(calls).toHaveLength(2);
+    expect(message(pending.id)).toMatchObject({ content: 'Hi there', status: 'received' });
+    expect(db.getJob(pending.id)).toBeNull();
+  });
+
+  it('puts a non-transient failure on the dead-letter list', async () => {
+    const { conv, pending } = waiting();
+    const { responder, calls } = fakeResponder(new Error('Ollama error (404): model not found'));
+
+    processInBackground(pending.id, conv.id, responder);
+    await settle();
+
+    expect(calls).toHaveLength(1);
+    expect(message(pending.id).status).toBe('error');
+    expect(db.listFailedJobs()).toEqual([
+      expect.objectContaining({ id: pending.id, attempts: 1, lastError: 'Ollama error (404): model not found' }),
+    ]);
+  });
+
+  it('gives up after the last attempt', async () => {
+    const { conv, pending } = waiting();
+    const timeout = Object.assign(new Error('timed out'), { name: 'TimeoutError' });
+    const { responder, calls } = fakeResponder(timeout, timeout, timeout, 'too late');
+
+    processInBackground(pending.id, conv.id, responder);
+    await settle();
+
+    expect(calls).toHaveLength(3);
+    expect(db.getJob(pending.id)).toMatchObject({ status: 'failed', attempts: 3 });
+  });
+});
+
+describe('recoverJobs', () => {
+  it('re-queues recent orphans and fails the rest with a reason', async () => {
+    const recent = waiting('Still there?');
+    const old = waiting('Anyone?');
+    db.getDatabase().prepare("UPDATE messages SET created_at = ? WHERE id = ?")
+      .run(new Date(Date.now() - 2 * 60 * 60 * 1000).toISOString(), old.pending.id);
+    const paused = waiting('Hi');
+    db.updateConversation(paused.conv.id, { paused: true });
+
+    const { responder, calls } = fakeResponder('Yes!');
+    expect(recoverJobs(responder)).toEqual({ requeued: 1, failed: 2 });
+    await settle();
+
+    expect(calls).toEqual(['Still there?']);
+    expect(message(recent.pending.id)).toMatchObject({ content: 'Yes!', status: 'received' });
+    expect(JSON.parse(message(old.pending.id).metadata)).toEqual({ error: 'interrupted (too old)' });
+    expect(JSON.parse(message(paused.pending.id).metadata)).toEqual({ error: 'paused' });
+    expect(db.hasPendingAureMessage(old.conv.id)).toBeNull();
+  });
+});
+
+describe('isTransient', () => {
+  it('retries timeouts, connection failures, 429 and 5xx only', () => {
+    expect(isTransient(Object.assign(new Error('x'), { name: 'TimeoutError' }))).toBe(true);
+    expect(isTransient(new TypeError('fetch failed'))).toBe(true);
+    expect(isTransient(new Error('OpenAI error (429): slow down'))).toBe(true);
+    expect(isTransient(new Error('Anthropic error (529): overloaded'))).toBe(true);
+    expect(isTransient(new Error('OpenAI error (401): bad key'))).toBe(false);
+    expect(isTransient('boom')).toBe(false);
+  });
+});
@@ -9,12 +9,31 @@
  *
  * Jobs can be cancelled via cancelJob() — this aborts the Ollama fetch,
  * which causes Ollama to stop generation server-side.
+ *
+ * LLM tokens are pushed to listeners as 'token' events while the
+ * response is generated. The final 'message' event still carries
+ * the full content — tokens are only a preview.
+ *
+ * Jobs stand down in conversations the owner has paused.
+ *
+ * Jobs are persisted (db jobs table): transient LLM failures are
+ * retried with backoff, and recoverJobs() picks up whatever a restart
+ * interrupted. Jobs that give up land on the dead-letter list.
+ *
+ * Every attempt waits for a slot from the shared scheduler, so only
+ * `queue.concurrency` generations run at once. Waiting visitors get
+ * 'queued' events with their position and an ETA. Summaries use the
+ * same slots through whenIdle(), behind every waiting reply.
  */
 
 import type { SSEStreamingApi } from 'hono/streaming';
 import type { createResponder } from '../core/responder.js';
 import type { LLMMessage } from '../llm/provider.js';
 import * as db from '../db/index.js';
+import { notify } from '../notify/index.js';
+import { createScheduler } from './scheduler.js';
+import { ruleContext } from './rule-context.js';
+import { startMessageForm } from './message-form.js';
 
 type Responder = ReturnType<typeof createResponder>;
 
@@ -24,6 +43,22 @@ const listeners = new Map<string, Set<SSEStreamingApi>>();
 /** Active abort controllers per pending message */
 const activeJobs = new Map<string, AbortController>();
 
+/** One queue for every conversation's replies */
+const scheduler = createScheduler({
+  onQueued: (entry, position, etaSeconds) => {
+    void notifyListeners(entry.conversationId, 'queued', { id: entry.id, position, etaSeconds });
+  },
+});
+
+/** Attempts per job, including the first */
+const MAX_ATTEMPTS = 3;
+
+/** Wait before retry n (1-based) */
+const RETRY_DELAYS_MS = [5_000, 30_000];
+
+/** Pending messages older than this aren't answered after a restart — the visitor has moved on */
+const RECOVERY_MAX_AGE_MS = 60 * 60 * 1000;
+
 /**
  * Register an SSE stream for a conversation.
  * Returns a cleanup function to call when the stream closes.
@@ -58,10 +93,43 @@ export function cancelJob(pendingMessageId: string): boolean {
   return true;
 }
 
+/** Set how many replies are generated at once (config queue.concurrency) */
+export function configureQueue(concurrency: number): void {
+  scheduler.setConcurrency(concurrency);
+}
+
+/** Running and waiting replies, for the admin */
+export function getQueue() {
+  return scheduler.snapshot();
+}
+
+/** Move a waiting reply to a 1-based position in the queue */
+export function moveInQueue(pendingMessageId: string, position: number): boolean {
+  return scheduler.move(pendingMessageId, position);
+}
+
+/** Is any visitor response being generated (or waiting) right now? */
+export function hasActiveJobs(): boolean {
+  return activeJobs.size > 0;
+}
+
+/**
+ * Run background LLM work (summaries) in a scheduler slot, once no
+ * visitor reply is waiting for one.
+ */
+export async function whenIdle<T>(work: () => Promise<T>): Promise<T> {
+  const slot = await scheduler.acquireIdle();
+  try {
+    return await work();
+  } finally {
+    slot.release();
+  }
+}
+
 /**
  * Notify all SSE listeners for a conversation.
  */
-async function notifyListeners(
+export async function notifyListeners(
   conversationId: string,
   event: string,
   data: unknown
@@ -82,11 +150,10 @@ async function notifyListeners(
 /**
  * Process queued visitor messages in the background.
  *
- * Re-fetches all unresponded visitor messages from DB (not just the
- * triggering message), builds history fresh, calls LLM.
- *
- * After responding, checks for new messages that arrived during
- * processing and chains into a new job automatically.
+ * The job is recorded in SQLite first, so a restart can find it
+ * (recoverJobs). Transient LLM failures — timeouts, connection errors,
+ * 429/5xx — are retried with backoff; anything else, or the last
+ * attempt, fails the job and leaves it on the dead-letter list.
  */
 export function processInBackground(
   pendingMessageId: string,
@@ -98,84 +165,33 @@ export function processInBackground(
 
   void (async () => {
     const startTime = Date.now();
+    let deadLetter = false;
     try {
-      // Re-fetch all queued visitor messages (captures any that arrived
-      // between the API handler and now)
-      const unresponded = db.getUnrespondedVisitorMessages(conversationId);
+      db.enqueueJob(pendingMessageId, conversationId);
 
-      if (unresponded.length === 0) {
-        console.log(`[aure] No unresponded messages for ${pendingMessageId}, skipping`);
-        db.resolvePendingMessage(pendingMessageId, '', 'error', { error: 'no messages' });
-        return;
-      }
-
-      // Combine all queued messages into one question
-      const combinedQuestion = unresponded.length === 1
-        ? unresponded[0].content
-        : unresponded.map(m => m.content).join('\n\n');
-
-      // Build fresh history from DB
-      const allMessages = db.getMessages(conversationId);
-      const history: LLMMessage[] = allMessages
-        .filter(m => m.status !== 'pending')
-        .slice(-10)
-        .map(m => ({
-          role: m.role === 'visitor' ? 'user' as const : 'assistant' as const,
-          content: m.content,
-        }));
-
-      console.log(`[aure] Processing ${unresponded.length} queued message(s) for ${pendingMessageId} — calling LLM...`);
-      const result = await responder.respond(combinedQuestion, history, controller.signal);
-      const elapsed = ((Date.now() - startTime) / 1000).toFixed(1);
-      console.log(`[aure] LLM responded in ${elapsed}s (source: ${result.source})`);
-
-      // Race condition: cancel arrived while await was resolving
-      if (controller.signal.aborted) {
-        console.log(`[aure] Job ${pendingMessageId} cancelled (race: response arrived)`);
-        db.resolvePendingMessage(pendingMessageId, '', 'error', { error: 'cancelled' });
-        await notifyListeners(conversationId, 'cancelled', { id: pendingMessageId });
-        return;
-      }
-
-      if (result.drop) {
-        db.updateConversation(conversationId, { spam: true });
-        db.resolvePendingMessage(pendingMessageId, '', 'received');
-        await notifyListeners(conversationId, 'message', {
-          id: pendingMessageId, role: 'aure', content: '', status: 'received',
-        });
-        return;
-      }
-
-      if (result.spam) {
-        db.updateConversation(conversationId, { spam: true });
-      }
-
-      // Resolve with the actual response time (not placeholder creation time)
-      const resolvedAt = db.resolvePendingMessage(pendingMessageId, result.content, 'received', {
-        source: result.source,
-      });
-
-      await notifyListeners(conversationId, 'message', {
-        id: pendingMessageId,
-        role: 'aure',
-        content: result.content,
-        status: 'received',
-        source: result.source,
-        createdAt: resolvedAt,
-      });
-
-      // Chain: check if more visitor messages arrived during LLM processing
-      const newUnresponded = db.getUnrespondedVisitorMessages(conversationId);
-      if (newUnresponded.length > 0) {
-        console.log(`[aure] ${newUnresponded.length} new message(s) arrived during processing, chaining...`);
-        const newPending = db.addPendingMessage(conversationId, 'aure');
+      for (;;) {
+        const slot = await scheduler.acquire(pendingMessageId, conversationId, controller.signal);
+        if (slot.queued) {
+          // Out of the line — the client can go back to "thinking"
+          await notifyListeners(conversationId, 'processing', { pendingMessageId });
+        }
 
-        await notifyListeners(conversationId, 'processing', {
-          pendingMessageId: newPending.id,
-        });
+        const attempts = db.startJob(pendingMessageId);
+        const attemptStart = Date.now();
+        try {
+          await respondToQueue(pendingMessageId, conversationId, responder, controller.signal, startTime);
+          slot.release(Date.now() - attemptStart);
+          return;
+        } catch (error) {
+          slot.release();
+          if (controller.signal.aborted || attempts >= MAX_ATTEMPTS || !isTransient(error)) throw error;
 
-        // Chain into a new job (not recursion — fresh fire-and-forget)
-        processInBackground(newPending.id, conversationId, responder);
+          const delay = RETRY_DELAYS_MS[Math.min(attempts, RETRY_DELAYS_MS.length) - 1];
+          db.retryJob(pendingMessageId, errorText(error), delay);
+          console.warn(`[aure] Job ${pendingMessageId} failed (attempt ${attempts}/${MAX_ATTEMPTS}), retrying in ${delay / 1000}s: ${errorText(error)}`);
+          await notifyListeners(conversationId, 'retrying', { id: pendingMessageId, attempt: attempts + 1 });
+          await sleep(delay, controller.signal);
+        }
       }
     } catch (error) {
       const elapsed = ((Date.now() - startTime) / 1000).toFixed(1);
@@ -191,10 +207,19 @@ export function processInBackground(
       const errorType = isTimeout ? 'timeout' : 'error';
       console.error(`[aure] Background job failed after ${elapsed}s (${errorType}):`, error);
 
+      const errorMessage = errorText(error);
+      deadLetter = true;
+      db.failJob(pendingMessageId, errorMessage);
       db.resolvePendingMessage(pendingMessageId, '', 'error', {
-        error: error instanceof Error ? error.message : String(error),
+        error: errorMessage,
         type: errorType,
       });
+      notify({
+        type: 'error',
+        conversationId,
+        title: isTimeout ? 'LLM timed out' : 'LLM error',
+        message: errorMessage,
+      });
 
       await notifyListeners(conversationId, 'error', {
         id: pendingMessageId,
@@ -203,6 +228,187 @@ export function processInBackground(
       });
     } finally {
       activeJobs.delete(pendingMessageId);
+      if (!deadLetter) db.deleteJob(pendingMessageId);
     }
   })();
 }
+
+/**
+ * One attempt at answering. Re-fetches all unresponded visitor
+ * messages from DB (not just the triggering message), builds history
+ * fresh, calls the LLM and resolves the pending message.
+ *
+ * After responding, checks for new messages that arrived during
+ * processing and chains into a new job automatically.
+ */
+async function respondToQueue(
+  pendingMessageId: string,
+  conversationId: string,
+  responder: Responder,
+  signal: AbortSignal,
+  startTime: number
+): Promise<void> {
+  // The owner took over the conversation — stand down
+  if (db.getConversation(conversationId)?.paused) {
+    console.log(`[aure] Conversation ${conversationId} is paused, skipping ${pendingMessageId}`);
+    db.resolvePendingMessage(pendingMessageId, '', 'error', { error: 'paused' });
+    await notifyListeners(conversationId, 'cancelled', { id: pendingMessageId });
+    return;
+  }
+
+  // Re-fetch all queued visitor messages (captures any that arrived
+  // between the API handler and now)
+  const unresponded = db.getUnrespondedVisitorMessages(conversationId);
+
+  if (unresponded.length === 0) {
+    console.log(`[aure] No unresponded messages for ${pendingMessageId}, skipping`);
+    db.resolvePendingMessage(pendingMessageId, '', 'error', { error: 'no messages' });
+    return;
+  }
+
+  // Combine all queued messages into one question
+  const combinedQuestion = unresponded.length === 1
+    ? unresponded[0].content
+    : unresponded.map(m => m.content).join('\n\n');
+
+  // Build fresh history from DB (the prompt builder trims it to fit)
+  const allMessages = db.getMessages(conversationId);
+  const history: LLMMessage[] = allMessages
+    .filter(m => m.status !== 'pending')
+    .map(m => ({
+      role: m.role === 'visitor' ? 'user' as const : 'assistant' as const,
+      content: m.content,
+    }));
+
+  console.log(`[aure] Processing ${unresponded.length} queued message(s) for ${pendingMessageId} — calling LLM...`);
+  const result = await responder.respond(
+    combinedQuestion,
+    history,
+    signal,
+    (token) => notifyListeners(conversationId, 'token', { id: pendingMessageId, token }),
+    ruleContext(conversationId)
+  );
+  const elapsed = ((Date.now() - startTime) / 1000).toFixed(1);
+  console.log(`[aure] LLM responded in ${elapsed}s (source: ${result.source}${result.provider ? `, provider: ${result.provider}` : ''})`);
+
+  // Race condition: cancel arrived while await was resolving
+  if (signal.aborted) {
+    console.log(`[aure] Job ${pendingMessageId} cancelled (race: response arrived)`);
+    db.resolvePendingMessage(pendingMessageId, '', 'error', { error: 'cancelled' });
+    await notifyListeners(conversationId, 'cancelled', { id: pendingMessageId });
+    return;
+  }
+
+  if (result.spam) {
+    notify({ type: 'spam', conversationId, title: 'Spam flagged', message: combinedQuestion });
+  }
+
+  if (result.drop) {
+    db.updateConversation(conversationId, { spam: true });
+    db.resolvePendingMessage(pendingMessageId, '', 'received');
+    await notifyListeners(conversationId, 'message', {
+      id: pendingMessageId, role: 'aure', content: '', status: 'received',
+    });
+    return;
+  }
+
+  if (result.spam) {
+    db.updateConversation(conversationId, { spam: true });
+  }
+
+  // A rule asked to take a message — its response introduces the form
+  const conversation = db.getConversation(conversationId);
+  if (result.action === 'takeMessage' && conversation) {
+    result.content = startMessageForm(conversation, responder.persona, combinedQuestion, result.content);
+  }
+
+  // Resolve with the actual response time (not placeholder creation time)
+  const resolvedAt = db.resolvePendingMessage(pendingMessageId, result.content, 'received', {
+    source: result.source,
+    ...(result.rule && { rule: result.rule }),
+    ...(result.provider && { provider: result.provider }),
+    ...(result.sources && { sources: result.sources }),
+    ...(result.prompt && { prompt: result.prompt }),
+  });
+
+  await notifyListeners(conversationId, 'message', {
+    id: pendingMessageId,
+    role: 'aure',
+    content: result.content,
+    status: 'received',
+    source: result.source,
+    createdAt: resolvedAt,
+  });
+
+  // Chain: check if more visitor messages arrived during LLM processing
+  const newUnresponded = db.getUnrespondedVisitorMessages(conversationId);
+  if (newUnresponded.length > 0 && !db.getConversation(conversationId)?.paused) {
+    console.log(`[aure] ${newUnresponded.length} new message(s) arrived during processing, chaining...`);
+    const newPending = db.addPendingMessage(conversationId, 'aure');
+
+    await notifyListeners(conversationId, 'processing', {
+      pendingMessageId: newPending.id,
+    });
+
+    // Chain into a new job (not recursion — fresh fire-and-forget)
+    processInBackground(newPending.id, conversationId, responder);
+  }
+}
+
+/**
+ * Pick up pending messages a restart left behind. Recent ones are
+ * re-queued; the rest are marked error with the reason, which also
+ * unblocks hasPendingAureMessage for their conversation.
+ */
+export function recoverJobs(responder: Responder): { requeued: number; failed: number } {
+  const requeued = new Set<string>();
+  let failed = 0;
+
+  for (const job of db.getPendingJobs()) {
+    const conversation = db.getConversation(job.conversationId);
+    const age = Date.now() - new Date(job.createdAt).getTime();
+
+    let reason: string | null = null;
+    if (conversation?.paused) reason = 'paused';
+    else if (requeued.has(job.conversationId)) reason = 'duplicate';
+    else if (job.attempts >= MAX_ATTEMPTS) reason = 'interrupted (too many attempts)';
+    else if (age > RECOVERY_MAX_AGE_MS) reason = 'interrupted (too old)';
+    else if (db.getUnrespondedVisitorMessages(job.conversationId).length === 0) reason = 'no messages';
+
+    if (reason) {
+      db.resolvePendingMessage(job.id, '', 'error', { error: reason });
+      db.deleteJob(job.id);
+      failed++;
+      continue;
+    }
+
+    requeued.add(job.conversationId);
+    processInBackground(job.id, job.conversationId, responder);
+  }
+
+  return { requeued: requeued.size, failed };
+}
+
+/** Timeouts, connection failures and 429/5xx responses are worth retrying */
+export function isTransient(error: unknown): boolean {
+  if (!(error instanceof Error)) return false;
+  if (error.name === 'TimeoutError') return true;
+  // fetch() connection failures: TypeError('fetch failed') with a system error cause
+  if (error instanceof TypeError && error.message === 'fetch failed') return true;
+  return /\((429|5\d\d)\)/.test(error.message);
+}
+
+/** Backoff wait that ends early (rejecting) when the job is cancelled */
+function sleep(ms: number, signal: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const timer = setTimeout(resolve, ms);
+    signal.addEventListener('abort', () => {
+      clearTimeout(timer);
+      reject(signal.reason);
+    }, { once: true });
+  });
+}
+
+function errorText(error: unknown): string {
+  return error instanceof Error ? error.message : String(error);
+}
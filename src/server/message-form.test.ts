@@ -0,0 +1,65 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import * as db from '../db/index.js';
+import type { Persona } from '../types/index.js';
+import { startMessageForm, continueMessageForm } from './message-form.js';
+
+const persona: Persona = {
+  name: 'aure',
+  description: '',
+  systemPrompt: 'x',
+  greeting: 'Hi',
+  fallback: 'Sorry',
+  languages: ['en', 'ru'],
+  blockedTopics: [],
+  messageForm: { askName: { en: 'Your name?', ru: 'Как вас зовут?' } },
+};
+
+beforeEach(() => {
+  db.initDatabase(':memory:');
+});
+
+/** Answer the open form, re-reading the conversation like the API does */
+function answer(id: string, text: string) {
+  return continueMessageForm(db.getConversation(id)!, persona, text);
+}
+
+describe('message form', () => {
+  it('collects name, email and message, then saves them on yes', () => {
+    const conv = db.createConversation();
+    expect(startMessageForm(conv, persona, 'I want to leave a message', 'Sure.')).toBe('Sure.\n\nYour name?');
+
+    expect(answer(conv.id, 'Mari')).toBe('Thanks, Mari! What email address can I reach you at?');
+    expect(answer(conv.id, 'mari at example')).toMatch(/^"mari at example" doesn't look like an email address/);
+    expect(answer(conv.id, 'mari@example.com')).toBe('What would you like me to pass on?');
+    expect(answer(conv.id, 'Are you free in October?')).toContain('from Mari <mari@example.com>:\n\nAre you free in October?');
+    expect(answer(conv.id, 'Yes!')).toBe('Thanks, Mari! Your message is on its way. Expect a reply at mari@example.com.');
+
+    const saved = db.getConversation(conv.id)!;
+    expect(saved).toMatchObject({ visitorName: 'Mari', visitorEmail: 'mari@example.com', leftMessage: 'Are you free in October?' });
+    expect(saved.messageLeftAt).not.toBeNull();
+    expect(answer(conv.id, 'hello again')).toBeNull();
+  });
+
+  it('skips what the visitor gave at start and answers in their language', () => {
+    const known = db.createConversation('Mari', 'mari@example.com');
+    expect(startMessageForm(known, persona, 'message', '')).toBe('What would you like me to pass on?');
+
+    const russian = db.createConversation();
+    expect(startMessageForm(russian, persona, 'Можно оставить сообщение?', '')).toBe('Как вас зовут?');
+
+    const english = db.createConversation();
+    expect(startMessageForm(english, { ...persona, messageForm: { askName: { ru: 'Как вас зовут?' } } }, 'message', ''))
+      .toBe('What is your name?');
+  });
+
+  it('rewrites the message on no and stops on cancel', () => {
+    const conv = db.createConversation('Mari', 'mari@example.com');
+    startMessageForm(conv, persona, 'message', '');
+    answer(conv.id, 'first draft');
+
+    expect(answer(conv.id, 'no')).toBe('What would you like me to pass on?');
+    expect(answer(conv.id, 'cancel')).toBe('OK, no message then. Anything else I can help with?');
+    expect(answer(conv.id, 'hello')).toBeNull();
+    expect(db.getConversation(conv.id)!.leftMessage).toBeNull();
+  });
+});
@@ -0,0 +1,134 @@
+/**
+ * The message-taking form — a rule with `action: takeMessage` starts it.
+ *
+ * Asks for name, email and the message one step at a time, then reads
+ * it back for a yes/no. Steps the conversation already knows (name or
+ * email given at start) are skipped. While a form is open, the
+ * visitor's answers go here instead of rules and the LLM.
+ *
+ * State is kept on the conversation, so a restart doesn't lose it.
+ * On "yes" the answers are saved as the conversation's contact details
+ * and it shows up under "messages left" in the admin digest.
+ */
+
+import * as db from '../db/index.js';
+import { detectLanguage } from '../core/language.js';
+import { localize, renderTemplate } from '../core/template.js';
+import type { Conversation, MessageFormText, Persona } from '../types/index.js';
+
+export interface FormState {
+  step: 'name' | 'email' | 'message' | 'confirm';
+  /** Picked from the message that started the form — every step answers in it */
+  language: string | null;
+  name?: string;
+  email?: string;
+  message?: string;
+}
+
+/** Used where the persona has no text of its own, and as its English */
+export const DEFAULT_FORM_TEXTS: Record<MessageFormText, string> = {
+  askName: 'What is your name?',
+  askEmail: 'Thanks, {form.name}! What email address can I reach you at?',
+  invalidEmail: '"{form.email}" doesn\'t look like an email address. Could you check it?',
+  askMessage: 'What would you like me to pass on?',
+  confirm: 'I\'ll pass this on from {form.name} <{form.email}>:\n\n{form.message}\n\nShall I send it? (yes/no)',
+  done: 'Thanks, {form.name}! Your message is on its way. Expect a reply at {form.email}.',
+  cancelled: 'OK, no message then. Anything else I can help with?',
+};
+
+const EMAIL = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+const CANCEL = new Set(['cancel', 'stop', 'отмена', 'стоп', 'katkesta', 'loobu']);
+const YES = new Set(['yes', 'y', 'yeah', 'yep', 'sure', 'ok', 'send', 'да', 'ага', 'jah', 'jaa', 'ja']);
+const NO = new Set(['no', 'n', 'nope', 'нет', 'ei']);
+
+/** Open the form; returns the rule's response followed by the first question */
+export function startMessageForm(conversation: Conversation, persona: Persona, trigger: string, intro: string): string {
+  const state: FormState = {
+    step: 'name',
+    language: detectLanguage(trigger),
+    name: conversation.visitorName ?? undefined,
+    email: conversation.visitorEmail ?? undefined,
+  };
+  const next = advance(state);
+  db.setFormState(conversation.id, next);
+
+  const question = text(persona, next, ask(next.step));
+  return intro.trim() ? `${intro.trimEnd()}\n\n${question}` : question;
+}
+
+/** The reply to an answer, or null when the conversation has no open form */
+export function continueMessageForm(conversation: Conversation, persona: Persona, answer: string): string | null {
+  const state = db.getFormState<FormState>(conversation.id);
+  if (!state) return null;
+
+  const reply = answer.trim();
+  const word = reply.toLowerCase().replace(/[.!]+$/, '');
+
+  if (CANCEL.has(word)) {
+    db.setFormState(conversation.id, null);
+    return text(persona, state, 'cancelled');
+  }
+
+  switch (state.step) {
+    case 'name':
+      state.name = reply.slice(0, 100);
+      break;
+    case 'email':
+      if (!isEmail(reply)) return text(persona, { ...state, email: reply }, 'invalidEmail');
+      state.email = reply;
+      break;
+    case 'message':
+      state.message = reply;
+      break;
+    case 'confirm':
+      if (YES.has(word)) {
+        db.saveLeftMessage(conversation.id, { name: state.name!, email: state.email!, message: state.message! });
+        return text(persona, state, 'done');
+      }
+      // "no" lets them write the message again; anything else asks again
+      if (!NO.has(word)) return text(persona, state, 'confirm');
+      state.message = undefined;
+      break;
+  }
+
+  const next = advance(state);
+  db.setFormState(conversation.id, next);
+  return text(persona, next, ask(next.step));
+}
+
+/** The check the email step uses; /api/chat/start holds a given address to it too */
+export function isEmail(value: string): boolean {
+  return EMAIL.test(value);
+}
+
+/** Move to the first step without an answer */
+function advance(state: FormState): FormState {
+  const step = !state.name ? 'name' : !state.email ? 'email' : !state.message ? 'message' : 'confirm';
+  return { ...state, step };
+}
+
+function ask(step: FormState['step']): MessageFormText {
+  switch (step) {
+    case 'name': return 'askName';
+    case 'email': return 'askEmail';
+    case 'message': return 'askMessage';
+    case 'confirm': return 'confirm';
+  }
+}
+
+function text(persona: Persona, state: FormState, key: MessageFormText): string {
+  // A language map without English still has the default for it
+  const own = persona.messageForm?.[key];
+  const texts = typeof own === 'object' ? { en: DEFAULT_FORM_TEXTS[key], ...own } : own ?? DEFAULT_FORM_TEXTS[key];
+  const template = localize(texts, state.language, persona.languages);
+  return renderTemplate(template, {
+    visitorName: state.name,
+    personaName: persona.name,
+    now: new Date(),
+    extra: {
+      'form.name': state.name ?? '',
+      'form.email': state.email ?? '',
+      'form.message': state.message ?? '',
+    },
+  });
+}
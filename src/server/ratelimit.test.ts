@@ -0,0 +1,114 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { Hono } from 'hono';
+import * as db from '../db/index.js';
+import { createLimiter, initRateLimit, stopRateLimit, rateLimit } from './ratelimit.js';
+
+describe('createLimiter', () => {
+  let now: number;
+  const limiter = () => createLimiter(() => now);
+  const bucket = (key: string, burst = 2, perMinute = 6) => ({ name: key, key, spec: { burst, perMinute } });
+
+  beforeEach(() => {
+    now = 1_000_000;
+  });
+
+  it('allows a burst, then refills over time', () => {
+    const l = limiter();
+    expect(l.take([bucket('a')])).toEqual({ ok: true });
+    expect(l.take([bucket('a')])).toEqual({ ok: true });
+    expect(l.take([bucket('a')])).toEqual({ ok: false, bucket: 'a', retryAfter: 10 });
+
+    now += 10_000;
+    expect(l.take([bucket('a')])).toEqual({ ok: true });
+  });
+
+  it('takes from all buckets or none', () => {
+    const l = limiter();
+    l.take([bucket('ip', 1)]);
+
+    // ip is empty, so global must not be charged
+    expect(l.take([bucket('ip', 1), bucket('global', 1)]).ok).toBe(false);
+    expect(l.take([bucket('global', 1)]).ok).toBe(true);
+  });
+
+  it('reports the bucket with the longest wait', () => {
+    const l = limiter();
+    l.take([bucket('fast', 1, 60), bucket('slow', 1, 1)]);
+    expect(l.take([bucket('fast', 1, 60), bucket('slow', 1, 1)])).toEqual({ ok: false, bucket: 'slow', retryAfter: 60 });
+  });
+
+  it('forgets refilled buckets and restores saved state', () => {
+    const l = limiter();
+    l.take([bucket('a', 1)]);
+    expect(l.entries()).toHaveLength(1);
+
+    const saved = l.entries();
+    const restored = limiter();
+    restored.restore(saved);
+    expect(restored.take([bucket('a', 1)]).ok).toBe(false);
+
+    now += 10_000;
+    l.sweep();
+    expect(l.entries()).toEqual([]);
+  });
+});
+
+describe('rateLimit middleware', () => {
+  function app() {
+    const api = new Hono();
+    api.post('/api/chat/start', rateLimit('start'), c => c.json({ ok: true }));
+    api.post('/api/chat/:conversationId/message', rateLimit('message'), c => c.json({ ok: true }));
+    return api;
+  }
+
+  const from = (ip: string) => ({ method: 'POST', headers: { 'X-Forwarded-For': `spoofed, ${ip}` } });
+
+  beforeEach(() => {
+    db.initDatabase(':memory:');
+  });
+
+  afterEach(() => {
+    stopRateLimit();
+  });
+
+  it('passes everything through when not configured', async () => {
+    const api = app();
+    for (let i = 0; i < 5; i++) {
+      expect((await api.request('/api/chat/start', from('203.0.113.7'))).status).toBe(200);
+    }
+  });
+
+  it('answers 429 with Retry-After and records the throttle', async () => {
+    initRateLimit({ trustProxy: true, ip: { burst: 2, perMinute: 1 } });
+    const api = app();
+
+    await api.request('/api/chat/start', from('203.0.113.7'));
+    await api.request('/api/chat/start', from('203.0.113.7'));
+    const res = await api.request('/api/chat/start', from('203.0.113.7'));
+
+    expect(res.status).toBe(429);
+    expect(res.headers.get('Retry-After')).toBe('60');
+    expect((await api.request('/api/chat/start', from('198.51.100.1'))).status).toBe(200);
+    expect(db.listThrottled()).toEqual([expect.objectContaining({ ip: '203.0.113.7', bucket: 'ip', count: 1 })]);
+  });
+
+  it('limits messages per conversation', async () => {
+    initRateLimit({ trustProxy: true, conversation: { burst: 1, perMinute: 1 } });
+    const api = app();
+
+    expect((await api.request('/api/chat/c1/message', from('203.0.113.7'))).status).toBe(200);
+    expect((await api.request('/api/chat/c1/message', from('198.51.100.1'))).status).toBe(429);
+    expect((await api.request('/api/chat/c2/message', from('198.51.100.1'))).status).toBe(200);
+  });
+
+  it('never limits exempt addresses', async () => {
+    initRateLimit({ trustProxy: true, ip: { burst: 1, perMinute: 1 }, exempt: ['192.168.1.0/24', '::1'] });
+    const api = app();
+
+    for (let i = 0; i < 3; i++) {
+      expect((await api.request('/api/chat/start', from('192.168.1.20'))).status).toBe(200);
+      expect((await api.request('/api/chat/start', from('::ffff:192.168.1.30'))).status).toBe(200);
+      expect((await api.request('/api/chat/start', from('::1'))).status).toBe(200);
+    }
+  });
+});
@@ -0,0 +1,203 @@
+/**
+ * Rate limiting for visitor routes.
+ *
+ * Token buckets, checked together on every request:
+ *   ip            — per client IP (starting conversations + messages)
+ *   conversation  — messages into one conversation
+ *   global        — all visitors, so the LLM queue can't be flooded
+ *                   from many IPs at once
+ * A request takes one token from each of its buckets, or none at all —
+ * a throttled IP doesn't drain the global bucket for everyone else.
+ *
+ * State lives in memory (optionally saved to SQLite every minute).
+ * Throttled requests get 429 + Retry-After and are counted per IP
+ * and hour for the admin.
+ */
+
+import { BlockList, isIP } from 'node:net';
+import type { Context, Next } from 'hono';
+import { getConnInfo } from '@hono/node-server/conninfo';
+import type { RateLimitBucket, RateLimitConfig } from '../types/index.js';
+import * as db from '../db/index.js';
+
+export const RATE_LIMIT_DEFAULTS = {
+  ip: { burst: 20, perMinute: 10 },
+  conversation: { burst: 10, perMinute: 5 },
+  global: { burst: 100, perMinute: 60 },
+} satisfies Record<string, RateLimitBucket>;
+
+/** How often idle buckets are dropped (and state saved, with persist) */
+const SWEEP_INTERVAL_MS = 60_000;
+
+export interface BucketRequest {
+  /** Which limit, for the 429 and the throttle log: 'ip', 'conversation', 'global' */
+  name: string;
+  /** State key, e.g. "ip:203.0.113.7" */
+  key: string;
+  spec: RateLimitBucket;
+}
+
+export type TakeResult = { ok: true } | { ok: false; bucket: string; retryAfter: number };
+
+export function createLimiter(now: () => number = Date.now) {
+  const buckets = new Map<string, db.StoredBucket>();
+
+  function current(request: BucketRequest, t: number): number {
+    const stored = buckets.get(request.key);
+    if (!stored) return request.spec.burst;
+    const refill = ((t - stored.updatedAt) / 60_000) * request.spec.perMinute;
+    return Math.min(request.spec.burst, stored.tokens + refill);
+  }
+
+  return {
+    /** Take a token from every bucket, or from none if any is empty */
+    take(requests: BucketRequest[]): TakeResult {
+      const t = now();
+      const levels = requests.map(r => current(r, t));
+
+      // Empty somewhere: report the bucket that takes longest to allow a request
+      let denied: TakeResult | null = null;
+      for (let i = 0; i < requests.length; i++) {
+        if (levels[i] >= 1) continue;
+        const retryAfter = Math.ceil(((1 - levels[i]) / requests[i].spec.perMinute) * 60);
+        if (!denied || (!denied.ok && retryAfter > denied.retryAfter)) {
+          denied = { ok: false, bucket: requests[i].name, retryAfter };
+        }
+      }
+      if (denied) return denied;
+
+      requests.forEach((r, i) => {
+        const tokens = levels[i] - 1;
+        buckets.set(r.key, {
+          key: r.key,
+          tokens,
+          updatedAt: t,
+          fullAt: t + ((r.spec.burst - tokens) / r.spec.perMinute) * 60_000,
+        });
+      });
+      return { ok: true };
+    },
+
+    /** Forget buckets that have refilled — they behave like new ones */
+    sweep(): void {
+      const t = now();
+      for (const [key, bucket] of buckets) {
+        if (bucket.fullAt <= t) buckets.delete(key);
+      }
+    },
+
+    entries(): db.StoredBucket[] {
+      return [...buckets.values()];
+    },
+
+    restore(entries: db.StoredBucket[]): void {
+      for (const entry of entries) buckets.set(entry.key, entry);
+    },
+  };
+}
+
+interface ActiveLimits {
+  limiter: ReturnType<typeof createLimiter>;
+  ip: RateLimitBucket;
+  conversation: RateLimitBucket;
+  global: RateLimitBucket;
+  exempt: BlockList;
+  trustProxy: boolean;
+}
+
+let active: ActiveLimits | null = null;
+let sweepTimer: ReturnType<typeof setInterval> | null = null;
+
+/** Set up limits from config. Without a call, the middleware lets everything through. */
+export function initRateLimit(config: RateLimitConfig = {}): void {
+  stopRateLimit();
+  if (config.enabled === false) return;
+
+  const limiter = createLimiter();
+  if (config.persist) limiter.restore(db.loadRateLimitBuckets(Date.now()));
+
+  active = {
+    limiter,
+    ip: config.ip ?? RATE_LIMIT_DEFAULTS.ip,
+    conversation: config.conversation ?? RATE_LIMIT_DEFAULTS.conversation,
+    global: config.global ?? RATE_LIMIT_DEFAULTS.global,
+    exempt: buildBlockList(config.exempt ?? []),
+    trustProxy: config.trustProxy ?? false,
+  };
+
+  sweepTimer = setInterval(() => {
+    limiter.sweep();
+    if (config.persist) db.saveRateLimitBuckets(limiter.entries());
+  }, SWEEP_INTERVAL_MS);
+  sweepTimer.unref();
+}
+
+export function stopRateLimit(): void {
+  if (sweepTimer) clearInterval(sweepTimer);
+  sweepTimer = null;
+  active = null;
+}
+
+/**
+ * Middleware for a visitor route. 'message' routes also count against
+ * the conversation in the :conversationId param — put requireSession
+ * in front of them, so only the conversation's own visitor is charged.
+ */
+export function rateLimit(route: 'start' | 'message') {
+  return async (c: Context, next: Next) => {
+    if (!active) return next();
+
+    const ip = clientIp(c, active.trustProxy);
+    if (ip && active.exempt.check(ip, isIP(ip) === 6 ? 'ipv6' : 'ipv4')) return next();
+
+    const requests: BucketRequest[] = [
+      { name: 'ip', key: `ip:${ip ?? 'unknown'}`, spec: active.ip },
+      { name: 'global', key: 'global', spec: active.global },
+    ];
+    if (route === 'message') {
+      const conversationId = c.req.param('conversationId');
+      requests.push({ name: 'conversation', key: `conversation:${conversationId}`, spec: active.conversation });
+    }
+
+    const result = active.limiter.take(requests);
+    if (!result.ok) {
+      db.recordThrottle(ip ?? 'unknown', result.bucket);
+      c.header('Retry-After', String(result.retryAfter));
+      return c.json({ error: 'Too many requests — please slow down', retryAfter: result.retryAfter }, 429);
+    }
+
+    await next();
+  };
+}
+
+/** Client IP: the socket address, or the entry our proxy appended to X-Forwarded-For */
+function clientIp(c: Context, trustProxy: boolean): string | null {
+  if (trustProxy) {
+    const forwarded = c.req.header('X-Forwarded-For')?.split(',').map(s => s.trim()).filter(Boolean);
+    if (forwarded && forwarded.length > 0) return normalizeIp(forwarded[forwarded.length - 1]);
+  }
+  try {
+    const address = getConnInfo(c).remote.address;
+    return address ? normalizeIp(address) : null;
+  } catch {
+    // Not running on the node server (e.g. app.request() in tests)
+    return null;
+  }
+}
+
+/** "::ffff:192.168.1.5" → "192.168.1.5", so IPv4 CIDRs match */
+function normalizeIp(ip: string): string {
+  return ip.startsWith('::ffff:') && isIP(ip.slice(7)) === 4 ? ip.slice(7) : ip;
+}
+
+/** Exempt list from "10.0.0.0/8"-style CIDRs and plain addresses (validated by schema.ts) */
+function buildBlockList(entries: string[]): BlockList {
+  const list = new BlockList();
+  for (const entry of entries) {
+    const [address, prefix] = entry.split('/');
+    const type = isIP(address) === 6 ? 'ipv6' : 'ipv4';
+    if (prefix === undefined) list.addAddress(address, type);
+    else list.addSubnet(address, Number(prefix), type);
+  }
+  return list;
+}
@@ -0,0 +1,21 @@
+/**
+ * What the rules engine needs to know about a conversation — built
+ * from the database right before rules are checked.
+ */
+
+import * as db from '../db/index.js';
+import type { MatchContext } from '../core/rules-engine.js';
+
+/** Context for the conversation's latest (already saved) visitor message */
+export function ruleContext(conversationId: string, now = new Date()): MatchContext {
+  const conversation = db.getConversation(conversationId);
+  const messages = db.getMessages(conversationId, 1000);
+
+  return {
+    turn: messages.filter(m => m.role === 'visitor').length,
+    visitorEmail: conversation?.visitorEmail ?? null,
+    visitorName: conversation?.visitorName ?? null,
+    firedRules: messages.flatMap(m => typeof m.metadata?.rule === 'string' ? [m.metadata.rule] : []),
+    now,
+  };
+}
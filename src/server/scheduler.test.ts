@@ -0,0 +1,129 @@
+import { describe, it, expect } from 'vitest';
+import { createScheduler } from './scheduler.js';
+
+function recording(concurrency = 1) {
+  const events: string[] = [];
+  const scheduler = createScheduler({
+    concurrency,
+    onQueued: (entry, position, eta) => events.push(`${entry.id}#${position}${eta === null ? '' : `~${eta}s`}`),
+  });
+  return { scheduler, events };
+}
+
+/** Resolve pending promise callbacks */
+const tick = () => new Promise(resolve => setImmediate(resolve));
+
+describe('createScheduler', () => {
+  it('runs up to the concurrency limit and queues the rest', async () => {
+    const { scheduler, events } = recording(1);
+    const started: string[] = [];
+
+    const a = scheduler.acquire('a', 'c1').then(slot => { started.push('a'); return slot; });
+    const b = scheduler.acquire('b', 'c2').then(slot => { started.push('b'); return slot; });
+    await tick();
+
+    expect(started).toEqual(['a']);
+    expect(events).toEqual(['b#1']);
+    expect((await a).queued).toBe(false);
+
+    (await a).release(20_000);
+    await tick();
+    expect(started).toEqual(['a', 'b']);
+    expect((await b).queued).toBe(true);
+  });
+
+  it('never runs two replies for one conversation, and serves others first', async () => {
+    const { scheduler } = recording(2);
+    const started: string[] = [];
+    const track = (id: string, conv: string) => scheduler.acquire(id, conv).then(slot => { started.push(id); return slot; });
+
+    const first = track('a1', 'c1');
+    track('a2', 'c1');
+    track('b1', 'c2');
+    await tick();
+
+    // a2 waits for a1 even though a slot is free; b1 goes ahead of it
+    expect(started).toEqual(['a1', 'b1']);
+    expect(scheduler.snapshot().waiting.map(w => w.id)).toEqual(['a2']);
+
+    (await first).release();
+    await tick();
+    expect(started).toEqual(['a1', 'b1', 'a2']);
+  });
+
+  it('estimates waiting time from recent generations', async () => {
+    const { scheduler, events } = recording(1);
+
+    (await scheduler.acquire('warmup', 'c0')).release(10_000);
+    const a = await scheduler.acquire('a', 'c1');
+    void scheduler.acquire('b', 'c2');
+    void scheduler.acquire('c', 'c3');
+    await tick();
+
+    expect(events).toEqual(['b#1~10s', 'c#2~20s']);
+    expect(scheduler.snapshot()).toMatchObject({
+      concurrency: 1,
+      running: [{ id: 'a', conversationId: 'c1' }],
+      waiting: [{ id: 'b', position: 1, etaSeconds: 10 }, { id: 'c', position: 2, etaSeconds: 20 }],
+    });
+
+    a.release(30_000);
+    await tick();
+    expect(events.at(-1)).toBe('c#1~20s');
+  });
+
+  it('lets the admin reorder waiting replies', async () => {
+    const { scheduler, events } = recording(1);
+    await scheduler.acquire('a', 'c1');
+    void scheduler.acquire('b', 'c2');
+    void scheduler.acquire('c', 'c3');
+    await tick();
+
+    expect(scheduler.move('c', 1)).toBe(true);
+    expect(scheduler.move('a', 1)).toBe(false); // running, not waiting
+    expect(scheduler.snapshot().waiting.map(w => w.id)).toEqual(['c', 'b']);
+    expect(events).toEqual(['b#1', 'c#2', 'c#1', 'b#2']);
+  });
+
+  it('drops a cancelled reply from the line', async () => {
+    const { scheduler } = recording(1);
+    await scheduler.acquire('a', 'c1');
+    const controller = new AbortController();
+    const b = scheduler.acquire('b', 'c2', controller.signal);
+    void scheduler.acquire('c', 'c3');
+    await tick();
+
+    controller.abort();
+    await expect(b).rejects.toThrow();
+    expect(scheduler.snapshot().waiting.map(w => w.id)).toEqual(['c']);
+  });
+
+  it('gives background work only the slots no reply is waiting for', async () => {
+    const { scheduler } = recording(1);
+    const started: string[] = [];
+
+    const a = await scheduler.acquire('a', 'c1');
+    const idle = scheduler.acquireIdle().then(slot => { started.push('idle'); return slot; });
+    const b = scheduler.acquire('b', 'c2').then(slot => { started.push('b'); return slot; });
+    await tick();
+
+    // b arrived after the background work but goes first
+    a.release();
+    await tick();
+    expect(started).toEqual(['b']);
+    expect(scheduler.snapshot().waiting).toEqual([]);
+
+    (await b).release();
+    await tick();
+    expect(started).toEqual(['b', 'idle']);
+
+    // While it runs, a new reply waits for the slot
+    void scheduler.acquire('c', 'c3');
+    await tick();
+    expect(scheduler.snapshot().waiting.map(w => w.id)).toEqual(['c']);
+
+    (await idle).release();
+    await tick();
+    expect(scheduler.snapshot().running.map(r => r.id)).toEqual(['c']);
+  });
+});
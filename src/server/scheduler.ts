@@ -0,0 +1,197 @@
+/**
+ * Reply scheduler — how many LLM generations run at once, and in
+ * which order the rest wait.
+ *
+ * On a Pi 5 two parallel Ollama generations make both crawl, so the
+ * default is one at a time. Waiting replies are served round-robin
+ * across conversations: a conversation never has two generations
+ * running, and a chained reply (visitor sent more while we answered)
+ * joins the back of the line instead of jumping it. The admin can
+ * still move a reply to any position.
+ *
+ * Background work (conversation summaries) takes a slot too, but only
+ * one no reply is waiting for — it never shows up in the queue.
+ *
+ * ETAs come from the average of recent generation times.
+ */
+
+export interface QueueEntry {
+  /** Pending message id (same as the job id) */
+  id: string;
+  conversationId: string;
+  enqueuedAt: string;
+}
+
+export interface QueueSnapshot {
+  concurrency: number;
+  running: (QueueEntry & { startedAt: string })[];
+  waiting: (QueueEntry & { position: number; etaSeconds: number | null })[];
+}
+
+export interface Slot {
+  /** Give the slot back. Pass the generation time to improve ETAs. */
+  release(durationMs?: number): void;
+  /** Did this reply have to wait in line? */
+  queued: boolean;
+}
+
+export interface SchedulerOptions {
+  concurrency?: number;
+  /** Called when a waiting reply's position changes (including when it first has to wait) */
+  onQueued?: (entry: QueueEntry, position: number, etaSeconds: number | null) => void;
+}
+
+interface Waiting extends QueueEntry {
+  start: () => void;
+  lastPosition: number;
+}
+
+/** Generation times kept for ETAs */
+const HISTORY = 10;
+
+export function createScheduler(options: SchedulerOptions = {}) {
+  let concurrency = options.concurrency ?? 1;
+  const waiting: Waiting[] = [];
+  const running = new Map<string, QueueEntry & { startedAt: string }>();
+  const durations: number[] = [];
+  const idleWaiting: (() => void)[] = [];
+  let idleRunning = 0;
+
+  function etaSeconds(position: number): number | null {
+    if (durations.length === 0) return null;
+    const average = durations.reduce((a, b) => a + b, 0) / durations.length;
+    return Math.round((Math.ceil(position / concurrency) * average) / 1000);
+  }
+
+  /** Start as many waiting replies as there are free slots, then tell the rest where they stand */
+  function pump(): void {
+    while (running.size + idleRunning < concurrency) {
+      const busy = new Set([...running.values()].map(r => r.conversationId));
+      const index = waiting.findIndex(w => !busy.has(w.conversationId));
+      if (index === -1) break;
+
+      const [entry] = waiting.splice(index, 1);
+      running.set(entry.id, {
+        id: entry.id,
+        conversationId: entry.conversationId,
+        enqueuedAt: entry.enqueuedAt,
+        startedAt: new Date().toISOString(),
+      });
+      entry.start();
+    }
+
+    while (waiting.length === 0 && idleWaiting.length > 0 && running.size + idleRunning < concurrency) {
+      idleRunning++;
+      idleWaiting.shift()!();
+    }
+
+    waiting.forEach((entry, i) => {
+      if (entry.lastPosition === i + 1) return;
+      entry.lastPosition = i + 1;
+      options.onQueued?.(
+        { id: entry.id, conversationId: entry.conversationId, enqueuedAt: entry.enqueuedAt },
+        i + 1,
+        etaSeconds(i + 1)
+      );
+    });
+  }
+
+  return {
+    /**
+     * Wait for a free slot. Rejects with the abort reason if the
+     * signal fires while waiting (visitor cancelled).
+     */
+    acquire(id: string, conversationId: string, signal?: AbortSignal): Promise<Slot> {
+      return new Promise((resolve, reject) => {
+        if (signal?.aborted) {
+          reject(signal.reason);
+          return;
+        }
+
+        let released = false;
+        const release = (durationMs?: number) => {
+          if (released) return;
+          released = true;
+          running.delete(id);
+          if (durationMs !== undefined) {
+            durations.push(durationMs);
+            if (durations.length > HISTORY) durations.shift();
+          }
+          pump();
+        };
+
+        const onAbort = () => {
+          const index = waiting.indexOf(entry);
+          if (index !== -1) waiting.splice(index, 1);
+          reject(signal!.reason);
+          pump();
+        };
+
+        const entry: Waiting = {
+          id,
+          conversationId,
+          enqueuedAt: new Date().toISOString(),
+          lastPosition: 0,
+          start: () => {
+            signal?.removeEventListener('abort', onAbort);
+            resolve({ release, queued: entry.lastPosition > 0 });
+          },
+        };
+
+        signal?.addEventListener('abort', onAbort, { once: true });
+        waiting.push(entry);
+        pump();
+      });
+    },
+
+    /**
+     * Wait for a slot no reply wants, for background work. Replies that
+     * arrive while it waits go first; one already running keeps its slot.
+     */
+    acquireIdle(): Promise<{ release(): void }> {
+      return new Promise(resolve => {
+        let released = false;
+        const release = () => {
+          if (released) return;
+          released = true;
+          idleRunning--;
+          pump();
+        };
+
+        idleWaiting.push(() => resolve({ release }));
+        pump();
+      });
+    },
+
+    /** Move a waiting reply to a 1-based position. Returns false if it isn't waiting. */
+    move(id: string, position: number): boolean {
+      const index = waiting.findIndex(w => w.id === id);
+      if (index === -1) return false;
+
+      const [entry] = waiting.splice(index, 1);
+      const target = Math.min(Math.max(Math.floor(position), 1), waiting.length + 1);
+      waiting.splice(target - 1, 0, entry);
+      pump();
+      return true;
+    },
+
+    setConcurrency(next: number): void {
+      concurrency = Math.max(1, Math.floor(next));
+      pump();
+    },
+
+    snapshot(): QueueSnapshot {
+      return {
+        concurrency,
+        running: [...running.values()],
+        waiting: waiting.map((w, i) => ({
+          id: w.id,
+          conversationId: w.conversationId,
+          enqueuedAt: w.enqueuedAt,
+          position: i + 1,
+          etaSeconds: etaSeconds(i + 1),
+        })),
+      };
+    },
+  };
+}
@@ -0,0 +1,72 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { Hono } from 'hono';
+import * as db from '../db/index.js';
+import { initSessions, issueToken, verifyToken, requireSession } from './session.js';
+
+const DAY = 24 * 60 * 60 * 1000;
+
+beforeEach(() => {
+  db.initDatabase(':memory:');
+  initSessions({ secret: 'test-secret-0123456789' });
+});
+
+describe('session tokens', () => {
+  it('are bound to one conversation', () => {
+    const token = issueToken('c1');
+    expect(verifyToken(token, 'c1')).toBe('valid');
+    expect(verifyToken(token, 'c2')).toBe('invalid');
+  });
+
+  it('reject tampering and other secrets', () => {
+    const token = issueToken('c1');
+    const [, signature] = token.split('.');
+    const forged = `${Buffer.from(JSON.stringify({ c: 'c2', iat: 0 })).toString('base64url')}.${signature}`;
+    expect(verifyToken(forged, 'c2')).toBe('invalid');
+    expect(verifyToken(undefined, 'c1')).toBe('invalid');
+    expect(verifyToken('garbage', 'c1')).toBe('invalid');
+
+    initSessions({ secret: 'another-secret-0123456789' });
+    expect(verifyToken(token, 'c1')).toBe('invalid');
+  });
+
+  it('expire after ttlDays', () => {
+    initSessions({ secret: 'test-secret-0123456789', ttlDays: 30 });
+    const token = issueToken('c1', Date.now() - 31 * DAY);
+    expect(verifyToken(token, 'c1')).toBe('expired');
+    expect(verifyToken(issueToken('c1', Date.now() - 29 * DAY), 'c1')).toBe('valid');
+  });
+
+  it('keep a generated secret in the database across restarts', () => {
+    initSessions();
+    const token = issueToken('c1');
+    initSessions();
+    expect(verifyToken(token, 'c1')).toBe('valid');
+  });
+});
+
+describe('requireSession', () => {
+  function app() {
+    const api = new Hono();
+    api.get('/api/chat/:conversationId', requireSession('read'), c => c.json({ ok: true }));
+    api.post('/api/chat/:conversationId/message', requireSession('write'), c => c.json({ ok: true }));
+    return api;
+  }
+
+  it('accepts the token as a bearer header or query parameter', async () => {
+    const token = issueToken('c1');
+    expect((await app().request('/api/chat/c1', { headers: { Authorization: `Bearer ${token}` } })).status).toBe(200);
+    expect((await app().request(`/api/chat/c1?token=${token}`)).status).toBe(200);
+    expect((await app().request('/api/chat/c1')).status).toBe(401);
+    expect((await app().request(`/api/chat/c2?token=${token}`)).status).toBe(401);
+  });
+
+  it('makes expired conversations read-only', async () => {
+    initSessions({ secret: 'test-secret-0123456789', ttlDays: 1 });
+    const headers = { Authorization: `Bearer ${issueToken('c1', Date.now() - 2 * DAY)}` };
+
+    expect((await app().request('/api/chat/c1', { headers })).status).toBe(200);
+    const res = await app().request('/api/chat/c1/message', { method: 'POST', headers });
+    expect(res.status).toBe(403);
+    expect(await res.json()).toEqual({ error: 'This conversation is closed', readOnly: true });
+  });
+});
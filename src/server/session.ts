@@ -0,0 +1,85 @@
+/**
+ * Visitor session tokens.
+ *
+ * A conversation id alone no longer opens a conversation: /api/chat/start
+ * hands out a token bound to it, and every visitor route checks it.
+ *
+ *   token = base64url({"c": conversationId, "iat": seconds}) + "." + base64url(HMAC-SHA256)
+ *
+ * Sent as `Authorization: Bearer <token>`, or `?token=` where headers
+ * can't be set (EventSource). With `session.ttlDays`, older tokens
+ * still read the conversation but can't post to it.
+ */
+
+import { createHmac, randomBytes, timingSafeEqual } from 'node:crypto';
+import type { Context, Next } from 'hono';
+import * as db from '../db/index.js';
+
+export type TokenStatus = 'valid' | 'expired' | 'invalid';
+
+// Replaced by initSessions(); a random key keeps tests and tools working
+let secret: string = randomBytes(32).toString('hex');
+let ttlSeconds = 0;
+
+/** Use the configured secret, or the one generated on first start */
+export function initSessions(config: { secret?: string; ttlDays?: number } = {}): void {
+  secret = config.secret ?? db.getOrCreateSetting('session_secret', () => randomBytes(32).toString('hex'));
+  ttlSeconds = (config.ttlDays ?? 0) * 24 * 60 * 60;
+}
+
+export function issueToken(conversationId: string, now = Date.now()): string {
+  const payload = Buffer.from(JSON.stringify({ c: conversationId, iat: Math.floor(now / 1000) })).toString('base64url');
+  return `${payload}.${sign(payload)}`;
+}
+
+export function verifyToken(token: string | undefined, conversationId: string, now = Date.now()): TokenStatus {
+  if (!token) return 'invalid';
+
+  const [payload, signature, ...rest] = token.split('.');
+  if (!payload || !signature || rest.length > 0) return 'invalid';
+
+  const expected = Buffer.from(sign(payload));
+  const given = Buffer.from(signature);
+  if (expected.length !== given.length || !timingSafeEqual(expected, given)) return 'invalid';
+
+  let claims: { c?: unknown; iat?: unknown };
+  try {
+    claims = JSON.parse(Buffer.from(payload, 'base64url').toString('utf-8'));
+  } catch {
+    return 'invalid';
+  }
+  if (claims.c !== conversationId || typeof claims.iat !== 'number') return 'invalid';
+
+  if (ttlSeconds > 0 && Math.floor(now / 1000) - claims.iat > ttlSeconds) return 'expired';
+  return 'valid';
+}
+
+/**
+ * Middleware for /api/chat/:conversationId routes. 'read' routes
+ * accept expired tokens (history stays visible); 'write' routes don't.
+ */
+export function requireSession(access: 'read' | 'write') {
+  return async (c: Context, next: Next) => {
+    const status = sessionStatus(c);
+
+    if (status === 'invalid') {
+      return c.json({ error: 'Invalid session' }, 401);
+    }
+    if (status === 'expired' && access === 'write') {
+      return c.json({ error: 'This conversation is closed', readOnly: true }, 403);
+    }
+
+    await next();
+  };
+}
+
+/** Token status for the request's :conversationId */
+export function sessionStatus(c: Context): TokenStatus {
+  const token = c.req.header('Authorization')?.replace(/^Bearer /, '') ?? c.req.query('token');
+  return verifyToken(token, c.req.param('conversationId') ?? '');
+}
+
+/** HMAC with the session secret — also signs anti-bot challenges */
+export function sign(payload: string): string {
+  return createHmac('sha256', secret).update(payload).digest('base64url');
+}
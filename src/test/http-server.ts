@@ -0,0 +1,62 @@
+/**
+ * A local HTTP server for adapter and channel tests.
+ *
+ * Call at the top of a test file: it listens before the tests and
+ * closes after them. Every request is recorded and answered by the
+ * handler the test sets; both reset to `defaultHandler` and an empty
+ * list before each test.
+ */
+
+import { afterAll, beforeAll, beforeEach } from 'vitest';
+import { createServer, type IncomingMessage, type ServerResponse } from 'node:http';
+import type { AddressInfo } from 'node:net';
+
+export type Handler = (req: IncomingMessage, body: string, res: ServerResponse) => void;
+
+export interface RecordedRequest {
+  method?: string;
+  url?: string;
+  headers: IncomingMessage['headers'];
+  body: string;
+}
+
+/** `path` is appended to the base URL, e.g. '/v1' for OpenAI-style APIs */
+export function useHttpServer(path = '', defaultHandler: Handler = (_req, _body, res) => res.end('ok')) {
+  const requests: RecordedRequest[] = [];
+  let handler = defaultHandler;
+  let baseUrl = '';
+
+  const server = createServer((req, res) => {
+    let body = '';
+    req.on('data', chunk => { body += chunk; });
+    req.on('end', () => {
+      requests.push({ method: req.method, url: req.url, headers: req.headers, body });
+      handler(req, body, res);
+    });
+  });
+
+  beforeAll(async () => {
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}${path}`;
+  });
+
+  afterAll(async () => {
+    server.closeAllConnections();
+    await new Promise<void>(resolve => server.close(() => resolve()));
+  });
+
+  beforeEach(() => {
+    requests.length = 0;
+    handler = defaultHandler;
+  });
+
+  return {
+    get baseUrl() {
+      return baseUrl;
+    },
+    requests,
+    setHandler(next: Handler): void {
+      handler = next;
+    },
+  };
+}
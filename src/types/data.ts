@@ -36,15 +36,94 @@ export interface DataSource {
   name: string;
   /** Relative path from data/ directory */
   path: string;
-  /** How to interpret the files */
+  /** How to interpret the files (a .json/.md/.txt extension overrides it) */
   format: 'markdown' | 'json' | 'text';
   /** Description for the LLM — what kind of data is this? */
   description: string;
 }
 
+/**
+ * Retrieval settings — index sources with α instead of
+ * pasting every chunk into the prompt.
+ */
+export interface RetrievalConfig {
+  /** Off by default: tiny datasets are fine with everything in the prompt */
+  enabled: boolean;
+  /** α hardware preset for embedding + chunking defaults. Default: pi5 */
+  preset?: 'pi5' | 'm-series' | 'gpu' | 'custom';
+  /** How many chunks to inject. Default: 4 */
+  topK?: number;
+  /** Minimum similarity (0-1). Default: 0.3 */
+  scoreThreshold?: number;
+  /** Embedding model overrides (model, baseUrl, dimensions) */
+  embedding?: {
+    model?: string;
+    baseUrl?: string;
+    dimensions?: number;
+  };
+  /** Where the vector DBs live, one per source. Default: ./aure-vectors */
+  indexDir?: string;
+  /** Sources always included in full (JSON and single-file sources are pinned implicitly) */
+  pinned?: string[];
+}
+
 /**
  * Top-level aure configuration (data/config.yaml).
  */
+/** Token bucket: `burst` requests at once, refilled at `perMinute` */
+export interface RateLimitBucket {
+  burst: number;
+  perMinute: number;
+}
+
+export interface RateLimitConfig {
+  /** Default: true */
+  enabled?: boolean;
+  /** Per client IP, across starting conversations and sending messages. Default: 20 burst, 10/min */
+  ip?: RateLimitBucket;
+  /** Messages into one conversation. Default: 10 burst, 5/min */
+  conversation?: RateLimitBucket;
+  /** All visitors together. Default: 100 burst, 60/min */
+  global?: RateLimitBucket;
+  /** IPs or CIDRs that are never limited, e.g. ["192.168.1.0/24"] */
+  exempt?: string[];
+  /** Take the client IP from X-Forwarded-For (aure behind one reverse proxy). Default: false */
+  trustProxy?: boolean;
+  /** Keep limiter state in SQLite so a restart doesn't reset it. Default: false */
+  persist?: boolean;
+}
+
+export interface AntibotConfig {
+  /** Default: false */
+  enabled?: boolean;
+  /** Reject forms that fill the hidden "website" field. Default: true */
+  honeypot?: boolean;
+  /** Seconds between starting a conversation and the first message. Default: 3 */
+  minSeconds?: number;
+  /** Hashcash-style challenge solved in the browser before the first message */
+  pow?: {
+    /** Default: false */
+    enabled?: boolean;
+    /** Leading zero bits when the queue is empty. Default: 16 */
+    difficulty?: number;
+    /** Cap as the queue grows (one extra bit per waiting reply). Default: 20 */
+    maxDifficulty?: number;
+  };
+  /** What a failed check does — same as spam rules. Default: 'flag' */
+  action?: 'flag' | 'drop';
+}
+
+export interface SpamClassifierConfig {
+  /** Default: false */
+  enabled?: boolean;
+  /** Spam probability at which a message counts as spam. Default: 0.9 */
+  threshold?: number;
+  /** Same as spam rules. Default: 'flag' */
+  action?: 'flag' | 'drop';
+  /** Messages needed in each class before the classifier decides anything. Default: 20 */
+  minExamples?: number;
+}
+
 export interface AureConfig {
   /** Server settings */
   server: {
@@ -52,12 +131,59 @@ export interface AureConfig {
     host: string;
   };
 
-  /** LLM provider */
-  provider: import('./provider.js').LLMProvider;
+  /** LLM provider, or an ordered fallback list (first = preferred) */
+  provider: import('./provider.js').LLMProvider | import('./provider.js').LLMProvider[];
+
+  /** Circuit breaker settings when `provider` is a list */
+  fallback?: {
+    /** Consecutive failures before a provider is skipped. Default: 2 */
+    failureThreshold?: number;
+    /** Seconds a failed provider is skipped. Default: 60 */
+    cooldown?: number;
+  };
 
   /** Data sources to index */
   sources: DataSource[];
 
+  /** Optional retrieval mode (default: include all chunks) */
+  retrieval?: RetrievalConfig;
+
+  /** Background LLM summaries for the admin digest */
+  digest?: {
+    /** Default: true */
+    enabled?: boolean;
+    /** Minutes without new messages before a conversation is summarised. Default: 10 */
+    quietMinutes?: number;
+    /** Seconds between summarizer runs. Default: 60 */
+    interval?: number;
+  };
+
+  /** LLM reply queue shared by all conversations */
+  queue?: {
+    /** Replies generated at the same time. Default: 1 (one Ollama generation at a time) */
+    concurrency?: number;
+  };
+
+  /** Visitor session tokens */
+  session?: {
+    /** HMAC key for tokens. Default: generated once and kept in the database */
+    secret?: string;
+    /** Days after which a conversation becomes read-only. Default: never */
+    ttlDays?: number;
+  };
+
+  /** Bot checks on a conversation's first message */
+  antibot?: AntibotConfig;
+
+  /** Naive-Bayes spam filter learned from admin spam marks */
+  spamClassifier?: SpamClassifierConfig;
+
+  /** Throttling for visitor routes (start conversation, send message) */
+  rateLimit?: RateLimitConfig;
+
+  /** Where to notify the owner about new conversations, rule matches, errors */
+  notifications?: import('./notify.js').NotificationChannelConfig[];
+
   /** Admin panel settings */
   admin: {
     /** Simple token-based auth for admin panel */
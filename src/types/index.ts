@@ -9,6 +9,8 @@ export type {
 
 export type {
   Persona,
+  LocalizedText,
+  MessageFormText,
 } from './persona.js';
 
 export type {
@@ -16,6 +18,16 @@ export type {
   KeywordMatch,
   PatternMatch,
   ExactMatch,
+  MatchCondition,
+  AllMatch,
+  AnyMatch,
+  NotMatch,
+  FirstMessageMatch,
+  TurnMatch,
+  LanguageMatch,
+  TimeMatch,
+  EmailMatch,
+  RuleFiredMatch,
   SpamRule,
 } from './rules.js';
 
@@ -31,9 +43,22 @@ export { DEFAULT_PROVIDER } from './provider.js';
 export type {
   DataChunk,
   DataSource,
+  RetrievalConfig,
+  RateLimitBucket,
+  RateLimitConfig,
+  AntibotConfig,
+  SpamClassifierConfig,
   AureConfig,
 } from './data.js';
 
 export type {
   MemoryPair,
 } from './memory.js';
+
+export type {
+  NotifyEventType,
+  NotificationChannelConfig,
+  WebhookChannel,
+  EmailChannel,
+  NtfyChannel,
+} from './notify.js';
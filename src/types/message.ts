@@ -23,6 +23,7 @@ export interface Message {
   content: string;
   status: MessageStatus;
   createdAt: string;   // ISO 8601
+  /** source: 'rule' | 'llm' | 'owner' (written personally by the site owner) | ... */
   metadata?: Record<string, unknown>;
 }
 
@@ -36,12 +37,19 @@ export interface Conversation {
   summary: string | null;
   /** LLM-assigned relevance tags */
   tags: string[];
-  /** Is this conversation flagged as spam? */
+  /** Is this conversation flagged as spam? (by rules, bot checks, the classifier or an admin) */
   spam: boolean;
+  /** The admin's own verdict — null until they mark it; the classifier trains on this */
+  spamMark: boolean | null;
   /** Has the author seen this conversation? */
   seen: boolean;
   /** Pinned conversations stay at the top */
   pinned: boolean;
+  /** The owner took over — aure stops auto-replying until unpaused */
+  paused: boolean;
+  /** Left through the message form (name and email are on the conversation) */
+  leftMessage: string | null;
+  messageLeftAt: string | null;
   createdAt: string;
   updatedAt: string;
 }
@@ -59,6 +67,8 @@ export interface AdminDigest {
   conversations: ConversationPreview[];
   /** One-paragraph summary of everything that happened */
   overallSummary: string;
+  /** Messages left through the message form and not seen yet, newest first */
+  messagesLeft: ConversationPreview[];
 }
 
 export interface ConversationPreview {
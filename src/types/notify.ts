@@ -0,0 +1,58 @@
+/**
+ * Notification channels — how aure tells the owner something happened.
+ *
+ * Configured in data/config.yaml under `notifications`, one entry per
+ * channel. Each channel picks the events it cares about and can hold
+ * them during quiet hours or collect them into one batched message.
+ */
+
+/** What can trigger a notification */
+export type NotifyEventType =
+  | 'conversation'  // a visitor sent their first message
+  | 'rule'          // a keyword rule matched (e.g. `hire`)
+  | 'error'         // the LLM failed to answer
+  | 'spam'          // a message was flagged as spam
+  | 'reply';        // a visitor wrote in a conversation the owner took over
+
+interface ChannelOptions {
+  /** Events to send. Default: all */
+  events?: NotifyEventType[];
+  /** Only these rule ids trigger 'rule' events. Default: any rule */
+  rules?: string[];
+  /** Hold notifications during these hours (local time), e.g. "22:00-08:00" */
+  quietHours?: string;
+  /** Collect events for this many minutes, then send them as one. Default: 0 (send right away) */
+  batch?: number;
+}
+
+export interface WebhookChannel extends ChannelOptions {
+  type: 'webhook';
+  url: string;
+  /** Signs the body: X-Aure-Signature: sha256=HMAC(secret, timestamp + "." + body) */
+  secret?: string;
+}
+
+export interface EmailChannel extends ChannelOptions {
+  type: 'email';
+  host: string;
+  /** Default: 587, or 465 when secure */
+  port?: number;
+  /** Implicit TLS (port 465). Otherwise STARTTLS is used when the server offers it. */
+  secure?: boolean;
+  user?: string;
+  pass?: string;
+  /** Log in even when the connection isn't encrypted (no TLS, no STARTTLS). Default: false. */
+  allowInsecureAuth?: boolean;
+  from: string;
+  to: string | string[];
+}
+
+export interface NtfyChannel extends ChannelOptions {
+  type: 'ntfy';
+  /** Topic URL, e.g. https://ntfy.sh/my-aure-topic */
+  url: string;
+  /** Access token for protected topics */
+  token?: string;
+}
+
+export type NotificationChannelConfig = WebhookChannel | EmailChannel | NtfyChannel;
@@ -5,6 +5,12 @@
  * and shapes the auto-responder's tone, boundaries, and knowledge.
  */
 
+/** One text, or one per language code: { en: "...", ru: "..." } */
+export type LocalizedText = string | Record<string, string>;
+
+/** The steps' questions and replies of the message-taking form */
+export type MessageFormText = 'askName' | 'askEmail' | 'invalidEmail' | 'askMessage' | 'confirm' | 'done' | 'cancelled';
+
 export interface Persona {
   /** Display name of the persona (shown in chat) */
   name: string;
@@ -21,15 +27,17 @@ export interface Persona {
 
   /**
    * Greeting — what aure says when a visitor opens the chat.
-   * Can reference {name} placeholder.
+   * A template: {visitorName}, {persona.name}, {time}, {date}.
+   * As a language map, picked by the browser's Accept-Language.
+   * {name} still works as the older spelling of {visitorName}.
    */
-  greeting: string;
+  greeting: LocalizedText;
 
   /**
    * Fallback — what to say when aure has no relevant data.
-   * Honest > hallucinated.
+   * Honest > hallucinated. Template and language map like greeting.
    */
-  fallback: string;
+  fallback: LocalizedText;
 
   /**
    * Languages the persona operates in.
@@ -38,6 +46,13 @@ export interface Persona {
    */
   languages: string[];
 
+  /**
+   * Texts of the message-taking form (rules with `action: takeMessage`).
+   * Templates and language maps like greeting; {form.name},
+   * {form.email} and {form.message} hold the answers so far.
+   */
+  messageForm?: Partial<Record<MessageFormText, LocalizedText>>;
+
   /**
    * Topics the persona refuses to discuss.
    * The LLM will politely decline.
@@ -20,24 +20,41 @@ export interface OllamaProvider {
   temperature?: number;
   /** Request timeout in seconds. Default: 600 (10 min). Set 0 for no timeout. */
   timeout?: number;
+  /**
+   * Model context window in tokens (sent to Ollama as num_ctx).
+   * Enables prompt budgeting: old history, low-relevance chunks and
+   * memories are dropped to keep the prompt under contextWindow - maxTokens.
+   */
+  contextWindow?: number;
 }
 
 export interface OpenAIProvider {
   type: 'openai';
-  /** API key (from env or config) */
-  apiKey: string;
+  /** API key (from env or config). Optional for LAN servers that don't check it. */
+  apiKey?: string;
+  /** Any /v1/chat/completions endpoint. Default: https://api.openai.com/v1 */
   baseUrl?: string;
   model?: string;
   maxTokens?: number;
   temperature?: number;
+  /** Request timeout in seconds. Default: 600 (10 min). Set 0 for no timeout. */
+  timeout?: number;
+  /** Model context window in tokens — enables prompt budgeting */
+  contextWindow?: number;
 }
 
 export interface AnthropicProvider {
   type: 'anthropic';
   apiKey: string;
+  /** Messages API base URL. Default: https://api.anthropic.com */
+  baseUrl?: string;
   model?: string;
   maxTokens?: number;
   temperature?: number;
+  /** Request timeout in seconds. Default: 120. Set 0 for no timeout. */
+  timeout?: number;
+  /** Model context window in tokens — enables prompt budgeting */
+  contextWindow?: number;
 }
 
 export type LLMProvider = OllamaProvider | OpenAIProvider | AnthropicProvider;
@@ -9,6 +9,8 @@
  * If no rule matches, the message goes to the LLM.
  */
 
+import type { LocalizedText } from './persona.js';
+
 export interface Rule {
   /** Unique identifier */
   id: string;
@@ -21,17 +23,30 @@ export interface Rule {
    * - 'keywords': any of the keywords appear in the message
    * - 'pattern':  regex match against the message
    * - 'exact':    exact string match (case-insensitive)
+   * - 'all' / 'any' / 'not': combine other conditions
+   * - 'firstMessage', 'turn', 'language', 'time', 'email', 'ruleFired':
+   *   conditions on the conversation rather than the text
    */
-  match: KeywordMatch | PatternMatch | ExactMatch;
+  match: MatchCondition;
 
-  /** What to respond with */
-  response: string;
+  /**
+   * What to respond with — a template ({visitorName}, {match.1}, ...),
+   * or a map by language code picked by the message's language
+   */
+  response: LocalizedText;
 
   /** Priority — higher wins when multiple rules match */
   priority: number;
 
   /** Is this rule active? */
   enabled: boolean;
+
+  /**
+   * What happens after the response.
+   * - 'takeMessage': ask for name, email and a message, step by step,
+   *   and leave them for the owner
+   */
+  action?: 'takeMessage';
 }
 
 export interface KeywordMatch {
@@ -56,6 +71,82 @@ export interface ExactMatch {
   value: string;
 }
 
+export type MatchCondition =
+  | KeywordMatch
+  | PatternMatch
+  | ExactMatch
+  | AllMatch
+  | AnyMatch
+  | NotMatch
+  | FirstMessageMatch
+  | TurnMatch
+  | LanguageMatch
+  | TimeMatch
+  | EmailMatch
+  | RuleFiredMatch;
+
+/** Every condition holds */
+export interface AllMatch {
+  type: 'all';
+  conditions: MatchCondition[];
+}
+
+/** At least one condition holds */
+export interface AnyMatch {
+  type: 'any';
+  conditions: MatchCondition[];
+}
+
+export interface NotMatch {
+  type: 'not';
+  condition: MatchCondition;
+}
+
+/** The visitor's first message in the conversation */
+export interface FirstMessageMatch {
+  type: 'firstMessage';
+}
+
+/** Which visitor message this is (1 = first) */
+export interface TurnMatch {
+  type: 'turn';
+  /** Exactly this turn */
+  n?: number;
+  min?: number;
+  max?: number;
+}
+
+/** Language detected from the message (en, de, fr, es, it, nl, et, ru, pt) */
+export interface LanguageMatch {
+  type: 'language';
+  languages: string[];
+}
+
+/** Server local time; all given parts must hold */
+export interface TimeMatch {
+  type: 'time';
+  /** "09:00-17:00", may span midnight */
+  hours?: string;
+  /** mon, tue, wed, thu, fri, sat, sun */
+  days?: string[];
+  /** First day, YYYY-MM-DD */
+  from?: string;
+  /** Last day (inclusive), YYYY-MM-DD — e.g. the end of a vacation */
+  until?: string;
+}
+
+/** Did the visitor leave an email address? */
+export interface EmailMatch {
+  type: 'email';
+  present: boolean;
+}
+
+/** One of these rules already answered earlier in the conversation */
+export interface RuleFiredMatch {
+  type: 'ruleFired';
+  rules: string[];
+}
+
 /**
  * Spam filter rules — simpler structure.
  * If a message matches any spam rule, it's flagged.